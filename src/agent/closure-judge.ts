@@ -0,0 +1,54 @@
+/**
+ * Closure Judge - LLM read on whether a conversation has reached a natural end
+ *
+ * Complements the wind-down heuristics with the things keywords miss:
+ * a question buried mid-message, a topic that's clearly done, a friend who
+ * is politely disengaging.
+ */
+
+import { Agent } from '@mastra/core'
+import { z } from 'zod'
+import type { Message } from '@photon-ai/imessage-kit'
+import type { ClosureJudgment, ConversationState } from '../types/index.js'
+import { formatTranscript } from '../utils/group-chat.js'
+import { modelFor } from './model-registry.js'
+import { generateStructured } from './structured-output.js'
+
+const closureJudgmentSchema = z.object({
+  closed: z.boolean(),
+  openQuestion: z.boolean(),
+  momentum: z.enum(['rising', 'steady', 'fading']),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().default('')
+}) satisfies z.ZodType<ClosureJudgment, z.ZodTypeDef, unknown>
+
+export const closureJudgeAgent = new Agent({
+  name: 'closure-judge',
+  instructions: `
+You read the end of a text conversation between "You" and a friend (or a group chat, with each sender named) and judge whether it has reached a natural stopping point for You.
+
+Consider:
+- closure: has the topic wrapped up, or did the friend say goodbye or sign off?
+- open questions: did the friend ask something You haven't answered yet?
+- momentum: are the friend's replies getting longer and more engaged (rising), holding (steady), or shorter and flatter (fading)?
+
+Respond with ONLY a JSON object - no prose, no code fences:
+{"closed": true, "openQuestion": false, "momentum": "fading", "confidence": 0.8, "reason": "one short sentence"}
+`,
+  model: modelFor('closure')
+})
+
+/**
+ * Ask the LLM whether the conversation is over
+ * @returns The judgment, or null if the model never gave a valid answer
+ */
+export async function judgeClosureWithLLM(
+  conv: ConversationState,
+  history: Message[],
+  descriptions: Map<string, string>,
+  retries: number
+): Promise<ClosureJudgment | null> {
+  const transcript = formatTranscript(conv, history.slice(-12), descriptions)
+
+  return generateStructured(closureJudgeAgent, `Conversation:\n${transcript}`, closureJudgmentSchema, { retries })
+}
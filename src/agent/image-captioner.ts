@@ -0,0 +1,52 @@
+/**
+ * Image Captioner - Short description of a photo a friend sent
+ *
+ * Uses the caption model, which has to accept image input. Only formats
+ * vision APIs take are sent; HEIC photos straight off an iPhone fall back
+ * to the plain "[photo]" description.
+ */
+
+import { Agent } from '@mastra/core'
+import { readAttachment, type Attachment } from '@photon-ai/imessage-kit'
+import { modelFor } from './model-registry.js'
+
+/** Image types vision models accept */
+const CAPTIONABLE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+
+/** Larger images are skipped rather than uploaded */
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+export const imageCaptionerAgent = new Agent({
+  name: 'image-captioner',
+  instructions: `
+You describe a photo someone sent in a text conversation, so a reply can make sense of it.
+
+Answer with one short plain sentence (under 20 words) saying what the photo shows - people, place, objects, any visible text.
+No preamble, no speculation about who people are.
+`,
+  model: modelFor('caption')
+})
+
+/**
+ * Caption an image attachment
+ * @returns The caption, or null if the image can't be sent to the model
+ */
+export async function captionImage(attachment: Attachment): Promise<string | null> {
+  if (!CAPTIONABLE_TYPES.includes(attachment.mimeType) || attachment.size > MAX_IMAGE_BYTES) {
+    return null
+  }
+
+  const image = await readAttachment(attachment)
+  const response = await imageCaptionerAgent.generate([
+    {
+      role: 'user',
+      content: [
+        { type: 'text', text: 'Describe this photo.' },
+        { type: 'image', image, mimeType: attachment.mimeType }
+      ]
+    }
+  ])
+
+  const caption = (response.text || '').trim().replace(/\.$/, '')
+  return caption || null
+}
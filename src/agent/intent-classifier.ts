@@ -0,0 +1,43 @@
+/**
+ * Intent Classifier - LLM fallback for replies the keyword parser can't read
+ *
+ * Only consulted for unclear or low-confidence answers to takeover prompts,
+ * e.g. "eh go for it i guess" or "honestly i'd rather you didn't".
+ */
+
+import { Agent } from '@mastra/core'
+import { modelFor } from './model-registry.js'
+import type { IntentResult } from '../types/index.js'
+
+export const intentClassifierAgent = new Agent({
+  name: 'intent-classifier',
+  instructions: `
+You read a user's reply to the question "do you want me to take over this text conversation for you?".
+
+Answer with exactly one word:
+- APPROVE if they want the conversation taken over
+- DENY if they don't
+- UNCLEAR if you can't tell
+
+No explanation, no punctuation.
+`,
+  model: modelFor('intent')
+})
+
+/**
+ * Classify a reply with the LLM
+ */
+export async function classifyIntentWithLLM(messageText: string): Promise<IntentResult> {
+  const response = await intentClassifierAgent.generate(`Reply: "${messageText}"`)
+  const answer = (response.text || '').trim().toUpperCase()
+
+  if (answer.startsWith('APPROVE')) {
+    return { intent: 'approve', confidence: 0.75, source: 'llm' }
+  }
+
+  if (answer.startsWith('DENY')) {
+    return { intent: 'deny', confidence: 0.75, source: 'llm' }
+  }
+
+  return { intent: 'unclear', confidence: 0, source: 'llm' }
+}
@@ -0,0 +1,121 @@
+/**
+ * Mock Model - Deterministic offline stand-in for an LLM
+ *
+ * Used by the simulator and for running without an API key. The model id
+ * picks the behavior:
+ *   - "default": a fixed answer per task ("sounds good", "UNCLEAR", ...)
+ *   - "echo": repeats the last user prompt back, unwrapped
+ *   - anything else: used as the answer, e.g. REPLY_MODEL="mock:haha nice"
+ * Answers for tasks that expect JSON are wrapped in the reply format unless
+ * they already are a JSON object, e.g. REPLY_MODEL='mock:{"messages":["hm"],"escalate":true,...}'
+ */
+
+import type { LanguageModel } from 'ai'
+import type { LlmTask } from '../types/index.js'
+
+type LanguageModelV2 = Exclude<LanguageModel, string>
+type CallOptions = Parameters<LanguageModelV2['doGenerate']>[0]
+
+const DEFAULT_RESPONSES: Record<LlmTask, string> = {
+  reply: 'sounds good',
+  windDown: 'gotta run, talk later',
+  closure: '{"closed": false, "openQuestion": false, "momentum": "steady", "confidence": 0.5, "reason": "mock model"}',
+  intent: 'UNCLEAR',
+  caption: 'a photo',
+  summary: '{"openQuestions": [], "commitments": [], "followUp": "nothing needed for now"}'
+}
+
+/** Tasks whose prompts ask for a MessageGenerationResult JSON object */
+const JSON_TASKS: LlmTask[] = ['reply', 'windDown']
+
+export function createMockModel(task: LlmTask, modelId: string): LanguageModelV2 {
+  const respond = (options: CallOptions): string => {
+    if (modelId === 'default') {
+      return formatAnswer(task, DEFAULT_RESPONSES[task])
+    }
+    if (modelId === 'echo') {
+      return lastUserText(options)
+    }
+    return formatAnswer(task, modelId)
+  }
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const text = respond(options)
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: 'stop',
+        usage: usageFor(options, text),
+        warnings: []
+      }
+    },
+
+    async doStream(options) {
+      const text = respond(options)
+      const usage = usageFor(options, text)
+
+      return {
+        stream: new ReadableStream({
+          start(controller) {
+            controller.enqueue({ type: 'stream-start', warnings: [] })
+            controller.enqueue({ type: 'text-start', id: '0' })
+            controller.enqueue({ type: 'text-delta', id: '0', delta: text })
+            controller.enqueue({ type: 'text-end', id: '0' })
+            controller.enqueue({ type: 'finish', finishReason: 'stop', usage })
+            controller.close()
+          }
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Wrap a canned answer in the JSON the task's prompt asks for
+ */
+function formatAnswer(task: LlmTask, answer: string): string {
+  if (!JSON_TASKS.includes(task) || answer.trim().startsWith('{')) {
+    return answer
+  }
+
+  return JSON.stringify({
+    messages: [answer],
+    shouldContinue: task !== 'windDown',
+    confidence: 1,
+    escalate: false,
+    reasoning: 'mock model'
+  })
+}
+
+/**
+ * Text of the last user message in the prompt
+ */
+function lastUserText(options: CallOptions): string {
+  const message = [...options.prompt].reverse().find(m => m.role === 'user')
+  if (!message || message.role !== 'user') {
+    return ''
+  }
+
+  return message.content
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('')
+    .trim()
+}
+
+/**
+ * Rough token counts (4 characters per token) so usage reporting has numbers
+ */
+function usageFor(options: CallOptions, output: string) {
+  const inputChars = options.prompt
+    .flatMap(m => (typeof m.content === 'string' ? [m.content] : m.content.map(part => ('text' in part ? part.text : ''))))
+    .join('').length
+
+  const inputTokens = Math.ceil(inputChars / 4)
+  const outputTokens = Math.ceil(output.length / 4)
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens }
+}
@@ -0,0 +1,160 @@
+/**
+ * Model Registry - Resolves the model for each LLM task from config
+ *
+ * Agents are created at import time, before config is loaded, so they take
+ * their model as a function (`model: modelFor('reply')`) that reads from
+ * here. main() and the simulator call configureModels() at startup. An agent
+ * used for several tasks picks the model per call via taskContext().
+ */
+
+import type { LanguageModel } from 'ai'
+import { createCerebras } from '@ai-sdk/cerebras'
+import { createOpenAI } from '@ai-sdk/openai'
+import { RuntimeContext } from '@mastra/core/runtime-context'
+import type { LlmConfig, LlmProvider, LlmTask, ModelSpec } from '../types/index.js'
+import { createMockModel } from './mock-model.js'
+
+type LanguageModelV2 = Exclude<LanguageModel, string>
+
+const PROVIDERS: LlmProvider[] = ['cerebras', 'openai', 'openai-compatible', 'mock']
+
+/** Model used when only a provider is given (OpenAI-compatible servers have no sensible default) */
+export const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  cerebras: 'gpt-oss-120b',
+  openai: 'gpt-4o-mini',
+  'openai-compatible': '',
+  mock: 'default'
+}
+
+/** RuntimeContext key holding the task of the current call */
+const TASK_KEY = 'llmTask'
+
+let llmConfig: LlmConfig | null = null
+const models = new Map<string, LanguageModelV2>()
+
+/**
+ * Set the config models are built from (clears any models built earlier)
+ */
+export function configureModels(config: LlmConfig): void {
+  llmConfig = config
+  models.clear()
+}
+
+/**
+ * The model configured for a task
+ * @throws Error if configureModels() hasn't been called
+ */
+export function getModel(task: LlmTask): LanguageModelV2 {
+  if (!llmConfig) {
+    throw new Error(`[Models] No model configured for "${task}" - call configureModels() first`)
+  }
+
+  const spec = llmConfig.models[task]
+  const key = spec.provider === 'mock' ? `mock:${task}:${spec.model}` : `${spec.provider}:${spec.model}`
+
+  let model = models.get(key)
+  if (!model) {
+    model = createModel(task, spec, llmConfig)
+    models.set(key, model)
+  }
+  return model
+}
+
+/**
+ * Model option for a Mastra Agent: the model of the call's task (see taskContext), else defaultTask's
+ */
+export function modelFor(defaultTask: LlmTask) {
+  return ({ runtimeContext }: { runtimeContext: RuntimeContext }) =>
+    getModel((runtimeContext.get(TASK_KEY) as LlmTask | undefined) ?? defaultTask)
+}
+
+/**
+ * Runtime context that makes an agent call use the given task's model
+ */
+export function taskContext(task: LlmTask): RuntimeContext {
+  const context = new RuntimeContext()
+  context.set(TASK_KEY, task)
+  return context
+}
+
+function createModel(task: LlmTask, spec: ModelSpec, config: LlmConfig): LanguageModelV2 {
+  switch (spec.provider) {
+    case 'cerebras':
+      return createCerebras({ apiKey: config.cerebrasApiKey })(spec.model)
+
+    case 'openai':
+      return createOpenAI({ apiKey: config.openaiApiKey })(spec.model)
+
+    case 'openai-compatible':
+      // Local servers (llama.cpp, Ollama, vLLM) speak chat completions, not the Responses API
+      return createOpenAI({
+        baseURL: config.compatibleBaseUrl,
+        apiKey: config.compatibleApiKey || 'not-needed',
+        name: 'openai-compatible'
+      }).chat(spec.model)
+
+    case 'mock':
+      return createMockModel(task, spec.model)
+  }
+}
+
+/**
+ * Parse "provider:model" or a bare model name (which uses the default provider).
+ * A bare provider name ("openai") means that provider's default model.
+ */
+export function parseModelSpec(value: string | undefined, fallback: ModelSpec): ModelSpec {
+  const text = value?.trim()
+  if (!text) {
+    return fallback
+  }
+
+  if (isProvider(text)) {
+    return { provider: text, model: DEFAULT_MODELS[text] }
+  }
+
+  const colon = text.indexOf(':')
+  const prefix = colon > 0 ? text.slice(0, colon) : ''
+  if (isProvider(prefix)) {
+    return { provider: prefix, model: text.slice(colon + 1).trim() || DEFAULT_MODELS[prefix] }
+  }
+
+  return { provider: fallback.provider, model: text }
+}
+
+export function isProvider(value: string): value is LlmProvider {
+  return (PROVIDERS as string[]).includes(value)
+}
+
+/**
+ * Settings the configured models need but don't have (missing API keys, base URL, model name)
+ * @returns One line per problem, empty if everything is set
+ */
+export function findMissingModelSettings(config: LlmConfig): string[] {
+  const problems: string[] = []
+  const specs = Object.values(config.models)
+  const uses = (provider: LlmProvider) => specs.some(spec => spec.provider === provider)
+
+  if (uses('cerebras') && (!config.cerebrasApiKey || config.cerebrasApiKey === 'your-key-here')) {
+    problems.push('CEREBRAS_API_KEY is not set')
+  }
+  if (uses('openai') && !config.openaiApiKey) {
+    problems.push('OPENAI_API_KEY is not set')
+  }
+  if (uses('openai-compatible') && !config.compatibleBaseUrl) {
+    problems.push('LLM_BASE_URL is not set (needed for openai-compatible models)')
+  }
+  for (const [task, spec] of Object.entries(config.models)) {
+    if (!spec.model) {
+      problems.push(`No model name for ${task} (${spec.provider})`)
+    }
+  }
+
+  return problems
+}
+
+/**
+ * "provider:model" for logs
+ */
+export function describeModelSpec(spec: ModelSpec): string {
+  return `${spec.provider}:${spec.model}`
+}
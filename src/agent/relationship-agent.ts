@@ -3,7 +3,7 @@
  */
 
 import { Agent } from '@mastra/core'
-import { cerebras } from '@ai-sdk/cerebras'
+import { modelFor } from './model-registry.js'
 import { styleAnalyzerTool } from './tools/style-analyzer.js'
 import { messageGeneratorTool } from './tools/message-generator.js'
 import { windDownDetectorTool } from './tools/wind-down-detector.js'
@@ -52,7 +52,7 @@ Wind-Down Guidelines:
   - Brief: "gtg ttyl"
   - Proper: "I need to go, but let's talk later!"
 `,
-  model: cerebras('gpt-oss-120b'),
+  model: modelFor('reply'),
   tools: {
     analyzeStyle: styleAnalyzerTool,
     generateMessage: messageGeneratorTool,
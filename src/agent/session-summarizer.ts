@@ -0,0 +1,46 @@
+/**
+ * Session Summarizer - LLM read on what an agent session left behind
+ *
+ * The handoff summary lists the messages itself; the model only picks out
+ * what needs the user: questions still hanging, plans the agent's texts
+ * agreed to (even loosely, like "sounds good"), and what to do next.
+ */
+
+import { Agent } from '@mastra/core'
+import { z } from 'zod'
+import type { SessionSummaryJudgment } from '../types/index.js'
+import { modelFor } from './model-registry.js'
+import { generateStructured } from './structured-output.js'
+
+const sessionSummarySchema = z.object({
+  openQuestions: z.array(z.string()).default([]),
+  commitments: z.array(z.string()).default([]),
+  followUp: z.string().default('')
+}) satisfies z.ZodType<SessionSummaryJudgment, z.ZodTypeDef, unknown>
+
+export const sessionSummarizerAgent = new Agent({
+  name: 'session-summarizer',
+  instructions: `
+You review a text conversation where an assistant ("Agent") texted a friend on the user's behalf, and brief the user on what they need to pick up.
+
+Find:
+- openQuestions: questions the friend asked that neither the Agent nor the user answered
+- commitments: anything the Agent's texts agreed to or implied on the user's behalf - plans, times, favors, "sounds good" to a proposal
+- followUp: one short suggestion for what the user should do next ("nothing needed" if the conversation ended cleanly)
+
+Quote or closely paraphrase the messages; never invent details.
+
+Respond with ONLY a JSON object - no prose, no code fences:
+{"openQuestions": ["..."], "commitments": ["..."], "followUp": "..."}
+`,
+  model: modelFor('summary')
+})
+
+/**
+ * Ask the LLM what a session left open
+ * @param transcript The session's messages as "Name: text" lines
+ * @returns The judgment, or null if the model never gave a valid answer
+ */
+export async function summarizeSessionWithLLM(transcript: string, retries: number): Promise<SessionSummaryJudgment | null> {
+  return generateStructured(sessionSummarizerAgent, `Conversation:\n${transcript}`, sessionSummarySchema, { retries })
+}
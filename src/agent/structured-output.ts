@@ -0,0 +1,90 @@
+/**
+ * Structured Output - Asks an agent for JSON and validates it with zod
+ *
+ * The prompt asks for a bare JSON object; the reply is parsed (tolerating
+ * code fences and stray text around the object) and checked against the
+ * schema. Invalid answers are retried with the validation errors as feedback.
+ */
+
+import type { Agent } from '@mastra/core'
+import type { RuntimeContext } from '@mastra/core/runtime-context'
+import type { z } from 'zod'
+
+export interface StructuredGenerationOptions {
+  /** Extra attempts after a reply that doesn't match the schema */
+  retries: number
+
+  /** Picks the task's model (see taskContext) */
+  runtimeContext?: RuntimeContext
+
+  /** Stops generating (the call throws) once aborted */
+  abortSignal?: AbortSignal
+
+  /** Called with each attempt's full prompt and the model's raw reply */
+  onAttempt?: (prompt: string, output: string) => void
+}
+
+/**
+ * Generate and validate a structured answer
+ * @returns The parsed value, or null if no attempt matched the schema
+ */
+export async function generateStructured<T extends z.ZodTypeAny>(
+  agent: Agent,
+  prompt: string,
+  schema: T,
+  options: StructuredGenerationOptions
+): Promise<z.infer<T> | null> {
+  let feedback = ''
+
+  for (let attempt = 0; attempt <= options.retries; attempt++) {
+    const response = await agent.generate(prompt + feedback, {
+      runtimeContext: options.runtimeContext,
+      abortSignal: options.abortSignal
+    })
+    const text = response.text?.trim() || ''
+    options.onAttempt?.(prompt + feedback, text)
+
+    const json = extractJsonObject(text)
+    if (json === undefined) {
+      console.error(`[StructuredOutput] Reply wasn't JSON (attempt ${attempt + 1}/${options.retries + 1})`)
+      feedback = `
+
+Your previous answer was not a JSON object. Respond with ONLY the JSON object - no prose, no code fences.`
+      continue
+    }
+
+    const result = schema.safeParse(json)
+    if (result.success) {
+      return result.data
+    }
+
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    console.error(`[StructuredOutput] Reply didn't match the schema (attempt ${attempt + 1}/${options.retries + 1}): ${issues.join('; ')}`)
+    feedback = `
+
+Your previous answer didn't match the required format (${issues.join('; ')}):
+${text}
+Respond with ONLY a corrected JSON object.`
+  }
+
+  return null
+}
+
+/**
+ * Pull the first JSON object out of a model reply
+ * @returns The parsed value, or undefined if there is no parseable object
+ */
+export function extractJsonObject(text: string): unknown {
+  const unfenced = text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '')
+  const start = unfenced.indexOf('{')
+  const end = unfenced.lastIndexOf('}')
+  if (start < 0 || end <= start) {
+    return undefined
+  }
+
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1))
+  } catch {
+    return undefined
+  }
+}
@@ -4,6 +4,29 @@
 
 import { createTool } from '@mastra/core'
 import { z } from 'zod'
+import type { MessageGenerationResult } from '../../types/index.js'
+
+/**
+ * What the model must return when generating a reply
+ */
+export const messageGenerationSchema = z.object({
+  messages: z.array(z.string().trim().min(1)).min(1),
+  shouldContinue: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  escalate: z.boolean().default(false),
+  reasoning: z.string().default('')
+}) satisfies z.ZodType<MessageGenerationResult, z.ZodTypeDef, unknown>
+
+/**
+ * Prompt text describing messageGenerationSchema to the model
+ */
+export const MESSAGE_GENERATION_FORMAT = `Respond with ONLY a JSON object in this exact shape - no prose, no code fences:
+{"messages": ["first text", "second text"], "shouldContinue": true, "confidence": 0.8, "escalate": false, "reasoning": "one short sentence"}
+- messages: the texts to send, exactly as you'd type them (one entry per text bubble)
+- shouldContinue: false if this reply closes the conversation naturally and you shouldn't reply again
+- confidence: 0 to 1, how sure you are this fits the conversation and sounds like you
+- escalate: true if this needs the real person (something serious, emotional, or you don't know the answer)
+- reasoning: why you chose this reply (never sent)`
 
 export const messageGeneratorTool = createTool({
   id: 'generate-message',
@@ -18,11 +41,7 @@ export const messageGeneratorTool = createTool({
     friendName: z.string(),
     messagesSentSoFar: z.number()
   }),
-  outputSchema: z.object({
-    message: z.string(),
-    shouldContinue: z.boolean(),
-    reasoning: z.string()
-  }),
+  outputSchema: messageGenerationSchema,
   execute: async ({ context }) => {
     const { conversationHistory, styleGuide, friendName, messagesSentSoFar } = context
 
@@ -31,8 +50,10 @@ export const messageGeneratorTool = createTool({
     // This is a placeholder that should not be directly called
 
     return {
-      message: '',
+      messages: [],
       shouldContinue: messagesSentSoFar < 2,
+      confidence: 0,
+      escalate: false,
       reasoning: 'Tool schema definition only'
     }
   }
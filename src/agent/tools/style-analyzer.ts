@@ -4,7 +4,32 @@
 
 import { createTool } from '@mastra/core'
 import { z } from 'zod'
-import type { Message } from '@photon-ai/imessage-kit'
+import type { StyleProfile } from '../../types/index.js'
+
+/** Style metrics computed from a set of messages */
+export type StyleMetrics = Omit<StyleProfile, 'scope' | 'lastSampleGuid' | 'updatedAt'>
+
+/** Texts sent less than this far apart, with no reply in between, count as one multi-message burst */
+const BURST_GAP_MS = 90000
+
+/** Slang and abbreviations worth mirroring when the user types them */
+const SLANG_TERMS = new Set([
+  'lol', 'lmao', 'lmfao', 'rofl', 'ngl', 'omg', 'omw', 'idk', 'idc', 'imo', 'imho',
+  'tbh', 'tbf', 'btw', 'brb', 'gtg', 'g2g', 'ttyl', 'rn', 'nvm', 'smh', 'fr', 'frfr',
+  'bc', 'cuz', 'u', 'ur', 'ya', 'ye', 'yea', 'k', 'kk', 'thx', 'ty', 'np', 'pls', 'plz',
+  'sry', 'wyd', 'wbu', 'hbu', 'hmu', 'jk', 'irl', 'af', 'ikr', 'istg', 'lowkey', 'bet',
+  'dw', 'wtf', 'gonna', 'wanna', 'gotta', 'tho', 'prob', 'def', 'yk', 'iykyk', 'bruh'
+])
+
+/** Filler words that shouldn't count as a "common phrase" */
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'at', 'for', 'is', 'it',
+  'i', 'im', "i'm", 'me', 'my', 'you', 'we', 'that', 'this', 'so', 'be', 'was', 'are',
+  'with', 'just', 'do', 'if', 'its', "it's", 'have', 'not'
+])
+
+/** Matches laughter spellings: haha, hahaha, ahah, hehe, lol, lolol, lmaooo, rofl */
+const LAUGHTER_REGEX = /^(a?(ha)+h?|(he){2,}h?|lo(l|ol)+|lmf?a+o+|rofl)$/
 
 export const styleAnalyzerTool = createTool({
   id: 'analyze-user-style',
@@ -12,7 +37,9 @@ export const styleAnalyzerTool = createTool({
   inputSchema: z.object({
     messages: z.array(z.object({
       text: z.string(),
-      date: z.string()
+      date: z.string(),
+      chatId: z.string().optional(),
+      isFromMe: z.boolean().optional()
     })),
     count: z.number().default(50)
   }),
@@ -22,83 +49,138 @@ export const styleAnalyzerTool = createTool({
     commonPhrases: z.array(z.string()),
     emojiUsage: z.enum(['none', 'rare', 'frequent']),
     typingPatterns: z.string(),
-    styleGuide: z.string()
+    styleGuide: z.string(),
+    abbreviations: z.array(z.object({ term: z.string(), count: z.number() })),
+    bigrams: z.array(z.string()),
+    trigrams: z.array(z.string()),
+    laughterForms: z.array(z.string()),
+    typicalBurstSize: z.number(),
+    burstDistribution: z.record(z.string(), z.number())
   }),
   execute: async ({ context }) => {
-    const { messages, count } = context
-    const recentMessages = messages.slice(-count).filter(m => m.text && m.text.trim().length > 0)
-
-    if (recentMessages.length === 0) {
-      return {
-        tone: 'casual',
-        averageLength: 50,
-        commonPhrases: [],
-        emojiUsage: 'none' as const,
-        typingPatterns: 'casual',
-        styleGuide: 'Keep messages brief and casual.'
-      }
-    }
+    const { sampleCount, capsRatio, punctuationRatio, emojiRatio, ...analysis } =
+      analyzeStyle(context.messages, context.count)
 
-    // Calculate average message length
-    const totalLength = recentMessages.reduce((sum, m) => sum + m.text.length, 0)
-    const avgLength = Math.round(totalLength / recentMessages.length)
-
-    // Detect emoji usage
-    const emojiRegex = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/gu
-    const messagesWithEmoji = recentMessages.filter(m => emojiRegex.test(m.text))
-    const emojiPercentage = messagesWithEmoji.length / recentMessages.length
-
-    let emojiUsage: 'none' | 'rare' | 'frequent'
-    if (emojiPercentage === 0) {
-      emojiUsage = 'none'
-    } else if (emojiPercentage < 0.3) {
-      emojiUsage = 'rare'
-    } else {
-      emojiUsage = 'frequent'
-    }
+    return analysis
+  }
+})
 
-    // Detect capitalization and punctuation patterns
-    const properCaps = recentMessages.filter(m => /^[A-Z]/.test(m.text)).length
-    const capsPercentage = properCaps / recentMessages.length
+/**
+ * A text for style analysis. Messages with isFromMe false are the other
+ * party's and only mark where the user's bursts end.
+ */
+export interface StyleSample {
+  text: string
+  date: string
+  chatId?: string
+  isFromMe?: boolean
+}
 
-    const withPunctuation = recentMessages.filter(m => /[.!?]$/.test(m.text)).length
-    const punctuationPercentage = withPunctuation / recentMessages.length
+/**
+ * Analyze the user's texting style from their most recent `count` messages
+ */
+export function analyzeStyle(messages: StyleSample[], count: number = 50): StyleMetrics {
+  const recentMessages = messages
+    .filter(m => m.isFromMe !== false)
+    .slice(-count)
+    .filter(m => m.text && m.text.trim().length > 0)
 
-    let typingPatterns: string
-    if (capsPercentage > 0.7 && punctuationPercentage > 0.7) {
-      typingPatterns = 'Proper capitalization and punctuation'
-    } else if (capsPercentage < 0.3) {
-      typingPatterns = 'Mostly lowercase, casual typing'
-    } else {
-      typingPatterns = 'Mixed capitalization, casual style'
+  if (recentMessages.length === 0) {
+    return {
+      tone: 'casual',
+      averageLength: 50,
+      commonPhrases: [],
+      emojiUsage: 'none' as const,
+      typingPatterns: 'casual',
+      styleGuide: 'Keep messages brief and casual.',
+      sampleCount: 0,
+      capsRatio: 0,
+      punctuationRatio: 0,
+      emojiRatio: 0,
+      abbreviations: [],
+      bigrams: [],
+      trigrams: [],
+      laughterForms: [],
+      typicalBurstSize: 1,
+      burstDistribution: { 1: 1 }
     }
+  }
 
-    // Extract common words/phrases (simple frequency analysis)
-    const allText = recentMessages.map(m => m.text.toLowerCase()).join(' ')
-    const words = allText.split(/\s+/).filter(w => w.length > 3)
-    const wordFreq = new Map<string, number>()
+  // Calculate average message length
+  const totalLength = recentMessages.reduce((sum, m) => sum + m.text.length, 0)
+  const avgLength = Math.round(totalLength / recentMessages.length)
 
-    for (const word of words) {
-      wordFreq.set(word, (wordFreq.get(word) || 0) + 1)
-    }
+  // Detect emoji usage (no `g` flag - a global regex keeps lastIndex between test() calls)
+  const emojiRegex = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u
+  const messagesWithEmoji = recentMessages.filter(m => emojiRegex.test(m.text))
+  const emojiPercentage = messagesWithEmoji.length / recentMessages.length
 
-    const sortedWords = Array.from(wordFreq.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .map(([word]) => word)
-
-    // Determine tone based on length and patterns
-    let tone: string
-    if (avgLength < 30) {
-      tone = 'very brief and casual'
-    } else if (avgLength < 80) {
-      tone = 'casual and conversational'
-    } else {
-      tone = 'detailed and expressive'
-    }
+  let emojiUsage: 'none' | 'rare' | 'frequent'
+  if (emojiPercentage === 0) {
+    emojiUsage = 'none'
+  } else if (emojiPercentage < 0.3) {
+    emojiUsage = 'rare'
+  } else {
+    emojiUsage = 'frequent'
+  }
+
+  // Detect capitalization and punctuation patterns
+  const properCaps = recentMessages.filter(m => /^[A-Z]/.test(m.text)).length
+  const capsPercentage = properCaps / recentMessages.length
+
+  const withPunctuation = recentMessages.filter(m => /[.!?]$/.test(m.text)).length
+  const punctuationPercentage = withPunctuation / recentMessages.length
+
+  let typingPatterns: string
+  if (capsPercentage > 0.7 && punctuationPercentage > 0.7) {
+    typingPatterns = 'Proper capitalization and punctuation'
+  } else if (capsPercentage < 0.3) {
+    typingPatterns = 'Mostly lowercase, casual typing'
+  } else {
+    typingPatterns = 'Mixed capitalization, casual style'
+  }
+
+  // Tokenize per message so n-grams don't span two texts
+  const tokenizedMessages = recentMessages.map(m => tokenize(m.text))
+  const allTokens = tokenizedMessages.flat()
+
+  // Extract common words (frequency analysis, skipping filler words)
+  const sortedWords = topEntries(
+    countValues(allTokens.filter(w => !STOP_WORDS.has(w) && !SLANG_TERMS.has(w) && !LAUGHTER_REGEX.test(w))),
+    10
+  ).map(([word]) => word)
+
+  // Slang/abbreviations and laughter spellings
+  const abbreviations = topEntries(countValues(allTokens.filter(w => SLANG_TERMS.has(w) && !LAUGHTER_REGEX.test(w))), 10)
+    .map(([term, count]) => ({ term, count }))
+  const laughterForms = topEntries(countValues(allTokens.filter(w => LAUGHTER_REGEX.test(w))), 3)
+    .map(([form]) => form)
+
+  // Repeated two- and three-word phrases
+  const bigrams = topNgrams(tokenizedMessages, 2, 5)
+  const trigrams = topNgrams(tokenizedMessages, 3, 5)
+
+  // Multi-message bursts: consecutive texts sent close together form one turn
+  const burstSizes = measureBursts(recentMessages, messages.filter(m => m.isFromMe === false))
+  const burstCounts = countValues(burstSizes)
+  const typicalBurstSize = topEntries(burstCounts, 1)[0]?.[0] ?? 1
+  const burstDistribution: Record<number, number> = {}
+  for (const [size, turns] of burstCounts) {
+    burstDistribution[size] = Math.round((turns / burstSizes.length) * 100) / 100
+  }
 
-    // Create comprehensive style guide
-    const styleGuide = `
+  // Determine tone based on length and patterns
+  let tone: string
+  if (avgLength < 30) {
+    tone = 'very brief and casual'
+  } else if (avgLength < 80) {
+    tone = 'casual and conversational'
+  } else {
+    tone = 'detailed and expressive'
+  }
+
+  // Create comprehensive style guide
+  const styleGuide = `
 Writing Style Analysis:
 - Message length: ${avgLength < 30 ? 'Very brief (under 30 chars)' : avgLength < 80 ? 'Moderate (30-80 chars)' : 'Longer messages (80+ chars)'}
 - Average: ${avgLength} characters
@@ -106,6 +188,10 @@ Writing Style Analysis:
 - Capitalization: ${typingPatterns}
 - Emoji usage: ${emojiUsage}
 - Common words: ${sortedWords.slice(0, 5).join(', ')}
+- Slang/abbreviations: ${abbreviations.length > 0 ? abbreviations.slice(0, 6).map(a => a.term).join(', ') : 'none'}
+- Laughs with: ${laughterForms.length > 0 ? laughterForms.join(', ') : 'n/a'}
+- Favorite phrases: ${[...trigrams.slice(0, 2), ...bigrams.slice(0, 3)].join(', ') || 'n/a'}
+- Texts per turn: usually ${typicalBurstSize}
 
 When mimicking this user:
 1. Keep messages around ${avgLength} characters (±20%)
@@ -113,15 +199,115 @@ When mimicking this user:
 3. ${punctuationPercentage < 0.3 ? 'Skip punctuation usually' : punctuationPercentage > 0.7 ? 'Use proper punctuation' : 'Use punctuation sparingly'}
 4. ${emojiUsage === 'none' ? 'Avoid emojis' : emojiUsage === 'rare' ? 'Use emojis occasionally' : 'Use emojis frequently'}
 5. Match the ${tone} tone
-    `.trim()
+6. ${abbreviations.length > 0 ? `Use their abbreviations (${abbreviations.slice(0, 4).map(a => a.term).join(', ')}) instead of spelling them out` : 'Spell words out - they rarely abbreviate'}
+7. ${laughterForms.length > 0 ? `When laughing, write it as "${laughterForms[0]}"` : 'Avoid "lol"/"haha" - they rarely use them'}
+8. ${typicalBurstSize > 1 ? `Split replies into ${typicalBurstSize} short texts rather than one long one` : 'Send one text per reply'}
+  `.trim()
 
-    return {
-      tone,
-      averageLength: avgLength,
-      commonPhrases: sortedWords,
-      emojiUsage,
-      typingPatterns,
-      styleGuide
+  return {
+    tone,
+    averageLength: avgLength,
+    commonPhrases: sortedWords,
+    emojiUsage,
+    typingPatterns,
+    styleGuide,
+    sampleCount: recentMessages.length,
+    capsRatio: capsPercentage,
+    punctuationRatio: punctuationPercentage,
+    emojiRatio: emojiPercentage,
+    abbreviations,
+    bigrams,
+    trigrams,
+    laughterForms,
+    typicalBurstSize,
+    burstDistribution
+  }
+}
+
+/**
+ * Lowercase words with surrounding punctuation stripped (keeps apostrophes)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map(w => w.replace(/^[^\p{L}\p{N}']+|[^\p{L}\p{N}']+$/gu, ''))
+    .filter(w => w.length > 0)
+}
+
+function countValues<T>(values: T[]): Map<T, number> {
+  const counts = new Map<T, number>()
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  return counts
+}
+
+function topEntries<T>(counts: Map<T, number>, limit: number): Array<[T, number]> {
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+}
+
+/**
+ * Most frequent n-grams that occur more than once and aren't pure filler
+ */
+function topNgrams(tokenizedMessages: string[][], n: number, limit: number): string[] {
+  const ngrams: string[] = []
+  for (const tokens of tokenizedMessages) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      const gram = tokens.slice(i, i + n)
+      if (gram.every(w => STOP_WORDS.has(w))) continue
+      ngrams.push(gram.join(' '))
     }
   }
-})
+
+  return topEntries(countValues(ngrams), limit)
+    .filter(([, count]) => count > 1)
+    .map(([gram]) => gram)
+}
+
+/**
+ * Sizes of each run of texts sent to one chat within BURST_GAP_MS of the
+ * previous one, ended early when a received text falls between two of them
+ */
+function measureBursts(sent: StyleSample[], received: StyleSample[]): number[] {
+  const receivedTimes = groupTimesByChat(received)
+  const sizes: number[] = []
+
+  for (const [chatId, times] of groupTimesByChat(sent)) {
+    const replies = receivedTimes.get(chatId) ?? []
+
+    times.forEach((time, i) => {
+      const previous = times[i - 1]
+      const continues = i > 0 &&
+        time - previous < BURST_GAP_MS &&
+        !replies.some(reply => reply > previous && reply < time)
+
+      if (continues) {
+        sizes[sizes.length - 1]++
+      } else {
+        sizes.push(1)
+      }
+    })
+  }
+
+  return sizes
+}
+
+/**
+ * Message times per chat, oldest first (samples without a chatId share one group)
+ */
+function groupTimesByChat(messages: StyleSample[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>()
+  for (const message of messages) {
+    const key = message.chatId ?? ''
+    const times = groups.get(key) ?? []
+    times.push(new Date(message.date).getTime())
+    groups.set(key, times)
+  }
+  for (const times of groups.values()) {
+    times.sort((a, b) => a - b)
+  }
+  return groups
+}
@@ -4,13 +4,14 @@
 
 import { createTool } from '@mastra/core'
 import { z } from 'zod'
+import { detectWindDownSignals, WIND_DOWN_THRESHOLD } from '../../utils/wind-down-detector.js'
 
 export const windDownDetectorTool = createTool({
   id: 'detect-wind-down',
   description: "Analyzes conversation to determine if it's time to wind down and exit gracefully.",
   inputSchema: z.object({
     conversationHistory: z.array(z.object({
-      sender: z.string(),
+      fromMe: z.boolean(),
       text: z.string()
     })),
     messagesSent: z.number(),
@@ -19,60 +20,34 @@ export const windDownDetectorTool = createTool({
   outputSchema: z.object({
     shouldWindDown: z.boolean(),
     reason: z.string(),
-    suggestedExitMessage: z.string()
+    closureScore: z.number(),
+    openQuestion: z.boolean(),
+    momentum: z.enum(['rising', 'steady', 'fading'])
   }),
   execute: async ({ context }) => {
     const { conversationHistory, messagesSent, maxMessages } = context
 
+    const signals = detectWindDownSignals(
+      conversationHistory.map(m => ({ isFromMe: m.fromMe, text: m.text }))
+    )
+
     // Check if we've hit the message limit
     if (messagesSent >= maxMessages) {
       return {
         shouldWindDown: true,
         reason: `Sent ${messagesSent} messages, reaching the maximum of ${maxMessages}`,
-        suggestedExitMessage: 'anyway i gotta run but talk soon!'
-      }
-    }
-
-    // Analyze recent messages for natural conclusion points
-    const recentMessages = conversationHistory.slice(-3)
-    const lastMessage = recentMessages[recentMessages.length - 1]
-
-    // Check for natural wind-down indicators
-    const windDownIndicators = [
-      'gotta go',
-      'talk later',
-      'bye',
-      'see you',
-      'ttyl',
-      'ok cool',
-      'sounds good',
-      'alright',
-      'perfect'
-    ]
-
-    if (lastMessage && windDownIndicators.some(indicator =>
-      lastMessage.text.toLowerCase().includes(indicator)
-    )) {
-      return {
-        shouldWindDown: true,
-        reason: 'Friend indicated natural conclusion',
-        suggestedExitMessage: 'cool talk soon!'
-      }
-    }
-
-    // If approaching limit, suggest wind down
-    if (messagesSent >= maxMessages - 1) {
-      return {
-        shouldWindDown: true,
-        reason: `Approaching message limit (${messagesSent}/${maxMessages})`,
-        suggestedExitMessage: 'anyway gotta go, catch you later'
+        closureScore: 1,
+        openQuestion: signals.openQuestion,
+        momentum: signals.momentum
       }
     }
 
     return {
-      shouldWindDown: false,
-      reason: 'Conversation can continue',
-      suggestedExitMessage: ''
+      shouldWindDown: !signals.openQuestion && signals.closureScore >= WIND_DOWN_THRESHOLD,
+      reason: signals.reason,
+      closureScore: signals.closureScore,
+      openQuestion: signals.openQuestion,
+      momentum: signals.momentum
     }
   }
 })
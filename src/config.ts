@@ -0,0 +1,101 @@
+/**
+ * Config - Builds the agent configuration from environment variables
+ */
+
+import {
+  parseKeywordList,
+  DEFAULT_APPROVAL_KEYWORDS,
+  DEFAULT_DENIAL_KEYWORDS
+} from './utils/approval-parser.js'
+import { loadContactPolicyFile } from './utils/contact-policy.js'
+import { parseTimeWindows } from './utils/schedule-policy.js'
+import { resolveTimeZone } from './utils/zoned-time.js'
+import { buildSafetyRules } from './utils/safety-policy.js'
+import { DEFAULT_MODELS, isProvider, parseModelSpec } from './agent/model-registry.js'
+import type { AgentConfig, LlmConfig, LlmProvider } from './types/index.js'
+
+/**
+ * Load configuration from environment variables
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AgentConfig {
+  return {
+    inactivityThresholdMs: parseInt(env.INACTIVITY_THRESHOLD_MS || '120000'),
+    maxMessagesToSend: parseInt(env.MAX_AGENT_MESSAGES || '3'),
+    styleAnalysisCount: parseInt(env.STYLE_ANALYSIS_MESSAGE_COUNT || '50'),
+    styleRetryBudget: parseInt(env.STYLE_RETRY_BUDGET || '2'),
+    schemaRetryBudget: parseInt(env.SCHEMA_RETRY_BUDGET || '2'),
+    minReplyConfidence: parseFloat(env.MIN_REPLY_CONFIDENCE || '0.5'),
+    windDownLlm: env.WIND_DOWN_LLM !== 'false',
+    handoffSummary: env.HANDOFF_SUMMARY !== 'false',
+    safetyRules: buildSafetyRules(
+      (env.SAFETY_RULES_DISABLED || '').split(','),
+      (env.SAFETY_BLOCK_PATTERNS || '').split(',')
+    ),
+    approvalMode: env.APPROVAL_MODE === 'review' ? 'review' : 'auto',
+    approvalTimeoutMs: parseInt(env.APPROVAL_TIMEOUT_MS || '900000'),
+    approvalKeywords: parseKeywordList(env.APPROVAL_KEYWORDS, DEFAULT_APPROVAL_KEYWORDS),
+    denialKeywords: parseKeywordList(env.DENIAL_KEYWORDS, DEFAULT_DENIAL_KEYWORDS),
+    intentLlmFallback: env.INTENT_LLM_FALLBACK === 'true',
+    timerCheckIntervalMs: parseInt(env.TIMER_CHECK_INTERVAL_MS || '30000'),
+    maxInactivityMs: parseInt(env.MAX_INACTIVITY_MS || '3600000'),
+    userIdentifier: env.USER_IDENTIFIER || '',
+    userNames: (env.USER_NAMES || '').split(',').map(name => name.trim()).filter(Boolean),
+    contactPolicies: env.CONTACT_POLICY_PATH ? loadContactPolicyFile(env.CONTACT_POLICY_PATH) : [],
+    llm: loadLlmConfig(env),
+    schedule: {
+      timeZone: resolveTimeZone(env.TIMEZONE),
+      quietHours: parseTimeWindows(env.QUIET_HOURS ?? '01:00-08:00'),
+      focusBlocks: parseTimeWindows(env.FOCUS_BLOCKS || ''),
+      calendarPath: env.CALENDAR_ICS_PATH || '',
+      busyAutoReply: env.BUSY_AUTO_REPLY || ''
+    },
+    replyTiming: {
+      mode: env.REPLY_TIMING === 'fixed' ? 'fixed' : 'learned',
+      minDelayMs: parseInt(env.REPLY_DELAY_MIN_MS || '5000'),
+      maxDelayMs: parseInt(env.REPLY_DELAY_MAX_MS || '120000'),
+      typingCharsPerSecond: parseFloat(env.TYPING_CHARS_PER_SECOND || '5'),
+      burstSettleMs: parseInt(env.BURST_SETTLE_MS || '8000')
+    },
+    attachments: {
+      captions: env.ATTACHMENT_CAPTIONS === 'true',
+      linkPreviewCacheDir: env.LINK_PREVIEW_CACHE_DIR || '',
+      transcribeCommand: env.TRANSCRIBE_COMMAND || ''
+    },
+    conversationDbPath: env.CONVERSATION_DB_PATH ?? 'relationship-agent.db',
+    auditLogPath: env.AUDIT_LOG_PATH ?? 'agent-audit.jsonl',
+    dashboard: {
+      port: parseInt(env.DASHBOARD_PORT || '0'),
+      token: env.DASHBOARD_TOKEN || ''
+    },
+    debug: env.DEBUG === 'true'
+  }
+}
+
+/**
+ * LLM_PROVIDER/LLM_MODEL set the default model; REPLY_MODEL, WIND_DOWN_MODEL,
+ * CLOSURE_MODEL, INTENT_MODEL, CAPTION_MODEL and SUMMARY_MODEL override it per task ("openai:gpt-4o-mini" or a bare model name)
+ */
+function loadLlmConfig(env: NodeJS.ProcessEnv): LlmConfig {
+  const configured = env.LLM_PROVIDER || 'cerebras'
+  if (!isProvider(configured)) {
+    console.error(`[Config] Unknown LLM_PROVIDER "${configured}", using cerebras`)
+  }
+  const provider: LlmProvider = isProvider(configured) ? configured : 'cerebras'
+
+  const fallback = { provider, model: env.LLM_MODEL || DEFAULT_MODELS[provider] }
+
+  return {
+    models: {
+      reply: parseModelSpec(env.REPLY_MODEL, fallback),
+      windDown: parseModelSpec(env.WIND_DOWN_MODEL, fallback),
+      closure: parseModelSpec(env.CLOSURE_MODEL, fallback),
+      intent: parseModelSpec(env.INTENT_MODEL, fallback),
+      caption: parseModelSpec(env.CAPTION_MODEL, fallback),
+      summary: parseModelSpec(env.SUMMARY_MODEL, fallback)
+    },
+    cerebrasApiKey: env.CEREBRAS_API_KEY || '',
+    openaiApiKey: env.OPENAI_API_KEY || '',
+    compatibleBaseUrl: env.LLM_BASE_URL || '',
+    compatibleApiKey: env.LLM_BASE_URL_API_KEY || ''
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Dashboard Page - The single static page DashboardServer serves at /
+ *
+ * Plain HTML and script over the JSON API, no build step. It reads the
+ * token from its own ?token= and reloads the chat list on every event.
+ */
+
+export const DASHBOARD_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Relationship Agent</title>
+<style>
+  body { font: 14px system-ui, sans-serif; margin: 2rem; color: #222; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #ddd; }
+  tr.active { background: #eef7ee; }
+  tr.awaiting { background: #fdf6e3; }
+  button { margin-right: 0.3rem; }
+  #events { font-family: ui-monospace, monospace; font-size: 12px; white-space: pre-wrap; }
+  #status { color: #888; }
+</style>
+</head>
+<body>
+<h1>Relationship Agent <small id="status">connecting…</small></h1>
+<table>
+  <thead><tr><th>Chat</th><th>State</th><th>Sent</th><th>Window left</th><th>Last message</th><th></th></tr></thead>
+  <tbody id="conversations"></tbody>
+</table>
+<h2>Events</h2>
+<div id="events"></div>
+<script>
+  const token = new URLSearchParams(location.search).get('token') || ''
+  const headers = { Authorization: 'Bearer ' + token }
+
+  function cell(row, text) {
+    const td = row.insertCell()
+    td.textContent = text
+    return td
+  }
+
+  function describeState(c) {
+    if (c.isAgentActive) return c.hasPendingDraft ? 'active, draft waiting' : 'active'
+    if (c.awaitingApproval) return 'prompted [' + c.promptHandle + ']'
+    return c.muted ? 'muted' : 'idle'
+  }
+
+  function formatRemaining(ms) {
+    if (ms === null) return ''
+    const seconds = Math.round(ms / 1000)
+    return Math.floor(seconds / 60) + ':' + String(seconds % 60).padStart(2, '0')
+  }
+
+  async function refresh() {
+    const response = await fetch('/conversations', { headers })
+    if (!response.ok) {
+      document.getElementById('status').textContent = 'error ' + response.status
+      return
+    }
+    const { conversations } = await response.json()
+    const body = document.getElementById('conversations')
+    body.replaceChildren()
+    for (const c of conversations) {
+      const row = body.insertRow()
+      row.className = c.isAgentActive ? 'active' : c.awaitingApproval ? 'awaiting' : ''
+      cell(row, c.friendName + (c.isGroup ? ' (group)' : ''))
+      cell(row, describeState(c))
+      cell(row, c.messagesSent + ' / ' + c.maxMessages)
+      cell(row, formatRemaining(c.windowRemainingMs))
+      cell(row, new Date(c.lastIncomingAt || c.lastOutgoingAt).toLocaleString())
+      const actions = row.insertCell()
+      for (const action of ['activate', 'stop', 'reset']) {
+        const button = document.createElement('button')
+        button.textContent = action
+        button.onclick = () => act(c.chatId, action)
+        actions.append(button)
+      }
+    }
+  }
+
+  async function act(chatId, action) {
+    const response = await fetch('/conversations/' + encodeURIComponent(chatId) + '/' + action, { method: 'POST', headers })
+    if (!response.ok) {
+      alert((await response.json()).error)
+    }
+    refresh()
+  }
+
+  function logEvent(event) {
+    const line = document.createElement('div')
+    const detail = event.reason || event.message || (event.texts || []).join(' / ')
+    line.textContent = new Date(event.timestamp).toLocaleTimeString() + '  ' + event.type + '  ' + event.chatId + '  ' + detail
+    document.getElementById('events').prepend(line)
+  }
+
+  const stream = new EventSource('/events?token=' + encodeURIComponent(token))
+  stream.onopen = () => { document.getElementById('status').textContent = 'live' }
+  stream.onerror = () => { document.getElementById('status').textContent = 'reconnecting…' }
+  for (const type of ['activation', 'deactivation', 'message_sent', 'wind_down', 'error']) {
+    stream.addEventListener(type, message => {
+      logEvent(JSON.parse(message.data))
+      refresh()
+    })
+  }
+
+  refresh()
+  setInterval(refresh, 5000)
+</script>
+</body>
+</html>
+`
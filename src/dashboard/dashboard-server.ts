@@ -0,0 +1,291 @@
+/**
+ * Dashboard Server - Local HTTP view of what the tracker holds
+ *
+ * For running the agent headless. Listens on 127.0.0.1 only and wants the
+ * token on every request (Authorization: Bearer, or ?token= for the page
+ * and EventSource, which can't set headers).
+ *
+ *   GET  /                               the page in dashboard-page.ts
+ *   GET  /conversations                  tracked chats and their session state
+ *   POST /conversations/:id/activate     take over now, like "take over Sam"
+ *   POST /conversations/:id/stop         end the session or prompt, like "stop Sam"
+ *   POST /conversations/:id/reset        also clear any pause or mute
+ *   GET  /events                         live AgentEvents as server-sent events
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { randomBytes, timingSafeEqual } from 'node:crypto'
+import type { ConversationState } from '../types/index.js'
+import type { AgentContext } from '../watchers/message-handler.js'
+import type { TimerHandle } from '../utils/clock.js'
+import { queueActivation } from '../utils/agent-core.js'
+import { resolveContactPolicy } from '../utils/contact-policy.js'
+import { serializeEvent } from '../storage/audit-log.js'
+import { DASHBOARD_PAGE } from './dashboard-page.js'
+
+const HOST = '127.0.0.1'
+
+/** Idle event streams get a comment this often so nothing in between drops them */
+const HEARTBEAT_MS = 15000
+
+/**
+ * One tracked chat as GET /conversations reports it
+ */
+export interface ConversationSummary {
+  chatId: string
+  friendName: string
+  isGroup: boolean
+  isAgentActive: boolean
+  awaitingApproval: boolean
+  promptHandle: number | null
+  messagesSent: number
+  maxMessages: number
+  /** Time left in the control window, while the agent is active */
+  windowRemainingMs: number | null
+  muted: boolean
+  hasPendingDraft: boolean
+  lastIncomingAt: string | null
+  lastOutgoingAt: string
+}
+
+type ConversationAction = 'activate' | 'stop' | 'reset'
+
+export class DashboardServer {
+  /** What clients must send, generated when DASHBOARD_TOKEN is empty */
+  readonly token: string
+
+  private context: AgentContext
+  private port: number
+  private server: Server | null = null
+  private streams: Set<ServerResponse> = new Set()
+  private heartbeat: TimerHandle | null = null
+
+  constructor(context: AgentContext) {
+    this.context = context
+    this.port = context.config.dashboard.port
+    this.token = context.config.dashboard.token || randomBytes(16).toString('hex')
+  }
+
+  /**
+   * The page's address, token included
+   */
+  get url(): string {
+    return `http://${HOST}:${this.port}/?token=${this.token}`
+  }
+
+  /**
+   * Start listening
+   * @returns The port bound (useful when configured with 0)
+   */
+  start(): Promise<number> {
+    if (this.server) {
+      return Promise.resolve(this.port)
+    }
+
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        void this.handleRequest(req, res)
+      })
+
+      server.once('error', reject)
+      server.listen(this.port, HOST, () => {
+        server.off('error', reject)
+        server.on('error', error => console.error('[Dashboard] Server error:', error))
+        this.server = server
+        this.port = (server.address() as AddressInfo).port
+        this.heartbeat = this.context.scheduler.setInterval(() => {
+          for (const stream of this.streams) {
+            stream.write(': ping\n\n')
+          }
+        }, HEARTBEAT_MS)
+        resolve(this.port)
+      })
+    })
+  }
+
+  /**
+   * Close open event streams and stop listening
+   */
+  async stop(): Promise<void> {
+    this.heartbeat?.cancel()
+    this.heartbeat = null
+    for (const stream of this.streams) {
+      stream.end()
+    }
+    this.streams.clear()
+
+    const server = this.server
+    this.server = null
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()))
+    }
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    try {
+      const url = new URL(req.url ?? '/', `http://${HOST}`)
+
+      if (!this.isAuthorized(req, url)) {
+        sendJson(res, 401, { error: 'Missing or wrong token' })
+        return
+      }
+
+      const action = url.pathname.match(/^\/conversations\/([^/]+)\/(activate|stop|reset)$/)
+      if (action) {
+        if (req.method !== 'POST') {
+          sendJson(res, 405, { error: 'Use POST' })
+          return
+        }
+        this.handleAction(res, decodeURIComponent(action[1]), action[2] as ConversationAction)
+        return
+      }
+
+      if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Use GET' })
+        return
+      }
+
+      switch (url.pathname) {
+        case '/':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' })
+          res.end(DASHBOARD_PAGE)
+          return
+
+        case '/conversations':
+          sendJson(res, 200, { conversations: this.listConversations() })
+          return
+
+        case '/events':
+          this.openEventStream(req, res)
+          return
+
+        default:
+          sendJson(res, 404, { error: `No route for ${url.pathname}` })
+      }
+    } catch (error) {
+      console.error('[Dashboard] Request failed:', error)
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'Internal error' })
+      } else {
+        res.end()
+      }
+    }
+  }
+
+  private isAuthorized(req: IncomingMessage, url: URL): boolean {
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1]
+    const given = Buffer.from(bearer ?? url.searchParams.get('token') ?? '')
+    const expected = Buffer.from(this.token)
+    return given.length === expected.length && timingSafeEqual(given, expected)
+  }
+
+  /**
+   * Every tracked chat except the user's own, most recently active first
+   */
+  private listConversations(): ConversationSummary[] {
+    const { tracker, config } = this.context
+    return tracker.getAllConversations()
+      .filter(conv => conv.chatId !== config.userIdentifier)
+      .map(conv => this.summarize(conv))
+      .sort((a, b) => lastActivity(b) - lastActivity(a))
+  }
+
+  private summarize(conv: ConversationState): ConversationSummary {
+    const { tracker, config, scheduler } = this.context
+    const policy = resolveContactPolicy(conv, config)
+
+    let windowRemainingMs: number | null = null
+    if (conv.isAgentActive && conv.agentActivationTime) {
+      const elapsed = scheduler.now().getTime() - conv.agentActivationTime.getTime()
+      windowRemainingMs = Math.max(0, policy.controlWindowMs - elapsed)
+    }
+
+    return {
+      chatId: conv.chatId,
+      friendName: conv.friendName,
+      isGroup: conv.isGroup,
+      isAgentActive: conv.isAgentActive,
+      awaitingApproval: conv.awaitingApproval,
+      promptHandle: conv.promptHandle,
+      messagesSent: conv.messagesSent,
+      maxMessages: policy.maxMessagesToSend,
+      windowRemainingMs,
+      muted: tracker.isMuted(conv.chatId),
+      hasPendingDraft: conv.pendingDraft !== null,
+      lastIncomingAt: conv.lastIncomingTimestamp?.toISOString() ?? null,
+      lastOutgoingAt: conv.lastOutgoingTimestamp.toISOString()
+    }
+  }
+
+  private handleAction(res: ServerResponse, chatId: string, action: ConversationAction): void {
+    const { sdk, tracker, replyQueue, config, scheduler } = this.context
+    const conv = tracker.getConversation(chatId)
+    if (!conv) {
+      sendJson(res, 404, { error: `Not tracking ${chatId}` })
+      return
+    }
+
+    switch (action) {
+      case 'activate':
+        if (conv.isAgentActive) {
+          sendJson(res, 409, { error: `Already texting ${conv.friendName}` })
+          return
+        }
+        // Starts on the chat's reply queue; poll /conversations or watch /events for the activation
+        queueActivation(replyQueue, sdk, tracker, conv, config, true, scheduler)
+        break
+
+      case 'stop':
+        if (!conv.isAgentActive && !conv.awaitingApproval) {
+          sendJson(res, 409, { error: `Not texting ${conv.friendName} right now` })
+          return
+        }
+        replyQueue.cancel(chatId)
+        tracker.resetConversation(chatId, 'you stopped it from the dashboard')
+        break
+
+      case 'reset':
+        replyQueue.cancel(chatId)
+        tracker.resetConversation(chatId, 'you reset it from the dashboard')
+        tracker.unmuteConversation(chatId)
+        break
+    }
+
+    if (config.debug) {
+      console.log(`[Dashboard] ${action} ${chatId}`)
+    }
+    sendJson(res, action === 'activate' ? 202 : 200, { conversation: this.summarize(conv) })
+  }
+
+  private openEventStream(req: IncomingMessage, res: ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-store',
+      Connection: 'keep-alive'
+    })
+    res.write(': connected\n\n')
+    this.streams.add(res)
+
+    const unsubscribe = this.context.tracker.events.onAny(event => {
+      res.write(`event: ${event.type}\ndata: ${serializeEvent(event)}\n\n`)
+    })
+
+    req.on('close', () => {
+      unsubscribe()
+      this.streams.delete(res)
+    })
+  }
+}
+
+function lastActivity(summary: ConversationSummary): number {
+  return Math.max(
+    Date.parse(summary.lastOutgoingAt),
+    summary.lastIncomingAt ? Date.parse(summary.lastIncomingAt) : 0
+  )
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' })
+  res.end(JSON.stringify(body))
+}
@@ -7,32 +7,25 @@
 
 import { IMessageSDK } from '@photon-ai/imessage-kit'
 import { ConversationTracker } from './watchers/conversation-tracker.js'
+import { type AgentContext, startAgent } from './watchers/message-handler.js'
 import { TimerManager } from './utils/timer-manager.js'
-import { parseUserResponse } from './utils/approval-parser.js'
-import { sendTakeoverPrompt, activateAgent, AI_CONTROL_WINDOW_MS } from './utils/agent-core.js'
-import type { AgentConfig } from './types/index.js'
+import { ReplyQueue } from './utils/reply-queue.js'
+import { systemScheduler } from './utils/clock.js'
+import { type ConversationStore, MemoryConversationStore } from './storage/conversation-store.js'
+import { SqliteConversationStore } from './storage/sqlite-conversation-store.js'
+import { type AuditLog, MemoryAuditLog, JsonlAuditLog } from './storage/audit-log.js'
+import { SqliteAuditLog } from './storage/sqlite-audit-log.js'
+import { AgentEventBus } from './utils/event-bus.js'
+import { DashboardServer } from './dashboard/dashboard-server.js'
+import { backfillGlobalHistory } from './utils/style-backfill.js'
+import type { MessagingTransport } from './transport/messaging-transport.js'
+import { loadConfig } from './config.js'
+import { configureModels, describeModelSpec, findMissingModelSettings } from './agent/model-registry.js'
 import * as dotenv from 'dotenv'
 
 // Load environment variables
 dotenv.config()
 
-/**
- * Load configuration from environment variables
- */
-function loadConfig(): AgentConfig {
-  return {
-    inactivityThresholdMs: parseInt(process.env.INACTIVITY_THRESHOLD_MS || '120000'),
-    maxMessagesToSend: parseInt(process.env.MAX_AGENT_MESSAGES || '3'),
-    styleAnalysisCount: parseInt(process.env.STYLE_ANALYSIS_MESSAGE_COUNT || '50'),
-    approvalKeywords: ['take over', 'yes', 'sure', 'ok'],
-    timerCheckIntervalMs: parseInt(process.env.TIMER_CHECK_INTERVAL_MS || '30000'),
-    maxInactivityMs: parseInt(process.env.MAX_INACTIVITY_MS || '3600000'),
-    userIdentifier: process.env.USER_IDENTIFIER || '',
-    cerebrasApiKey: process.env.CEREBRAS_API_KEY || '',
-    debug: process.env.DEBUG === 'true'
-  }
-}
-
 async function main() {
   console.log('🤖 Relationship Agent Starting...\n')
 
@@ -40,23 +33,43 @@ async function main() {
   const config = loadConfig()
 
   // Validate configuration
-  if (!config.cerebrasApiKey || config.cerebrasApiKey === 'your-key-here') {
-    console.error('❌ Error: CEREBRAS_API_KEY not set in .env file')
-    console.error('Please add your Cerebras API key to the .env file')
+  const missingModelSettings = findMissingModelSettings(config.llm)
+  if (missingModelSettings.length > 0) {
+    for (const problem of missingModelSettings) {
+      console.error(`❌ Error: ${problem}`)
+    }
+    console.error('Please check the LLM settings in your .env file')
     process.exit(1)
   }
+  configureModels(config.llm)
 
   if (!config.userIdentifier || config.userIdentifier === '+1234567890') {
     console.warn('⚠️  Warning: USER_IDENTIFIER not properly set in .env file')
     console.warn('You may not receive takeover prompts. Please set your phone number or iMessage ID.')
   }
 
+  // All timers and timestamps go through one scheduler (swapped for a virtual one in tests)
+  const scheduler = systemScheduler
+
   // Initialize components
-  const tracker = new ConversationTracker(config.debug)
-  const timerManager = new TimerManager()
+  const store: ConversationStore = config.conversationDbPath
+    ? new SqliteConversationStore(config.conversationDbPath, config.debug, scheduler)
+    : new MemoryConversationStore()
+  process.once('exit', () => store.close())
+
+  // Everything the agent does is recorded as it happens
+  const auditLog = openAuditLog(config.auditLogPath, config.debug)
+  process.once('exit', () => auditLog.close())
+  const events = new AgentEventBus()
+  events.onAny(event => auditLog.append(event))
+
+  const tracker = new ConversationTracker(config.debug, store, scheduler, events, config.userIdentifier)
+  const restoredCount = tracker.load()
+  const timerManager = new TimerManager(scheduler)
+  const replyQueue = new ReplyQueue(scheduler)
 
   // Initialize iMessage SDK
-  const sdk = new IMessageSDK({
+  const sdk: MessagingTransport = new IMessageSDK({
     debug: false, // Keep SDK quiet to reduce noise
     watcher: {
       pollInterval: 2000,
@@ -66,161 +79,36 @@ async function main() {
   })
 
   console.log('Configuration:')
+  console.log(`  - Models: reply ${describeModelSpec(config.llm.models.reply)}, wind-down ${describeModelSpec(config.llm.models.windDown)}, closure ${describeModelSpec(config.llm.models.closure)}, intent ${describeModelSpec(config.llm.models.intent)}, summary ${config.handoffSummary ? describeModelSpec(config.llm.models.summary) : 'off'}`)
+  console.log(`  - Attachments: captions ${config.attachments.captions ? `on (${describeModelSpec(config.llm.models.caption)})` : 'off'}, link previews ${config.attachments.linkPreviewCacheDir || 'off'}, transcription ${config.attachments.transcribeCommand ? 'on' : 'off'}`)
   console.log(`  - Inactivity threshold: ${config.inactivityThresholdMs / 1000}s`)
   console.log(`  - Max messages per session: ${config.maxMessagesToSend}`)
+  console.log(`  - Approval mode: ${config.approvalMode}`)
   console.log(`  - Check interval: ${config.timerCheckIntervalMs / 1000}s`)
+  console.log(`  - State storage: ${config.conversationDbPath || 'in-memory'} (${restoredCount} restored)`)
+  console.log(`  - Audit log: ${config.auditLogPath || 'in-memory'}`)
+  console.log(`  - Dashboard: ${config.dashboard.port ? `127.0.0.1:${config.dashboard.port}` : 'off'}`)
+  console.log(`  - Contact rules: ${config.contactPolicies.length} (${config.contactPolicies.filter(r => r.groupReplies).length} opting in group chats)`)
+  console.log(`  - Time zone: ${config.schedule.timeZone} (${config.schedule.quietHours.length} quiet window(s), ${config.schedule.focusBlocks.length} focus block(s)${config.schedule.calendarPath ? `, calendar ${config.schedule.calendarPath}` : ''})`)
+  console.log(`  - Safety rules: ${config.safetyRules.map(r => r.id).join(', ') || 'none'}`)
   console.log(`  - Debug mode: ${config.debug}\n`)
 
-  try {
-    // Start watching for messages
-    await sdk.startWatching({
-      onMessage: async (message) => {
-        try {
-          if (message.isFromMe) {
-            // Check if agent is active for this conversation
-            const conv = tracker.getConversation(message.chatId)
-
-            // If agent is active, this is an agent-sent message
-            if (conv?.isAgentActive) {
-              // Update timestamp but mark as agent message (fixes inactivity loop)
-              tracker.updateOutgoingMessage(message.chatId, message, true)
-
-              if (config.debug) {
-                console.log(`[Main] Agent-sent message to ${message.chatId}`)
-              }
-              return
-            }
-
-            // User sent a message
-            tracker.updateOutgoingMessage(message.chatId, message, false)
-
-            // Check if this is a response to our takeover prompt
-            // User responds to themselves (USER_IDENTIFIER), so check ALL conversations
-            const allConversations = tracker.getAllConversations()
-            const awaitingConv = allConversations.find(c => c.awaitingApproval)
-
-            if (awaitingConv && message.chatId === config.userIdentifier) {
-              // Ignore the prompt message itself (it contains "take over" which would trigger approval)
-              const messageText = message.text || ''
-              // More robust check: ignore if it contains the full prompt pattern OR is too similar
-              if (messageText.includes('are you trying to ghost') ||
-                  messageText.includes('do you want me to take over?')) {
-                if (config.debug) {
-                  console.log('[Main] Ignoring takeover prompt echo')
-                }
-                return
-              }
-
-              const response = parseUserResponse(messageText)
-
-              if (response === 'approve') {
-                // Check if agent is already active (prevent duplicate activation)
-                if (awaitingConv.isAgentActive) {
-                  if (config.debug) {
-                    console.log(`[Main] Agent already active for ${awaitingConv.friendName}, ignoring approval`)
-                  }
-                  return
-                }
-
-                if (config.debug) {
-                  console.log(`\n[Main] ✅ User approved takeover for ${awaitingConv.friendName}`)
-                }
+  const context: AgentContext = { sdk, tracker, timerManager, replyQueue, auditLog, config, scheduler }
+  const dashboard = config.dashboard.port ? new DashboardServer(context) : null
 
-                // Activate agent (initial activation)
-                await activateAgent(sdk, tracker, awaitingConv, config, true)
-
-              } else if (response === 'deny') {
-                if (config.debug) {
-                  console.log(`\n[Main] ❌ User denied takeover for ${awaitingConv.friendName}`)
-                }
-
-                // Reset conversation
-                tracker.resetConversation(awaitingConv.chatId)
-              }
-            }
-
-          } else {
-            // Friend sent a message
-            tracker.updateIncomingMessage(message.chatId, message)
-
-            if (config.debug) {
-              console.log(`\n[Main] 📨 Message from ${message.senderName || message.sender}`)
-            }
-
-            // Check if agent is currently active in this conversation
-            const conv = tracker.getConversation(message.chatId)
-            if (conv && conv.isAgentActive) {
-              // Check if still within the 5-minute AI control window
-              if (tracker.isWithinAgentWindow(message.chatId, AI_CONTROL_WINDOW_MS)) {
-                if (config.debug) {
-                  console.log('[Main] ⏳ Agent is active, waiting 5 seconds before responding...')
-                }
-
-                // Wait 5 seconds before sending next message
-                setTimeout(async () => {
-                  // Double-check that agent is still active and within window
-                  const currentConv = tracker.getConversation(message.chatId)
-                  if (currentConv && currentConv.isAgentActive && 
-                      tracker.isWithinAgentWindow(message.chatId, AI_CONTROL_WINDOW_MS)) {
-                    try {
-                      if (config.debug) {
-                        console.log(`[Main] 🤖 Sending next agent message to ${currentConv.friendName}`)
-                      }
-                      // Continue conversation (not initial activation)
-                      await activateAgent(sdk, tracker, currentConv, config, false)
-                    } catch (error) {
-                      console.error('[Main] Error sending agent message:', error)
-                    }
-                  } else if (currentConv && currentConv.isAgentActive) {
-                    // Window expired, deactivate agent
-                    if (config.debug) {
-                      console.log('[Main] ⏰ AI control window expired, deactivating agent')
-                    }
-                    tracker.markAgentInactive(message.chatId)
-                  }
-                }, 5000) // 5 second delay
-              } else {
-                // Window expired, deactivate agent
-                if (config.debug) {
-                  console.log('[Main] ⏰ AI control window expired, deactivating agent')
-                }
-                tracker.markAgentInactive(message.chatId)
-              }
-            }
-          }
-        } catch (error) {
-          console.error('[Main] Error handling message:', error)
-        }
-      },
+  try {
+    // Seed global style samples from chat.db so early replies aren't cold
+    await backfillGlobalHistory(sdk, tracker, config)
 
-      onError: (error) => {
-        console.error('[Main] Watcher error:', error)
-      }
-    })
+    // Start watching for messages and checking for inactivity
+    await startAgent(context)
 
     console.log('✅ Message watcher started')
-
-    // Start inactivity timer
-    timerManager.startInactivityCheck(
-      config.timerCheckIntervalMs,
-      config.inactivityThresholdMs,
-      config.maxInactivityMs,
-      tracker,
-      async (conv) => {
-        try {
-          if (config.debug) {
-            console.log(`\n[Main] ⏰ Detected inactivity in conversation with ${conv.friendName}`)
-          }
-
-          await sendTakeoverPrompt(sdk, tracker, conv, config)
-        } catch (error) {
-          console.error('[Main] Error sending takeover prompt:', error)
-        }
-      },
-      config.userIdentifier
-    )
-
     console.log('✅ Inactivity timer started')
+    if (dashboard) {
+      await dashboard.start()
+      console.log(`✅ Dashboard at ${dashboard.url}`)
+    }
     console.log('\n👀 Watching for inactive conversations...')
     console.log('Press Ctrl+C to stop\n')
 
@@ -233,11 +121,23 @@ async function main() {
   } finally {
     // Cleanup
     timerManager.stop()
+    replyQueue.stop()
+    await dashboard?.stop()
     sdk.stopWatching()
     await sdk.close()
   }
 }
 
+/**
+ * Audit log for AUDIT_LOG_PATH: SQLite for .db/.sqlite files, JSON lines otherwise
+ */
+function openAuditLog(path: string, debug: boolean): AuditLog {
+  if (!path) {
+    return new MemoryAuditLog()
+  }
+  return /\.(db|sqlite3?)$/i.test(path) ? new SqliteAuditLog(path, debug) : new JsonlAuditLog(path)
+}
+
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n\n⏹️  Shutting down Relationship Agent...')
@@ -0,0 +1,53 @@
+/**
+ * Simulator CLI - Runs scenario files and reports the results
+ *
+ * Usage: npm run simulate -- scenarios/*.yaml [--debug]
+ * Exits non-zero if any scenario fails, so it can gate CI.
+ */
+
+import { readFileSync } from 'node:fs'
+import { parse } from 'yaml'
+import { parseScenario } from './scenario.js'
+import { runScenario } from './scenario-runner.js'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const debug = args.includes('--debug')
+  const files = args.filter(arg => !arg.startsWith('--'))
+
+  if (files.length === 0) {
+    console.error('Usage: npm run simulate -- <scenario.yaml>... [--debug]')
+    process.exit(2)
+  }
+
+  let failed = 0
+
+  for (const file of files) {
+    try {
+      const scenario = parseScenario(parse(readFileSync(file, 'utf8')), file)
+      const result = await runScenario(scenario, debug)
+
+      if (result.passed) {
+        console.log(`✅ ${result.name} (${result.sent.length} sent)`)
+      } else {
+        failed++
+        console.log(`❌ ${result.name}`)
+        for (const failure of result.failures) {
+          console.log(`   ${failure}`)
+        }
+      }
+    } catch (error) {
+      failed++
+      console.log(`❌ ${file}`)
+      console.log(`   ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} scenario(s) passed`)
+  process.exit(failed > 0 ? 1 : 0)
+}
+
+main().catch(error => {
+  console.error('❌ Simulator error:', error)
+  process.exit(1)
+})
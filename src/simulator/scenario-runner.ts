@@ -0,0 +1,346 @@
+/**
+ * Scenario Runner - Replays a scenario against the real message handlers
+ *
+ * Wires startAgent() to a FakeTransport and a VirtualScheduler, plays the
+ * steps in virtual time and checks each step's expectations against what
+ * the agent sent and how conversation state changed.
+ */
+
+import type { AgentEvent, ConversationState } from '../types/index.js'
+import type { Scenario, ScenarioExpectation } from './scenario.js'
+import { FakeTransport, type SentMessage } from '../transport/fake-transport.js'
+import { MemoryConversationStore } from '../storage/conversation-store.js'
+import { MemoryAuditLog } from '../storage/audit-log.js'
+import { AgentEventBus } from '../utils/event-bus.js'
+import { ConversationTracker } from '../watchers/conversation-tracker.js'
+import { startAgent } from '../watchers/message-handler.js'
+import { TimerManager } from '../utils/timer-manager.js'
+import { ReplyQueue } from '../utils/reply-queue.js'
+import { VirtualScheduler } from '../utils/clock.js'
+import { backfillGlobalHistory } from '../utils/style-backfill.js'
+import { loadConfig } from '../config.js'
+import { configureModels } from '../agent/model-registry.js'
+
+/** The simulated user's own handle (their self-chat id) */
+const SIMULATED_USER = '+15550000000'
+
+/** Scenarios without a start time begin on a weekday afternoon, outside the default quiet hours */
+const DEFAULT_START = '2026-01-14T15:00:00Z'
+
+/** Matches the real watcher's poll interval */
+const DELIVERY_DELAY_MS = 2000
+
+/** Conversation fields recorded as transitions */
+const TRACKED_FIELDS = [
+  'isAgentActive',
+  'awaitingApproval',
+  'promptHandle',
+  'messagesSent',
+  'paused',
+  'mutedUntil',
+  'pendingDraft'
+] as const
+
+/**
+ * A change to one tracked conversation field
+ */
+export interface StateTransition {
+  at: Date
+  chatId: string
+  field: string
+  from: unknown
+  to: unknown
+}
+
+export interface ScenarioResult {
+  name: string
+  passed: boolean
+  failures: string[]
+  sent: SentMessage[]
+  transitions: StateTransition[]
+  events: AgentEvent[]
+}
+
+/**
+ * In-memory store that records every change to the tracked fields
+ */
+class RecordingConversationStore extends MemoryConversationStore {
+  readonly transitions: StateTransition[] = []
+  private snapshots: Map<string, Record<string, unknown>> = new Map()
+  private scheduler: VirtualScheduler
+
+  constructor(scheduler: VirtualScheduler) {
+    super()
+    this.scheduler = scheduler
+  }
+
+  saveConversation(conv: ConversationState): void {
+    super.saveConversation(conv)
+
+    const previous = this.snapshots.get(conv.chatId)
+    const current = Object.fromEntries(TRACKED_FIELDS.map(field => [field, normalize(conv[field])]))
+
+    for (const field of TRACKED_FIELDS) {
+      const from = previous?.[field] ?? null
+      if (previous && from !== current[field]) {
+        this.transitions.push({ at: this.scheduler.now(), chatId: conv.chatId, field, from, to: current[field] })
+      }
+    }
+
+    this.snapshots.set(conv.chatId, current)
+  }
+}
+
+/**
+ * Run one scenario from a fresh agent
+ * @param debug Show the agent's own debug logging
+ */
+export async function runScenario(scenario: Scenario, debug: boolean = false): Promise<ScenarioResult> {
+  const startTime = new Date(scenario.start ?? DEFAULT_START)
+  const scheduler = new VirtualScheduler(startTime)
+
+  const config = loadConfig({
+    USER_IDENTIFIER: SIMULATED_USER,
+    CONVERSATION_DB_PATH: '',
+    AUDIT_LOG_PATH: '',
+    TIMEZONE: 'UTC',
+    DEBUG: String(debug),
+    LLM_PROVIDER: 'mock',
+    // Sampled delays would make expectations flaky; scenarios can opt into REPLY_TIMING=learned
+    REPLY_TIMING: 'fixed',
+    ...scenario.env
+  })
+  configureModels(config.llm)
+
+  const sdk = new FakeTransport(scheduler, config.userIdentifier, DELIVERY_DELAY_MS)
+  for (const contact of scenario.contacts) {
+    sdk.addChat(contact.chatId, contact.name, contact.isGroup)
+    for (const member of contact.members) {
+      sdk.addContact(member.handle, member.name)
+    }
+  }
+
+  const store = new RecordingConversationStore(scheduler)
+  const auditLog = new MemoryAuditLog()
+  const events = new AgentEventBus()
+  const emitted: AgentEvent[] = []
+  events.onAny(event => {
+    auditLog.append(event)
+    emitted.push(event)
+  })
+  const tracker = new ConversationTracker(config.debug, store, scheduler, events, config.userIdentifier)
+  const timerManager = new TimerManager(scheduler)
+  const replyQueue = new ReplyQueue(scheduler)
+
+  const resolveChat = (ref: string): string => {
+    if (ref.toLowerCase() === 'self') {
+      return config.userIdentifier
+    }
+    const contact = scenario.contacts.find(c => c.name.toLowerCase() === ref.toLowerCase() || c.chatId === ref)
+    if (!contact) {
+      throw new Error(`Unknown contact "${ref}"`)
+    }
+    return contact.chatId
+  }
+
+  const resolveMember = (chatId: string, ref: string): string => {
+    const contact = scenario.contacts.find(c => c.chatId === chatId)
+    const member = contact?.members.find(m => m.name.toLowerCase() === ref.toLowerCase() || m.handle === ref)
+    if (!member) {
+      throw new Error(`Unknown member "${ref}" of ${contact?.name ?? chatId}`)
+    }
+    return member.handle
+  }
+
+  const failures: string[] = []
+  let sentCursor = 0
+  let transitionCursor = 0
+  let eventCursor = 0
+
+  await backfillGlobalHistory(sdk, tracker, config)
+  await startAgent({ sdk, tracker, timerManager, replyQueue, auditLog, config, scheduler })
+
+  try {
+    for (const [index, step] of scenario.steps.entries()) {
+      const target = step.at !== undefined
+        ? startTime.getTime() + step.at
+        : scheduler.now().getTime() + (step.after ?? 0)
+      await scheduler.advanceTo(new Date(target))
+
+      const label = `step ${index + 1} @ ${formatOffset(scheduler.now().getTime() - startTime.getTime())}`
+
+      // Expectations describe the moment the step runs, before its own action
+      if (step.expect) {
+        const sentSince = sdk.sent.slice(sentCursor)
+        const transitionsSince = store.transitions.slice(transitionCursor)
+        const eventsSince = emitted.slice(eventCursor)
+
+        for (const problem of checkExpectation(step.expect, sentSince, transitionsSince, eventsSince, tracker, resolveChat, startTime)) {
+          failures.push(`${label}: ${problem}`)
+        }
+
+        sentCursor = sdk.sent.length
+        transitionCursor = store.transitions.length
+        eventCursor = emitted.length
+      }
+
+      if (step.friend !== undefined) {
+        const chatId = resolveChat(step.friend)
+        sdk.receive(chatId, step.text ?? '', step.from !== undefined ? resolveMember(chatId, step.from) : undefined)
+      } else if (step.user !== undefined) {
+        sdk.userSends(resolveChat(step.user), step.text ?? '')
+      } else if (step.self !== undefined) {
+        sdk.userSends(config.userIdentifier, step.self)
+      }
+    }
+  } catch (error) {
+    failures.push(error instanceof Error ? error.message : String(error))
+  } finally {
+    timerManager.stop()
+    replyQueue.stop()
+    sdk.stopWatching()
+    await sdk.close()
+  }
+
+  return {
+    name: scenario.name,
+    passed: failures.length === 0,
+    failures,
+    sent: sdk.sent,
+    transitions: store.transitions,
+    events: emitted
+  }
+}
+
+/**
+ * Check one expect block
+ * @returns A description of each unmet expectation
+ */
+function checkExpectation(
+  expect: ScenarioExpectation,
+  sent: SentMessage[],
+  transitions: StateTransition[],
+  events: AgentEvent[],
+  tracker: ConversationTracker,
+  resolveChat: (ref: string) => string,
+  startTime: Date
+): string[] {
+  const problems: string[] = []
+
+  if (expect.nothingSent && sent.length > 0) {
+    problems.push(`expected nothing sent, got ${sent.map(describeSent).join('; ')}`)
+  }
+
+  // Expected messages must appear in order, though other messages may come between them
+  let position = 0
+  for (const expected of expect.sent ?? []) {
+    const chatId = resolveChat(expected.to)
+    const pattern = expected.matches ? new RegExp(expected.matches, 'i') : null
+
+    const found = sent.slice(position).findIndex(message => {
+      const offset = message.at.getTime() - startTime.getTime()
+      return message.to === chatId &&
+        (!expected.contains || message.text.toLowerCase().includes(expected.contains.toLowerCase())) &&
+        (!pattern || pattern.test(message.text)) &&
+        (expected.after === undefined || offset >= expected.after) &&
+        (expected.before === undefined || offset <= expected.before)
+    })
+
+    if (found < 0) {
+      const wanted = [
+        `to ${expected.to}`,
+        expected.contains && `containing "${expected.contains}"`,
+        expected.matches && `matching /${expected.matches}/`,
+        expected.after !== undefined && `after ${formatOffset(expected.after)}`,
+        expected.before !== undefined && `before ${formatOffset(expected.before)}`
+      ].filter(Boolean).join(' ')
+      problems.push(`expected a message ${wanted}; sent: ${sent.map(describeSent).join('; ') || 'nothing'}`)
+      continue
+    }
+
+    position += found + 1
+  }
+
+  for (const [ref, fields] of Object.entries(expect.state ?? {})) {
+    const conv = tracker.getConversation(resolveChat(ref))
+    if (!conv) {
+      problems.push(`expected state for ${ref}, but the conversation isn't tracked`)
+      continue
+    }
+
+    for (const [field, expected] of Object.entries(fields)) {
+      const actual = normalize((conv as unknown as Record<string, unknown>)[field])
+      if (actual !== normalize(expected)) {
+        problems.push(`expected ${ref}.${field} = ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`)
+      }
+    }
+  }
+
+  for (const expected of expect.transitions ?? []) {
+    const chatId = resolveChat(expected.contact)
+    const matched = transitions.some(t =>
+      t.chatId === chatId && t.field === expected.field && t.to === normalize(expected.to)
+    )
+    if (!matched) {
+      const seen = transitions.filter(t => t.chatId === chatId).map(t => `${t.field}: ${JSON.stringify(t.from)} -> ${JSON.stringify(t.to)}`)
+      problems.push(
+        `expected ${expected.contact}.${expected.field} to change to ${JSON.stringify(expected.to)}; ` +
+        `changes: ${seen.join(', ') || 'none'}`
+      )
+    }
+  }
+
+  for (const expected of expect.events ?? []) {
+    const chatId = resolveChat(expected.contact)
+    const matched = events.some(event =>
+      event.chatId === chatId && event.type === expected.type &&
+      (!expected.reason || describeEvent(event).toLowerCase().includes(expected.reason.toLowerCase()))
+    )
+    if (!matched) {
+      const seen = events.filter(event => event.chatId === chatId).map(event => `${event.type} (${describeEvent(event)})`)
+      problems.push(
+        `expected a ${expected.type} event for ${expected.contact}${expected.reason ? ` mentioning "${expected.reason}"` : ''}; ` +
+        `events: ${seen.join(', ') || 'none'}`
+      )
+    }
+  }
+
+  return problems
+}
+
+/**
+ * The part of an event an expectation's "reason" is matched against
+ */
+function describeEvent(event: AgentEvent): string {
+  return event.type === 'error' ? event.message : event.reason
+}
+
+/**
+ * Make field values comparable: dates as ISO strings, objects (e.g. drafts) as true
+ */
+function normalize(value: unknown): unknown {
+  if (value === undefined || value === null) {
+    return null
+  }
+  if (value instanceof Date) {
+    return value.toISOString()
+  }
+  if (typeof value === 'object') {
+    return true
+  }
+  return value
+}
+
+function describeSent(message: SentMessage): string {
+  return `${message.to}: "${message.text}"`
+}
+
+/**
+ * Format an offset from the scenario start, e.g. "2m05s"
+ */
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}m${String(seconds).padStart(2, '0')}s`
+}
@@ -0,0 +1,188 @@
+/**
+ * Scenario - Format of simulator scripts
+ *
+ * A scenario is a YAML file: some contacts, env overrides for the agent
+ * config, and a list of steps replayed in virtual time. Example:
+ *
+ *   name: Prompt after two minutes, user declines
+ *   env: { INACTIVITY_THRESHOLD_MS: "120000" }
+ *   contacts: [{ name: Sam, chatId: "+15550001111" }]
+ *   steps:
+ *     - friend: Sam
+ *       text: did you see the game?
+ *     - user: Sam
+ *       text: yeah wild ending
+ *     - at: 3m
+ *       expect:
+ *         sent: [{ to: self, contains: ghost }]
+ *         state: { Sam: { awaitingApproval: true } }
+ *     - self: no
+ *
+ * Group chats list their members, and friend steps say who is talking:
+ *
+ *   contacts:
+ *     - { name: Crew, chatId: "chat123", isGroup: true, members: [{ name: Jo, handle: "+15550002222" }] }
+ *   steps:
+ *     - { friend: Crew, from: Jo, text: "you in tonight?" }
+ */
+
+import { z } from 'zod'
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60000,
+  h: 3600000,
+  d: 86400000
+}
+
+/**
+ * Parse a duration like "90s", "2m30s", "1h" or a plain number of milliseconds
+ * @returns Milliseconds, or null if the text isn't a duration
+ */
+export function parseDuration(value: string | number): number | null {
+  if (typeof value === 'number') {
+    return value >= 0 ? value : null
+  }
+
+  const text = value.trim().toLowerCase()
+  if (!/^(\d+(ms|s|m|h|d))+$/.test(text)) {
+    return /^\d+$/.test(text) ? parseInt(text) : null
+  }
+
+  let total = 0
+  for (const [, amount, unit] of text.matchAll(/(\d+)(ms|s|m|h|d)/g)) {
+    total += parseInt(amount) * DURATION_UNITS_MS[unit]
+  }
+  return total
+}
+
+const durationSchema = z.union([z.string(), z.number()]).transform((value, ctx) => {
+  const ms = parseDuration(value)
+  if (ms === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid duration "${value}" (use e.g. 90s, 2m30s, 1h)` })
+    return z.NEVER
+  }
+  return ms
+})
+
+const sentExpectationSchema = z.object({
+  /** Contact name or chat id, or "self" for messages to the user */
+  to: z.string(),
+  contains: z.string().optional(),
+  matches: z.string().optional(),
+
+  /** Bounds on when it was sent, measured from the scenario start */
+  after: durationSchema.optional(),
+  before: durationSchema.optional()
+}).strict()
+
+const transitionExpectationSchema = z.object({
+  contact: z.string(),
+  field: z.string(),
+  to: z.unknown()
+}).strict()
+
+const eventExpectationSchema = z.object({
+  contact: z.string(),
+  type: z.enum(['activation', 'deactivation', 'message_sent', 'wind_down', 'error']),
+
+  /** Text the event's reason (or error message) should contain */
+  reason: z.string().optional()
+}).strict()
+
+const expectationSchema = z.object({
+  /** Messages sent since the previous expect step, in order (others may be interleaved) */
+  sent: z.array(sentExpectationSchema).optional(),
+
+  /** Nothing at all was sent since the previous expect step */
+  nothingSent: z.boolean().optional(),
+
+  /** Current conversation fields by contact, e.g. { Sam: { isAgentActive: true } } */
+  state: z.record(z.record(z.unknown())).optional(),
+
+  /** State changes since the previous expect step */
+  transitions: z.array(transitionExpectationSchema).optional(),
+
+  /** Audit events emitted since the previous expect step */
+  events: z.array(eventExpectationSchema).optional()
+}).strict()
+
+const stepSchema = z.object({
+  /** Run at this offset from the scenario start... */
+  at: durationSchema.optional(),
+
+  /** ...or this long after the previous step (default: immediately) */
+  after: durationSchema.optional(),
+
+  /** The friend (contact name or chat id) sends `text` */
+  friend: z.string().optional(),
+
+  /** In a group chat, which member sends it (member name or handle) */
+  from: z.string().optional(),
+
+  /** The user types `text` to this contact themselves */
+  user: z.string().optional(),
+
+  /** The user texts themselves (commands, prompt replies) */
+  self: z.string().optional(),
+
+  text: z.string().optional(),
+  expect: expectationSchema.optional()
+}).strict().superRefine((step, ctx) => {
+  if (step.at !== undefined && step.after !== undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'use either "at" or "after", not both' })
+  }
+
+  const actions = [step.friend, step.user, step.self].filter(a => a !== undefined).length
+  if (actions > 1) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'a step can do only one of friend/user/self' })
+  }
+  if ((step.friend !== undefined || step.user !== undefined) && step.text === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'friend and user steps need "text"' })
+  }
+  if (step.from !== undefined && step.friend === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: '"from" only applies to friend steps' })
+  }
+})
+
+const scenarioSchema = z.object({
+  name: z.string(),
+
+  /** Wall-clock start time (ISO 8601); matters for quiet hours and calendars */
+  start: z.string().datetime({ offset: true }).optional(),
+
+  /** Environment variables fed to loadConfig() */
+  env: z.record(z.union([z.string(), z.number(), z.boolean()]).transform(String)).default({}),
+
+  contacts: z.array(z.object({
+    name: z.string(),
+    chatId: z.string(),
+    isGroup: z.boolean().default(false),
+
+    /** Who is in a group chat, other than the user */
+    members: z.array(z.object({
+      name: z.string(),
+      handle: z.string()
+    }).strict()).default([])
+  }).strict()).min(1),
+
+  steps: z.array(stepSchema).min(1)
+}).strict()
+
+export type Scenario = z.infer<typeof scenarioSchema>
+export type ScenarioStep = Scenario['steps'][number]
+export type ScenarioExpectation = z.infer<typeof expectationSchema>
+
+/**
+ * Validate a parsed YAML document as a scenario
+ * @throws Error listing every problem
+ */
+export function parseScenario(raw: unknown, source: string): Scenario {
+  const result = scenarioSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    throw new Error(`Invalid scenario ${source}:\n${issues.join('\n')}`)
+  }
+  return result.data
+}
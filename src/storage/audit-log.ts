@@ -0,0 +1,196 @@
+/**
+ * Audit Log - Durable record of everything the agent did and why
+ *
+ * Every AgentEvent is appended as it happens: takeovers and hand-backs
+ * with their reasons, and each sent message with the prompt, model, raw
+ * output and cleaned texts behind it. The log is append-only; nothing the
+ * agent does rewrites it.
+ */
+
+import { appendFileSync, closeSync, existsSync, fstatSync, openSync, readSync } from 'node:fs'
+import { z } from 'zod'
+import type { AgentEvent, GenerationRecord } from '../types/index.js'
+
+/** Bytes read per step when scanning a JSONL log from its end */
+const READ_CHUNK_BYTES = 64 * 1024
+
+const storedDate = z.coerce.date()
+
+/**
+ * A GenerationRecord as stored in the log (and in a pending draft)
+ */
+export const storedGenerationSchema = z.object({
+  task: z.enum(['reply', 'windDown', 'closure', 'intent', 'caption', 'summary']),
+  model: z.string(),
+  prompt: z.string(),
+  rawOutput: z.string(),
+  attempts: z.number(),
+  style: z.object({ score: z.number(), violations: z.array(z.string()) }).optional()
+}) satisfies z.ZodType<GenerationRecord, z.ZodTypeDef, unknown>
+
+const eventBase = {
+  chatId: z.string(),
+  timestamp: storedDate
+}
+
+// Fields added after an event was written get their defaults
+const storedEventSchema = z.discriminatedUnion('type', [
+  z.object({ ...eventBase, type: z.literal('activation'), reason: z.string() }),
+  z.object({
+    ...eventBase,
+    type: z.literal('deactivation'),
+    reason: z.string(),
+    sessionStartedAt: z.string().nullish().transform(value => (value ? new Date(value) : null)),
+    draft: z.string().optional()
+  }),
+  z.object({
+    ...eventBase,
+    type: z.literal('message_sent'),
+    texts: z.array(z.string()),
+    reason: z.string(),
+    generation: storedGenerationSchema.nullish().transform(value => value ?? null),
+    isFinal: z.boolean().default(false)
+  }),
+  z.object({ ...eventBase, type: z.literal('wind_down'), reason: z.string() }),
+  z.object({ ...eventBase, type: z.literal('error'), message: z.string() })
+]) satisfies z.ZodType<AgentEvent, z.ZodTypeDef, unknown>
+
+/**
+ * Storage backend for agent events
+ */
+export interface AuditLog {
+  /** Record an event */
+  append(event: AgentEvent): void
+
+  /** A chat's most recent events, oldest first */
+  readEvents(chatId: string, limit: number): AgentEvent[]
+
+  /** Release any underlying resources */
+  close(): void
+}
+
+/**
+ * Log that keeps events in process memory (gone after a restart)
+ */
+export class MemoryAuditLog implements AuditLog {
+  private events: AgentEvent[] = []
+
+  append(event: AgentEvent): void {
+    this.events.push(structuredClone(event))
+  }
+
+  readEvents(chatId: string, limit: number): AgentEvent[] {
+    return this.events
+      .filter(event => event.chatId === chatId)
+      .slice(-limit)
+      .map(event => structuredClone(event))
+  }
+
+  close(): void {
+    this.events = []
+  }
+}
+
+/**
+ * Log written as one JSON object per line, easy to tail and grep
+ */
+export class JsonlAuditLog implements AuditLog {
+  private path: string
+
+  constructor(path: string) {
+    this.path = path
+  }
+
+  append(event: AgentEvent): void {
+    appendFileSync(this.path, `${serializeEvent(event)}\n`)
+  }
+
+  readEvents(chatId: string, limit: number): AgentEvent[] {
+    if (limit <= 0 || !existsSync(this.path)) {
+      return []
+    }
+
+    // Newest first, stopping once there are enough: the log is never trimmed and holds whole prompts
+    const events: AgentEvent[] = []
+    const chatField = JSON.stringify(chatId)
+    for (const line of readLinesBackwards(this.path)) {
+      // Only lines mentioning the chat are worth parsing
+      if (!line.trim() || !line.includes(chatField)) {
+        continue
+      }
+      try {
+        const event = deserializeEvent(line)
+        if (event.chatId === chatId) {
+          events.push(event)
+          if (events.length >= limit) {
+            break
+          }
+        }
+      } catch (error) {
+        console.error('[AuditLog] Skipping unreadable line:', error)
+      }
+    }
+
+    return events.reverse()
+  }
+
+  close(): void {}
+}
+
+/**
+ * Serialize an event to JSON for storage
+ */
+export function serializeEvent(event: AgentEvent): string {
+  return JSON.stringify(event)
+}
+
+/**
+ * Restore an event from JSON, reviving its dates
+ * @throws Error listing what's wrong if the JSON isn't an event
+ */
+export function deserializeEvent(json: string): AgentEvent {
+  const raw: unknown = JSON.parse(json)
+
+  const result = storedEventSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid stored event: ${issues}`)
+  }
+
+  return result.data
+}
+
+/**
+ * A file's lines, last first, read in chunks from the end
+ */
+function* readLinesBackwards(path: string): Generator<string> {
+  const fd = openSync(path, 'r')
+  try {
+    let position = fstatSync(fd).size
+    // Bytes of a line whose start hasn't been read yet (split on bytes so multi-byte characters stay whole)
+    let carry = Buffer.alloc(0)
+
+    while (position > 0) {
+      const size = Math.min(READ_CHUNK_BYTES, position)
+      position -= size
+      const chunk = Buffer.alloc(size)
+      readSync(fd, chunk, 0, size, position)
+
+      const buffer = Buffer.concat([chunk, carry])
+      let end = buffer.length
+      for (let i = buffer.length - 1; i >= 0; i--) {
+        if (buffer[i] === 0x0a) {
+          yield buffer.toString('utf8', i + 1, end)
+          end = i
+        }
+      }
+      carry = buffer.subarray(0, end)
+    }
+
+    yield carry.toString('utf8')
+  } finally {
+    closeSync(fd)
+  }
+}
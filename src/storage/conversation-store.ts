@@ -0,0 +1,207 @@
+/**
+ * Conversation Store - Pluggable persistence for ConversationTracker state
+ *
+ * The tracker writes through to a store on every state change and
+ * rehydrates from it on startup, so a restart doesn't forget pending
+ * approvals, active sessions or style samples.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import { z } from 'zod'
+import type { ConversationState, StyleProfile } from '../types/index.js'
+import { storedGenerationSchema } from './audit-log.js'
+
+// Dates are stored as ISO strings; fields added after a row was written get their defaults
+const storedDate = z.coerce.date()
+const storedDateOrNull = z.string().nullish().transform(value => (value ? new Date(value) : null))
+
+const storedMessageSchema = z.object({
+  id: z.string(),
+  guid: z.string(),
+  text: z.string().nullable(),
+  sender: z.string(),
+  senderName: z.string().nullable(),
+  chatId: z.string(),
+  isGroupChat: z.boolean(),
+  service: z.enum(['iMessage', 'SMS', 'RCS']),
+  isRead: z.boolean(),
+  isFromMe: z.boolean(),
+  isReaction: z.boolean(),
+  reactionType: z.enum(['love', 'like', 'dislike', 'laugh', 'emphasize', 'question']).nullable(),
+  isReactionRemoval: z.boolean(),
+  associatedMessageGuid: z.string().nullable(),
+  attachments: z.array(z.object({
+    id: z.string(),
+    filename: z.string(),
+    mimeType: z.string(),
+    path: z.string(),
+    size: z.number(),
+    isImage: z.boolean(),
+    createdAt: storedDate
+  })).default([]),
+  date: storedDate
+})
+
+const storedConversationSchema = z.object({
+  chatId: z.string(),
+  friendName: z.string(),
+  lastOutgoingTimestamp: storedDate,
+  lastIncomingTimestamp: storedDateOrNull,
+  isAgentActive: z.boolean(),
+  awaitingApproval: z.boolean(),
+  promptHandle: z.number().nullish().transform(value => value ?? null),
+  awaitingApprovalSince: storedDateOrNull,
+  messagesSent: z.number(),
+  lastAgentDeactivationTime: storedDateOrNull,
+  agentActivationTime: storedDateOrNull,
+  userMessageHistory: z.array(storedMessageSchema).default([]),
+  historyBackfilled: z.boolean().default(false),
+  conversationHistory: z.array(storedMessageSchema).default([]),
+  pendingDraft: z.object({
+    // Drafts saved before handles existed get one from the tracker on load
+    handle: z.number().default(0),
+    texts: z.array(z.string()),
+    isFinal: z.boolean().default(false),
+    createdAt: storedDate,
+    generation: storedGenerationSchema.nullish().transform(value => value ?? null)
+  }).nullish().transform(value => value ?? null),
+  paused: z.boolean().default(false),
+  mutedUntil: storedDateOrNull,
+  busyReplySentAt: storedDateOrNull,
+  isGroup: z.boolean().default(false),
+  participants: z.array(z.object({
+    handle: z.string(),
+    name: z.string().nullable()
+  })).default([]),
+  lastAddressedBy: z.object({
+    handle: z.string(),
+    name: z.string(),
+    text: z.string(),
+    at: storedDate
+  }).nullish().transform(value => value ?? null),
+  replyLatencies: z.array(z.object({
+    replyGuid: z.string(),
+    latencyMs: z.number(),
+    replyLength: z.number(),
+    at: storedDate
+  })).default([])
+}) satisfies z.ZodType<ConversationState, z.ZodTypeDef, unknown>
+
+// Profiles saved before burst/slang analysis existed fail here and get recomputed on first use
+const storedStyleProfileSchema = z.object({
+  scope: z.string(),
+  tone: z.string(),
+  averageLength: z.number(),
+  commonPhrases: z.array(z.string()),
+  emojiUsage: z.enum(['none', 'rare', 'frequent']),
+  typingPatterns: z.string(),
+  styleGuide: z.string(),
+  sampleCount: z.number(),
+  capsRatio: z.number(),
+  punctuationRatio: z.number(),
+  emojiRatio: z.number(),
+  abbreviations: z.array(z.object({ term: z.string(), count: z.number() })),
+  bigrams: z.array(z.string()),
+  trigrams: z.array(z.string()),
+  laughterForms: z.array(z.string()),
+  typicalBurstSize: z.number(),
+  burstDistribution: z.record(z.string(), z.number()),
+  lastSampleGuid: z.string().nullable(),
+  updatedAt: storedDate
+}) satisfies z.ZodType<StyleProfile, z.ZodTypeDef, unknown>
+
+/**
+ * Storage backend for conversation state
+ */
+export interface ConversationStore {
+  /** Load every persisted conversation */
+  loadConversations(): ConversationState[]
+
+  /** Insert or replace a conversation */
+  saveConversation(conv: ConversationState): void
+
+  /** Remove a conversation */
+  deleteConversation(chatId: string): void
+
+  /** Load every persisted style profile */
+  loadStyleProfiles(): StyleProfile[]
+
+  /** Insert or replace a style profile (keyed by scope) */
+  saveStyleProfile(profile: StyleProfile): void
+
+  /** Release any underlying resources */
+  close(): void
+}
+
+/**
+ * Store that keeps state in process memory (the default - nothing survives a restart)
+ */
+export class MemoryConversationStore implements ConversationStore {
+  private conversations: Map<string, ConversationState> = new Map()
+  private styleProfiles: Map<string, StyleProfile> = new Map()
+
+  loadConversations(): ConversationState[] {
+    return Array.from(this.conversations.values()).map(conv => structuredClone(conv))
+  }
+
+  saveConversation(conv: ConversationState): void {
+    this.conversations.set(conv.chatId, structuredClone(conv))
+  }
+
+  deleteConversation(chatId: string): void {
+    this.conversations.delete(chatId)
+  }
+
+  loadStyleProfiles(): StyleProfile[] {
+    return Array.from(this.styleProfiles.values()).map(profile => structuredClone(profile))
+  }
+
+  saveStyleProfile(profile: StyleProfile): void {
+    this.styleProfiles.set(profile.scope, structuredClone(profile))
+  }
+
+  close(): void {
+    this.conversations.clear()
+    this.styleProfiles.clear()
+  }
+}
+
+/**
+ * Serialize a conversation to JSON for storage
+ */
+export function serializeConversation(conv: ConversationState): string {
+  return JSON.stringify(conv)
+}
+
+/**
+ * Restore a conversation from JSON, reviving Date fields
+ * @throws Error listing what's wrong if the JSON isn't a stored conversation
+ */
+export function deserializeConversation(json: string): ConversationState {
+  const raw: unknown = JSON.parse(json)
+  return parseStored(storedConversationSchema, raw, 'conversation')
+}
+
+/**
+ * Restore a style profile from JSON, reviving Date fields
+ * @throws Error listing what's wrong if the JSON isn't a current style profile
+ */
+export function deserializeStyleProfile(json: string): StyleProfile {
+  const raw: unknown = JSON.parse(json)
+  return parseStored(storedStyleProfileSchema, raw, 'style profile')
+}
+
+/**
+ * Validate parsed JSON against a stored-record schema
+ */
+function parseStored<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, raw: unknown, what: string): T {
+  const result = schema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid stored ${what}: ${issues}`)
+  }
+
+  return result.data
+}
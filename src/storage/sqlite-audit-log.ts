@@ -0,0 +1,92 @@
+/**
+ * SQLite Audit Log - Agent events in a SQLite file via better-sqlite3
+ *
+ * Kept in its own file rather than the conversation database, so the audit
+ * trail survives the state being reset. Schema versioning works as in
+ * SqliteConversationStore.
+ */
+
+import Database from 'better-sqlite3'
+import type { AgentEvent } from '../types/index.js'
+import { type AuditLog, serializeEvent, deserializeEvent } from './audit-log.js'
+
+/**
+ * Ordered schema migrations; MIGRATIONS[n] upgrades version n to n + 1
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    chat_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    event TEXT NOT NULL
+  );
+  CREATE INDEX events_by_chat ON events (chat_id, id)
+  `
+]
+
+const SCHEMA_VERSION = MIGRATIONS.length
+
+export class SqliteAuditLog implements AuditLog {
+  private db: Database.Database
+  private debug: boolean
+
+  constructor(path: string, debug: boolean = false) {
+    this.debug = debug
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.migrate()
+  }
+
+  append(event: AgentEvent): void {
+    this.db
+      .prepare('INSERT INTO events (chat_id, type, timestamp, event) VALUES (?, ?, ?, ?)')
+      .run(event.chatId, event.type, event.timestamp.getTime(), serializeEvent(event))
+  }
+
+  readEvents(chatId: string, limit: number): AgentEvent[] {
+    const rows = this.db
+      .prepare('SELECT event FROM events WHERE chat_id = ? ORDER BY id DESC LIMIT ?')
+      .all(chatId, limit) as Array<{ event: string }>
+
+    const events: AgentEvent[] = []
+    for (const row of rows.reverse()) {
+      try {
+        events.push(deserializeEvent(row.event))
+      } catch (error) {
+        console.error('[SqliteAuditLog] Skipping unreadable event row:', error)
+      }
+    }
+
+    return events
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close()
+    }
+  }
+
+  /**
+   * Bring the database up to SCHEMA_VERSION
+   */
+  private migrate(): void {
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number
+
+    if (currentVersion > SCHEMA_VERSION) {
+      throw new Error(`Audit database schema v${currentVersion} is newer than supported v${SCHEMA_VERSION}`)
+    }
+
+    for (let version = currentVersion; version < SCHEMA_VERSION; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version])
+        this.db.pragma(`user_version = ${version + 1}`)
+      })()
+
+      if (this.debug) {
+        console.log(`[SqliteAuditLog] Migrated schema to v${version + 1}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * SQLite Conversation Store - Durable ConversationTracker state via better-sqlite3
+ *
+ * The schema version lives in SQLite's `user_version` pragma. To change the
+ * schema, append a migration to MIGRATIONS - never edit an existing one.
+ */
+
+import Database from 'better-sqlite3'
+import type { ConversationState, StyleProfile } from '../types/index.js'
+import { type Clock, systemClock } from '../utils/clock.js'
+import {
+  type ConversationStore,
+  serializeConversation,
+  deserializeConversation,
+  deserializeStyleProfile
+} from './conversation-store.js'
+
+/**
+ * Ordered schema migrations; MIGRATIONS[n] upgrades version n to n + 1
+ */
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE conversations (
+    chat_id TEXT PRIMARY KEY,
+    state TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+  `,
+  `
+  CREATE TABLE style_profiles (
+    scope TEXT PRIMARY KEY,
+    profile TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  )
+  `
+]
+
+/** Current schema version */
+export const SCHEMA_VERSION = MIGRATIONS.length
+
+export class SqliteConversationStore implements ConversationStore {
+  private db: Database.Database
+  private debug: boolean
+  private clock: Clock
+
+  constructor(path: string, debug: boolean = false, clock: Clock = systemClock) {
+    this.debug = debug
+    this.clock = clock
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.migrate()
+  }
+
+  loadConversations(): ConversationState[] {
+    const rows = this.db
+      .prepare('SELECT state FROM conversations')
+      .all() as Array<{ state: string }>
+
+    const conversations: ConversationState[] = []
+    for (const row of rows) {
+      try {
+        conversations.push(deserializeConversation(row.state))
+      } catch (error) {
+        console.error('[SqliteStore] Skipping unreadable conversation row:', error)
+      }
+    }
+
+    return conversations
+  }
+
+  saveConversation(conv: ConversationState): void {
+    this.db
+      .prepare(`
+        INSERT INTO conversations (chat_id, state, updated_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(chat_id) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at
+      `)
+      .run(conv.chatId, serializeConversation(conv), this.clock.now().getTime())
+  }
+
+  deleteConversation(chatId: string): void {
+    this.db.prepare('DELETE FROM conversations WHERE chat_id = ?').run(chatId)
+  }
+
+  loadStyleProfiles(): StyleProfile[] {
+    const rows = this.db
+      .prepare('SELECT profile FROM style_profiles')
+      .all() as Array<{ profile: string }>
+
+    const profiles: StyleProfile[] = []
+    for (const row of rows) {
+      try {
+        profiles.push(deserializeStyleProfile(row.profile))
+      } catch (error) {
+        console.error('[SqliteStore] Skipping unreadable style profile row:', error)
+      }
+    }
+
+    return profiles
+  }
+
+  saveStyleProfile(profile: StyleProfile): void {
+    this.db
+      .prepare(`
+        INSERT INTO style_profiles (scope, profile, updated_at)
+        VALUES (?, ?, ?)
+        ON CONFLICT(scope) DO UPDATE SET profile = excluded.profile, updated_at = excluded.updated_at
+      `)
+      .run(profile.scope, JSON.stringify(profile), profile.updatedAt.getTime())
+  }
+
+  close(): void {
+    if (this.db.open) {
+      this.db.close()
+    }
+  }
+
+  /**
+   * Bring the database up to SCHEMA_VERSION
+   */
+  private migrate(): void {
+    const currentVersion = this.db.pragma('user_version', { simple: true }) as number
+
+    if (currentVersion > SCHEMA_VERSION) {
+      throw new Error(
+        `Conversation database schema v${currentVersion} is newer than supported v${SCHEMA_VERSION}`
+      )
+    }
+
+    for (let version = currentVersion; version < SCHEMA_VERSION; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version])
+        this.db.pragma(`user_version = ${version + 1}`)
+      })()
+
+      if (this.debug) {
+        console.log(`[SqliteStore] Migrated schema to v${version + 1}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Fake Transport - In-memory MessagingTransport for the simulator and CI
+ *
+ * Behaves like the real watcher: everything sent (by the agent or typed by
+ * the user) comes back through onMessage as an isFromMe message, after
+ * deliveryDelayMs on the given scheduler.
+ */
+
+import type { Attachment, ChatSummary, ListChatsOptions, Message, MessageFilter, WatcherEvents } from '@photon-ai/imessage-kit'
+import type { MessagingTransport } from './messaging-transport.js'
+import type { Scheduler } from '../utils/clock.js'
+
+/**
+ * A text the agent sent through the transport
+ */
+export interface SentMessage {
+  to: string
+  text: string
+  at: Date
+}
+
+interface FakeChat {
+  chatId: string
+  displayName: string | null
+  isGroup: boolean
+}
+
+export class FakeTransport implements MessagingTransport {
+  /** Every send() call, in order */
+  readonly sent: SentMessage[] = []
+
+  private chats: Map<string, FakeChat> = new Map()
+  private contactNames: Map<string, string> = new Map()
+  private messages: Message[] = []
+  private events: Pick<WatcherEvents, 'onMessage' | 'onError'> | null = null
+  private nextId = 1
+  private scheduler: Scheduler
+  private userIdentifier: string
+  private deliveryDelayMs: number
+
+  /**
+   * @param userIdentifier The user's own handle (sender of isFromMe messages)
+   * @param deliveryDelayMs How long before the watcher sees a message (the real SDK polls every 2s)
+   */
+  constructor(scheduler: Scheduler, userIdentifier: string, deliveryDelayMs: number = 0) {
+    this.scheduler = scheduler
+    this.userIdentifier = userIdentifier
+    this.deliveryDelayMs = deliveryDelayMs
+  }
+
+  /**
+   * Register a chat so listChats() can name it
+   */
+  addChat(chatId: string, displayName: string | null, isGroup: boolean = false): void {
+    this.chats.set(chatId, { chatId, displayName, isGroup })
+  }
+
+  /**
+   * Name a handle, so group messages from it carry a senderName
+   */
+  addContact(handle: string, name: string): void {
+    this.contactNames.set(handle, name)
+  }
+
+  /**
+   * Put past messages in the history without delivering them to the watcher
+   */
+  seedHistory(chatId: string, text: string, isFromMe: boolean, date: Date, sender?: string): Message {
+    const message = this.createMessage(chatId, text, isFromMe, date, sender)
+    this.messages.push(message)
+    return message
+  }
+
+  /**
+   * A friend sends a message
+   * @param sender Handle of the sender (defaults to the chat id; needed for group chats)
+   */
+  receive(chatId: string, text: string, sender?: string, attachments: Attachment[] = []): Message {
+    const message = this.createMessage(chatId, text, false, this.scheduler.now(), sender, attachments)
+    this.deliver(message)
+    return message
+  }
+
+  /**
+   * The user types a message themselves (not through the agent)
+   */
+  userSends(chatId: string, text: string): Message {
+    const message = this.createMessage(chatId, text, true, this.scheduler.now())
+    this.deliver(message)
+    return message
+  }
+
+  async send(to: string, text: string): Promise<{ sentAt: Date }> {
+    const sentAt = this.scheduler.now()
+    this.sent.push({ to, text, at: sentAt })
+    this.deliver(this.createMessage(to, text, true, sentAt))
+    return { sentAt }
+  }
+
+  async startWatching(events: Pick<WatcherEvents, 'onMessage' | 'onError'>): Promise<void> {
+    this.events = events
+  }
+
+  stopWatching(): void {
+    this.events = null
+  }
+
+  async listChats(options: ListChatsOptions = {}): Promise<ChatSummary[]> {
+    const search = options.search?.toLowerCase()
+
+    const chats = Array.from(this.chats.values())
+      .filter(chat => options.type === 'group' ? chat.isGroup : options.type === 'dm' ? !chat.isGroup : true)
+      .filter(chat => !search || (chat.displayName ?? '').toLowerCase().includes(search))
+      .map(chat => ({
+        chatId: chat.chatId,
+        displayName: chat.displayName,
+        isGroup: chat.isGroup,
+        lastMessageAt: this.messages.filter(m => m.chatId === chat.chatId).at(-1)?.date ?? null,
+        unreadCount: 0
+      }))
+
+    return options.limit ? chats.slice(0, options.limit) : chats
+  }
+
+  async getMessages(filter: MessageFilter = {}): Promise<{ messages: Message[]; total: number; unreadCount: number }> {
+    const messages = this.messages
+      .filter(m => !filter.chatId || m.chatId === filter.chatId)
+      .filter(m => !(filter.excludeOwnMessages ?? true) || !m.isFromMe)
+      .filter(m => !filter.excludeReactions || !m.isReaction)
+      .filter(m => !filter.since || m.date >= filter.since)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+
+    const limited = filter.limit ? messages.slice(0, filter.limit) : messages
+    return { messages: limited, total: messages.length, unreadCount: 0 }
+  }
+
+  async close(): Promise<void> {
+    this.events = null
+  }
+
+  private deliver(message: Message): void {
+    this.messages.push(message)
+
+    this.scheduler.setTimeout(async () => {
+      try {
+        await this.events?.onMessage?.(message)
+      } catch (error) {
+        this.events?.onError?.(error instanceof Error ? error : new Error(String(error)))
+      }
+    }, this.deliveryDelayMs)
+  }
+
+  private createMessage(
+    chatId: string,
+    text: string,
+    isFromMe: boolean,
+    date: Date,
+    sender?: string,
+    attachments: Attachment[] = []
+  ): Message {
+    const chat = this.chats.get(chatId)
+    const id = this.nextId++
+
+    return {
+      id: String(id),
+      guid: `fake-${id}`,
+      text,
+      sender: isFromMe ? this.userIdentifier : sender ?? chatId,
+      senderName: isFromMe ? null : chat?.isGroup ? this.contactNames.get(sender ?? chatId) ?? null : chat?.displayName ?? null,
+      chatId,
+      isGroupChat: chat?.isGroup ?? false,
+      service: 'iMessage',
+      isRead: isFromMe,
+      isFromMe,
+      isReaction: false,
+      reactionType: null,
+      isReactionRemoval: false,
+      associatedMessageGuid: null,
+      attachments,
+      date
+    }
+  }
+}
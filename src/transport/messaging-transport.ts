@@ -0,0 +1,24 @@
+/**
+ * Messaging Transport - The slice of the iMessage SDK the agent relies on
+ *
+ * IMessageSDK satisfies this as-is on macOS; FakeTransport implements it in
+ * memory so the agent can run on Linux CI and in the scenario simulator.
+ */
+
+import type { ChatSummary, ListChatsOptions, Message, MessageFilter, WatcherEvents } from '@photon-ai/imessage-kit'
+
+export interface MessagingTransport {
+  /** Send a text to a chat id, phone number or email */
+  send(to: string, text: string): Promise<unknown>
+
+  /** Start delivering new messages (including the user's own) to the callbacks */
+  startWatching(events: Pick<WatcherEvents, 'onMessage' | 'onError'>): Promise<void>
+
+  stopWatching(): void
+
+  listChats(options?: ListChatsOptions): Promise<ChatSummary[]>
+
+  getMessages(filter?: MessageFilter): Promise<{ readonly messages: readonly Message[] }>
+
+  close(): Promise<void>
+}
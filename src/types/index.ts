@@ -26,6 +26,12 @@ export interface ConversationState {
   /** Whether we're waiting for user approval to activate the agent */
   awaitingApproval: boolean
 
+  /** Short number shown in the takeover prompt ("[2] ...") while awaiting approval */
+  promptHandle: number | null
+
+  /** When the takeover prompt was sent (for expiring stale prompts) */
+  awaitingApprovalSince: Date | null
+
   /** Number of messages the agent has sent in this session */
   messagesSent: number
 
@@ -38,8 +44,93 @@ export interface ConversationState {
   /** History of user's messages from this conversation */
   userMessageHistory: Message[]
 
+  /** Whether userMessageHistory has been backfilled from chat.db */
+  historyBackfilled: boolean
+
   /** Recent conversation history with the friend */
   conversationHistory: Message[]
+
+  /** Reply waiting for the user's send/edit/skip decision (review mode only) */
+  pendingDraft: PendingDraft | null
+
+  /** Paused by the user ("pause Sam") - no prompts until resumed */
+  paused: boolean
+
+  /** Muted by the user ("mute Sam 2h") - no prompts until this time */
+  mutedUntil: Date | null
+
+  /** When the busy auto-reply was last sent (at most once per calendar event) */
+  busyReplySentAt: Date | null
+
+  /** Whether this is a group chat (friendName is then the group's name) */
+  isGroup: boolean
+
+  /** Everyone who has written in the group, in order of first message */
+  participants: GroupParticipant[]
+
+  /** The latest group message that mentioned or directly addressed the user */
+  lastAddressedBy: GroupMention | null
+
+  /** How long the user took to answer this friend, learned from their own replies */
+  replyLatencies: ReplyLatencySample[]
+}
+
+/**
+ * One of the user's replies and how long after the friend's message it came
+ */
+export interface ReplyLatencySample {
+  /** The reply's message guid (for deduplication) */
+  replyGuid: string
+
+  /** From the first unanswered incoming message to the reply */
+  latencyMs: number
+
+  /** Length of the reply, to tell typing time from thinking time */
+  replyLength: number
+
+  /** When the reply was sent */
+  at: Date
+}
+
+/**
+ * Someone else in a group chat
+ */
+export interface GroupParticipant {
+  /** Phone number or email */
+  handle: string
+
+  /** Contact name, if the SDK knows it */
+  name: string | null
+}
+
+/**
+ * A group message aimed at the user
+ */
+export interface GroupMention {
+  handle: string
+  name: string
+  text: string
+  at: Date
+}
+
+/**
+ * A generated reply proposed to the user instead of being sent
+ */
+export interface PendingDraft {
+  /** Number the user answers with ("send 2"); shared with prompt handles so the two never clash */
+  handle: number
+
+  /** The texts that would be sent (more than one for a burst) */
+  texts: string[]
+
+  /** Whether sending it ends the agent's session (the model chose to wrap up) */
+  isFinal: boolean
+
+  /** When the draft was proposed */
+  createdAt: Date
+
+  /** The generation it came from, carried into the audit log once sent */
+  generation: GenerationRecord | null
 }
 
 /**
@@ -55,9 +146,39 @@ export interface AgentConfig {
   /** Number of recent user messages to analyze for style (default: 50) */
   styleAnalysisCount: number
 
-  /** Keywords that indicate user approval */
+  /** How many times an off-style reply may be regenerated before giving up */
+  styleRetryBudget: number
+
+  /** Policy rules every outgoing draft is checked against before sending */
+  safetyRules: SafetyRule[]
+
+  /** 'auto' sends replies directly; 'review' proposes each reply to the user first */
+  approvalMode: 'auto' | 'review'
+
+  /** How long a takeover prompt stays answerable before it expires (default: 900000 = 15 minutes) */
+  approvalTimeoutMs: number
+
+  /** Keywords/phrases that indicate user approval */
   approvalKeywords: string[]
 
+  /** Keywords/phrases that indicate user denial */
+  denialKeywords: string[]
+
+  /** Extra attempts when the model's reply doesn't match the expected JSON (default: 2) */
+  schemaRetryBudget: number
+
+  /** Ask the LLM whether the conversation is winding down after each friend reply */
+  windDownLlm: boolean
+
+  /** Send the user a summary of each agent session when it ends */
+  handoffSummary: boolean
+
+  /** Replies the model is less sure of than this are handed back to the user (default: 0.5) */
+  minReplyConfidence: number
+
+  /** Ask the LLM when keyword matching can't tell approval from denial */
+  intentLlmFallback: boolean
+
   /** Interval for checking inactivity (default: 30000 = 30 seconds) */
   timerCheckIntervalMs: number
 
@@ -67,13 +188,208 @@ export interface AgentConfig {
   /** User's own identifier (phone number or iMessage ID) */
   userIdentifier: string
 
-  /** Cerebras API key */
-  cerebrasApiKey: string
+  /** Which models handle which tasks, and the credentials to reach them */
+  llm: LlmConfig
+
+  /** Names and nicknames people use for the user, for spotting mentions in group chats */
+  userNames: string[]
+
+  /** Per-contact rules loaded from CONTACT_POLICY_PATH (empty = same behavior for everyone) */
+  contactPolicies: ContactPolicyRule[]
+
+  /** Quiet hours, focus blocks and calendar that hold back prompts and auto-replies */
+  schedule: ScheduleConfig
+
+  /** How photos, voice notes and links are described to the model */
+  attachments: AttachmentConfig
+
+  /** How long the agent waits before and while replying */
+  replyTiming: ReplyTimingConfig
+
+  /** Path to the SQLite file for conversation state (empty = in-memory only) */
+  conversationDbPath: string
+
+  /** Where agent events are recorded: a .jsonl file, a .db/.sqlite file, or empty for in-memory only */
+  auditLogPath: string
+
+  /** Local HTTP dashboard over the tracker's state */
+  dashboard: DashboardConfig
 
   /** Debug mode */
   debug: boolean
 }
 
+/**
+ * Pacing for agent replies
+ */
+export interface ReplyTimingConfig {
+  /** 'learned' samples delays from the user's own reply history; 'fixed' always waits minDelayMs */
+  mode: 'learned' | 'fixed'
+
+  /** Shortest wait before replying (default: 5000) */
+  minDelayMs: number
+
+  /** Longest wait before replying, kept inside the control window (default: 120000) */
+  maxDelayMs: number
+
+  /** Typing speed used to time each text (default: 5) */
+  typingCharsPerSecond: number
+
+  /** How long the friend must stop texting before the agent answers their burst (default: 8000) */
+  burstSettleMs: number
+}
+
+/**
+ * The optional dashboard server, bound to localhost
+ */
+export interface DashboardConfig {
+  /** Port to listen on (0 = no dashboard) */
+  port: number
+
+  /** Required on every request, as a bearer token or ?token= (generated at startup when empty) */
+  token: string
+}
+
+/**
+ * Sources for describing non-text messages; everything is optional and
+ * falls back to a plain description ("[photo, 2.1 MB]", "[voice note, 12 KB]")
+ */
+export interface AttachmentConfig {
+  /** Caption photos with the caption model (CAPTION_MODEL must accept images) */
+  captions: boolean
+
+  /** Directory of saved pages, one "<sha256 of the url>.html" per link, to read link titles from */
+  linkPreviewCacheDir: string
+
+  /** Command that prints a transcript of an audio file, with {file} standing for its path */
+  transcribeCommand: string
+}
+
+/**
+ * Where a model comes from: a hosted API, any OpenAI-compatible server, or the offline mock
+ */
+export type LlmProvider = 'cerebras' | 'openai' | 'openai-compatible' | 'mock'
+
+/**
+ * Jobs the agent hands to an LLM (each can use a different model)
+ */
+export type LlmTask = 'reply' | 'windDown' | 'closure' | 'intent' | 'caption' | 'summary'
+
+export interface ModelSpec {
+  provider: LlmProvider
+  model: string
+}
+
+export interface LlmConfig {
+  /** Model per task (default: LLM_PROVIDER/LLM_MODEL for all of them) */
+  models: Record<LlmTask, ModelSpec>
+
+  cerebrasApiKey: string
+  openaiApiKey: string
+
+  /** Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama */
+  compatibleBaseUrl: string
+
+  /** API key for the OpenAI-compatible server (local servers usually don't need one) */
+  compatibleApiKey: string
+}
+
+/**
+ * A recurring wall-clock window, e.g. 01:00-08:00 every day
+ */
+export interface TimeWindow {
+  /** Days the window starts on, 0 = Sunday */
+  days: number[]
+
+  /** Minutes after midnight; endMinute < startMinute means it crosses midnight */
+  startMinute: number
+  endMinute: number
+}
+
+/**
+ * Time-based rules for when the agent may act
+ */
+export interface ScheduleConfig {
+  /** IANA time zone the windows and floating calendar times are in */
+  timeZone: string
+
+  /** No takeover prompts (or auto-approved takeovers) during these windows */
+  quietHours: TimeWindow[]
+
+  /** No auto-approved takeovers during these windows - the user is asked instead */
+  focusBlocks: TimeWindow[]
+
+  /** Local .ics file; busy events suppress prompts (empty = no calendar) */
+  calendarPath: string
+
+  /** Sent to a waiting friend during a busy event instead of prompting (empty = stay silent) */
+  busyAutoReply: string
+}
+
+/**
+ * One occurrence of a busy calendar event
+ */
+export interface CalendarEvent {
+  summary: string
+  start: Date
+  end: Date
+}
+
+/**
+ * What the schedule allows at a given moment
+ */
+export interface ScheduleState {
+  quietHours: boolean
+  focusBlock: boolean
+  busyEvent: CalendarEvent | null
+}
+
+/**
+ * A rule from the contact policy file; unset fields fall back to the global config
+ */
+export interface ContactPolicyRule {
+  /** Name for logs and status ("family", "work") */
+  label?: string
+
+  /** Chat ids, handles (phone/email) or contact names the rule applies to */
+  match: string[]
+
+  /** Never offer to take over these chats */
+  neverPrompt?: boolean
+
+  /** Take over without asking once the chat goes quiet */
+  autoApprove?: boolean
+
+  maxMessagesToSend?: number
+
+  inactivityThresholdMs?: number
+
+  /** How long the agent keeps control after activating */
+  controlWindowMs?: number
+
+  /** Extra context for the model ("we mostly talk about climbing") */
+  toneNotes?: string
+
+  /** Let the agent answer in this group chat when you're addressed (groups are off unless opted in) */
+  groupReplies?: boolean
+}
+
+/**
+ * Effective settings for one chat after applying matching contact rules
+ */
+export interface ContactPolicy {
+  neverPrompt: boolean
+  autoApprove: boolean
+  maxMessagesToSend: number
+  inactivityThresholdMs: number
+  controlWindowMs: number
+  toneNotes: string[]
+  groupReplies: boolean
+
+  /** Labels of the rules that matched, in order */
+  matchedRules: string[]
+}
+
 /**
  * Result from style analysis
  */
@@ -97,20 +413,183 @@ export interface StyleAnalysis {
   styleGuide: string
 }
 
+/**
+ * Persistent style profile for a contact (or globally), computed from the
+ * user's own messages and reused until new samples arrive
+ */
+export interface StyleProfile extends StyleAnalysis {
+  /** Chat the profile describes, or GLOBAL_STYLE_SCOPE for all chats */
+  scope: string
+
+  /** Number of messages the profile was computed from */
+  sampleCount: number
+
+  /** Fraction of messages starting with a capital letter */
+  capsRatio: number
+
+  /** Fraction of messages ending in . ! or ? */
+  punctuationRatio: number
+
+  /** Fraction of messages containing an emoji */
+  emojiRatio: number
+
+  /** Slang/abbreviations the user types (lol, ngl, omg...) with counts, most used first */
+  abbreviations: Array<{ term: string; count: number }>
+
+  /** Most frequent two-word phrases */
+  bigrams: string[]
+
+  /** Most frequent three-word phrases */
+  trigrams: string[]
+
+  /** How the user spells laughter (e.g. "hahaha", "lmaooo"), most used first */
+  laughterForms: string[]
+
+  /** Most common number of texts sent in a row per turn */
+  typicalBurstSize: number
+
+  /** Fraction of turns by number of texts sent in a row (e.g. { 1: 0.6, 2: 0.3, 3: 0.1 }) */
+  burstDistribution: Record<number, number>
+
+  /** GUID of the newest sample included (to detect new samples) */
+  lastSampleGuid: string | null
+
+  /** When the profile was last computed */
+  updatedAt: Date
+}
+
+/**
+ * What the user means by a reply to the agent
+ */
+export type UserIntent = 'approve' | 'deny' | 'unclear'
+
+/**
+ * Parsed intent of a user reply
+ */
+export interface IntentResult {
+  intent: UserIntent
+
+  /** 0 (guess) to 1 (unambiguous) */
+  confidence: number
+
+  /** Whether keyword matching or the LLM fallback decided */
+  source: 'keywords' | 'llm'
+}
+
+/**
+ * The user's answer to one or more pending takeover prompts
+ */
+export interface ApprovalDecision {
+  /** What the user wants to do */
+  intent: UserIntent
+
+  /** How sure the intent parser is */
+  confidence: number
+
+  /** Handles of the prompts the answer applies to */
+  targets: number[]
+
+  /** True when the answer can't be matched to a single prompt */
+  ambiguous: boolean
+}
+
+/**
+ * The user's decision on a drafted reply (review mode)
+ */
+export type DraftResponse =
+  | { action: 'send' }
+  | { action: 'edit'; text: string }
+  | { action: 'regenerate' }
+  | { action: 'skip' }
+  | { action: 'unclear' }
+
+/**
+ * A command sent to the agent from the user's self-chat
+ * (target is the contact name as typed, null = all conversations)
+ */
+export type AgentCommand =
+  | { type: 'status' }
+  | { type: 'help' }
+  | { type: 'pause'; target: string | null }
+  | { type: 'resume'; target: string | null }
+  | { type: 'stop'; target: string }
+  | { type: 'take-over'; target: string }
+  | { type: 'mute'; target: string; durationMs: number }
+  | { type: 'set-max'; value: number }
+  | { type: 'transcript'; target: string }
+  | { type: 'usage'; message: string }
+
 /**
  * Result from message generation
  */
 export interface MessageGenerationResult {
-  /** The generated message text */
-  message: string
+  /** The texts to send (more than one for a burst) */
+  messages: string[]
 
-  /** Whether the conversation should continue */
+  /** Whether the conversation should continue after this reply */
   shouldContinue: boolean
 
+  /** How sure the model is that the reply fits the conversation (0-1) */
+  confidence: number
+
+  /** The model thinks the user should handle this one themselves */
+  escalate: boolean
+
   /** Reasoning for the message generation */
   reasoning: string
 }
 
+/**
+ * Whether a conversation is picking up, holding or dying down
+ */
+export type ConversationMomentum = 'rising' | 'steady' | 'fading'
+
+/**
+ * What the wind-down heuristics read from the friend's latest messages
+ */
+export interface WindDownSignals {
+  /** 0 = clearly ongoing, 1 = clearly over */
+  closureScore: number
+
+  /** The friend said goodbye outright ("ttyl", "gotta go", "night!") */
+  farewell: boolean
+
+  /** The friend asked something that still needs an answer */
+  openQuestion: boolean
+
+  momentum: ConversationMomentum
+
+  reason: string
+}
+
+/**
+ * The LLM's read on whether a conversation has reached a natural end
+ */
+export interface ClosureJudgment {
+  closed: boolean
+  openQuestion: boolean
+  momentum: ConversationMomentum
+
+  /** How sure the model is (0-1) */
+  confidence: number
+
+  reason: string
+}
+
+/**
+ * LLM read on what an ended session left for the user to deal with
+ */
+export interface SessionSummaryJudgment {
+  /** Questions the friend asked that are still unanswered */
+  openQuestions: string[]
+
+  /** Plans or promises the agent's texts made or implied on the user's behalf */
+  commitments: string[]
+
+  /** What the user should do next, in one line */
+  followUp: string
+}
+
 /**
  * Result from wind-down detection
  */
@@ -121,16 +600,132 @@ export interface WindDownResult {
   /** Reason for the decision */
   reason: string
 
-  /** Suggested exit message */
-  suggestedExitMessage: string
+  /** Combined closure score (0-1) */
+  closureScore: number
+
+  openQuestion: boolean
+  momentum: ConversationMomentum
+
+  /** Whether the LLM was consulted */
+  source: 'heuristic' | 'combined'
 }
 
 /**
- * Event emitted when the agent state changes
+ * One LLM call behind a decision, as recorded in the audit log
  */
-export interface AgentEvent {
-  type: 'activation' | 'deactivation' | 'message_sent' | 'wind_down' | 'error'
+export interface GenerationRecord {
+  task: LlmTask
+
+  /** "provider:model" */
+  model: string
+
+  /** Prompt of the attempt that was used (retries add feedback to the end) */
+  prompt: string
+
+  /** The model's reply before parsing and cleanup */
+  rawOutput: string
+
+  /** Calls it took, counting schema and style retries */
+  attempts: number
+
+  /** How well the texts used matched the user's style (replies only) */
+  style?: { score: number; violations: string[] }
+}
+
+interface AgentEventBase {
   chatId: string
   timestamp: Date
-  data?: any
+}
+
+/**
+ * Event emitted when the agent state changes
+ */
+export type AgentEvent =
+  | AgentEventBase & {
+      type: 'activation'
+      /** Why the agent took over */
+      reason: string
+    }
+  | AgentEventBase & {
+      type: 'deactivation'
+      /** Why the agent stopped */
+      reason: string
+      /** When the session began (null if that wasn't recorded) */
+      sessionStartedAt: Date | null
+      /** What it was about to send, when the stop was about a draft */
+      draft?: string
+    }
+  | AgentEventBase & {
+      type: 'message_sent'
+      /** The texts as sent, after splitting and style cleanup */
+      texts: string[]
+      /** Why these words (the model's reasoning, or the user's edit) */
+      reason: string
+      /** The generation they came from (null when the user wrote them) */
+      generation: GenerationRecord | null
+      /** Whether the message ends the session */
+      isFinal: boolean
+    }
+  | AgentEventBase & {
+      type: 'wind_down'
+      /** Why the agent decided to wrap up */
+      reason: string
+    }
+  | AgentEventBase & {
+      type: 'error'
+      message: string
+    }
+
+export type AgentEventType = AgentEvent['type']
+
+/**
+ * A guardrail that blocks outgoing drafts matching any of its patterns
+ */
+export interface SafetyRule {
+  /** Stable identifier (used to disable rules from config) */
+  id: string
+
+  /** Human-readable reason shown to the user when the rule blocks a send */
+  description: string
+
+  /** Patterns that trigger the rule */
+  patterns: RegExp[]
+}
+
+/**
+ * Result of checking an outgoing draft against the safety rules
+ */
+export interface SafetyVerdict {
+  /** Whether the draft may be sent */
+  allowed: boolean
+
+  /** Rules that matched, with the offending text */
+  violations: Array<{ ruleId: string; description: string; match: string }>
+}
+
+/**
+ * Kinds of incoming messages the agent must hand back to the user
+ */
+export type EscalationCategory =
+  | 'emotional-distress'
+  | 'bad-news'
+  | 'availability'
+  | 'bot-check'
+  | 'urgent'
+
+/**
+ * Result of screening a friend's message before the agent replies
+ */
+export interface EscalationResult {
+  /** Whether the agent should stop and hand the conversation back */
+  escalate: boolean
+
+  /** What kind of message it is (null when not escalating) */
+  category: EscalationCategory | null
+
+  /** Human-readable reason for the user-facing summary */
+  reason: string
+
+  /** The text that triggered escalation */
+  match: string
 }
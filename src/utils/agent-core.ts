@@ -6,18 +6,107 @@
  * detects friend responses and triggers the next agent message.
  */
 
-import type { IMessageSDK, Message } from '@photon-ai/imessage-kit'
-import type { ConversationState, AgentConfig } from '../types/index.js'
+import type { Message } from '@photon-ai/imessage-kit'
+import type { MessagingTransport } from '../transport/messaging-transport.js'
+import type {
+  ConversationState,
+  AgentConfig,
+  StyleProfile,
+  DraftResponse,
+  GenerationRecord,
+  LlmTask,
+  MessageGenerationResult
+} from '../types/index.js'
 import type { ConversationTracker } from '../watchers/conversation-tracker.js'
+import type { ReplyQueue } from './reply-queue.js'
 import { relationshipAgent } from '../agent/relationship-agent.js'
+import { describeModelSpec, taskContext } from '../agent/model-registry.js'
+import { generateStructured } from '../agent/structured-output.js'
+import { messageGenerationSchema, MESSAGE_GENERATION_FORMAT } from '../agent/tools/message-generator.js'
+import { GLOBAL_STYLE_SCOPE } from './style-profile-cache.js'
+import { scoreBurstConformance, normalizeToStyle } from './style-conformance.js'
+import { checkOutgoingDraft, describeViolations } from './safety-policy.js'
+import { classifyIncomingMessage } from './escalation-detector.js'
+import { resolveContactPolicy } from './contact-policy.js'
+import { evaluateSchedule } from './schedule-policy.js'
+import { decideWindDown } from './wind-down-service.js'
+import { describeParticipants, formatTranscript, hasUnansweredMention, speakerName } from './group-chat.js'
+import { describeMessages } from './attachment-context.js'
+import { planTextDelay } from './reply-timing.js'
+import { type Scheduler, systemScheduler } from './clock.js'
+
+/** How many recent self-chat notices to remember for echo detection */
+const MAX_RECENT_NOTICES = 50
+
+/** Texts recently sent to the user's self-chat, so their echoes aren't parsed as replies */
+const recentNotices: string[] = []
+
+/** Replies sent to friends whose echo hasn't come back through the watcher yet */
+const pendingEchoes: Array<{ chatId: string; text: string }> = []
 
-/** 5 minutes in milliseconds - the AI control window */
-export const AI_CONTROL_WINDOW_MS = 300000
+/**
+ * Texts on their way to a friend, with what the audit log needs to know about them
+ */
+interface OutgoingReply {
+  texts: string[]
+
+  /** Sending it ends the session */
+  isFinal: boolean
+
+  /** Why the agent is saying this */
+  reason: string
+
+  /** The generation the texts came from (null when the user wrote them) */
+  generation: GenerationRecord | null
+}
+
+/**
+ * A reply that passed the style check, with the generation behind it
+ */
+interface ConformingReply extends MessageGenerationResult {
+  generation: GenerationRecord
+}
+
+/**
+ * Send a message to the user's own chat (prompts, drafts, warnings)
+ */
+export async function notifyUser(sdk: MessagingTransport, config: AgentConfig, text: string): Promise<void> {
+  rememberAgentText(text)
+  await sdk.send(config.userIdentifier, text)
+}
+
+function rememberAgentText(text: string): void {
+  recentNotices.push(text.trim())
+  if (recentNotices.length > MAX_RECENT_NOTICES) {
+    recentNotices.shift()
+  }
+}
+
+/**
+ * Whether a message is the echo of something the agent sent outside a session
+ * (self-chat notices, busy auto-replies)
+ */
+export function isAgentNotice(text: string): boolean {
+  return recentNotices.includes(text.trim())
+}
+
+/**
+ * Whether an outgoing message is the echo of a reply the agent sent to a friend.
+ * Each sent reply is claimed once, so the user typing the same words later still counts as them.
+ */
+export function claimAgentEcho(chatId: string, text: string): boolean {
+  const index = pendingEchoes.findIndex(echo => echo.chatId === chatId && echo.text === text.trim())
+  if (index < 0) {
+    return false
+  }
+  pendingEchoes.splice(index, 1)
+  return true
+}
 
 /**
  * Get friend's display name from chat
  */
-export async function getFriendName(sdk: IMessageSDK, chatId: string): Promise<string> {
+export async function getFriendName(sdk: MessagingTransport, chatId: string): Promise<string> {
   try {
     const chats = await sdk.listChats({ limit: 100 })
     const chat = chats.find(c => c.chatId === chatId)
@@ -38,10 +127,12 @@ export async function getFriendName(sdk: IMessageSDK, chatId: string): Promise<s
  * Send the takeover prompt to the user
  */
 export async function sendTakeoverPrompt(
-  sdk: IMessageSDK,
+  sdk: MessagingTransport,
   tracker: ConversationTracker,
+  replyQueue: ReplyQueue,
   conv: ConversationState,
-  config: AgentConfig
+  config: AgentConfig,
+  scheduler: Scheduler = systemScheduler
 ): Promise<void> {
   // Double-check: don't send if agent is already active or awaiting approval
   if (conv.isAgentActive || conv.awaitingApproval) {
@@ -51,19 +142,91 @@ export async function sendTakeoverPrompt(
     return
   }
 
-  const friendName = await getFriendName(sdk, conv.chatId)
+  let friendName = await getFriendName(sdk, conv.chatId)
+  if (conv.isGroup && friendName === 'your friend' && conv.participants.length > 0) {
+    friendName = describeParticipants(conv.participants)
+  }
 
   // Update friend name in tracker
   tracker.setFriendName(conv.chatId, friendName)
 
-  const promptMessage = `Hey, are you trying to ghost ${friendName} or do you want me to take over?`
+  const policy = resolveContactPolicy(conv, config, friendName)
+
+  if (policy.neverPrompt) {
+    if (config.debug) {
+      console.log(`[AgentCore] Not prompting for ${friendName} (${policy.matchedRules.join(', ')})`)
+    }
+    return
+  }
+
+  // Groups are opt-in, and even then only worth a prompt when someone is waiting on the user
+  if (conv.isGroup && (!policy.groupReplies || !hasUnansweredMention(conv))) {
+    if (config.debug) {
+      console.log(`[AgentCore] Not prompting for group ${friendName} (${policy.groupReplies ? 'not addressed' : 'not opted in'})`)
+    }
+    return
+  }
+
+  // The timer checks at the shortest threshold of any rule; honor this contact's own
+  const now = scheduler.now()
+  const inactivityMs = now.getTime() - conv.lastOutgoingTimestamp.getTime()
+  if (inactivityMs < policy.inactivityThresholdMs) {
+    return
+  }
+
+  const schedule = evaluateSchedule(config.schedule, now)
+
+  if (schedule.quietHours) {
+    if (config.debug) {
+      console.log(`[AgentCore] Quiet hours, not prompting for ${friendName}`)
+    }
+    return
+  }
+
+  if (schedule.busyEvent) {
+    if (config.debug) {
+      console.log(`[AgentCore] Busy with "${schedule.busyEvent.summary}", not prompting for ${friendName}`)
+    }
+
+    // Let the friend know once per event, then leave the chat for after
+    const alreadyReplied = conv.busyReplySentAt && conv.busyReplySentAt >= schedule.busyEvent.start
+    if (config.schedule.busyAutoReply && !alreadyReplied) {
+      try {
+        rememberAgentText(config.schedule.busyAutoReply)
+        await sdk.send(conv.chatId, config.schedule.busyAutoReply)
+        tracker.markBusyReplySent(conv.chatId, now)
+      } catch (error) {
+        console.error('[AgentCore] Error sending busy auto-reply:', error)
+      }
+    }
+    return
+  }
+
+  // Focus blocks still allow a prompt, just not an unattended takeover
+  if (policy.autoApprove && !schedule.focusBlock) {
+    if (config.debug) {
+      console.log(`[AgentCore] Auto-approved takeover for ${friendName}`)
+    }
+    await notifyUser(sdk, config, `Taking over ${friendName} (auto-approved)`)
+    queueActivation(replyQueue, sdk, tracker, conv, config, true, scheduler)
+    return
+  }
 
   try {
     // Mark as waiting for approval FIRST to prevent race conditions
-    tracker.markAwaitingApproval(conv.chatId)
+    const handle = tracker.markAwaitingApproval(conv.chatId)
+
+    // With several prompts open, tell the user how to pick one
+    const otherPending = tracker.getPendingApprovals().filter(c => c.chatId !== conv.chatId)
+    const question = conv.isGroup && conv.lastAddressedBy
+      ? `${conv.lastAddressedBy.name} is waiting on you in ${friendName} ("${conv.lastAddressedBy.text}") - are you trying to ghost the group`
+      : `Hey, are you trying to ghost ${friendName}`
+    const promptMessage =
+      `[${handle}] ${question} or do you want me to take over?` +
+      (otherPending.length > 0 ? `\n(reply "yes ${handle}" or "no ${handle}")` : '')
 
     // Then send to user's own identifier
-    await sdk.send(config.userIdentifier, promptMessage)
+    await notifyUser(sdk, config, promptMessage)
 
     if (config.debug) {
       console.log(`[AgentCore] Sent takeover prompt for ${friendName}`)
@@ -75,19 +238,40 @@ export async function sendTakeoverPrompt(
   }
 }
 
+/**
+ * Run activateAgent as the chat's queued reply, so a friend texting while it
+ * generates supersedes it instead of starting a second reply alongside
+ */
+export function queueActivation(
+  replyQueue: ReplyQueue,
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  config: AgentConfig,
+  isInitialActivation: boolean,
+  scheduler: Scheduler = systemScheduler
+): void {
+  replyQueue.enqueue(conv.chatId, 0, 0, signal =>
+    activateAgent(sdk, tracker, conv, config, isInitialActivation, scheduler, signal)
+  )
+}
+
 /**
  * Activate agent and send ONE message
  * Returns immediately after sending - the incoming message handler
  * will trigger the next message when the friend responds.
  * 
  * @param isInitialActivation - true if this is the first activation (resets counters)
+ * @param signal - aborted when the friend texts again before this reply is out (see ReplyQueue)
  */
 export async function activateAgent(
-  sdk: IMessageSDK,
+  sdk: MessagingTransport,
   tracker: ConversationTracker,
   conv: ConversationState,
   config: AgentConfig,
-  isInitialActivation: boolean = true
+  isInitialActivation: boolean = true,
+  scheduler: Scheduler = systemScheduler,
+  signal?: AbortSignal
 ): Promise<void> {
   try {
     // Mark agent as active
@@ -108,38 +292,89 @@ export async function activateAgent(
       return
     }
 
-    // Check if we've hit the message limit
-    if (currentConv.messagesSent >= config.maxMessagesToSend) {
+    // Hand back immediately if the friend said something the agent shouldn't answer
+    if (await escalateIfNeeded(sdk, tracker, currentConv, config)) {
+      return
+    }
+
+    // Wind down at the message limit (per-contact limits come from the policy file),
+    // or earlier if the friend's reply reads like a natural end
+    const { maxMessagesToSend } = resolveContactPolicy(currentConv, config)
+    let windDownReason: string | null = null
+
+    if (currentConv.messagesSent >= maxMessagesToSend) {
+      windDownReason = `Reached message limit (${currentConv.messagesSent}/${maxMessagesToSend})`
+    } else if (!isInitialActivation) {
+      const decision = await decideWindDown(currentConv, tracker.getConversationHistory(conv.chatId, 20), config)
       if (config.debug) {
-        console.log(`[AgentCore] Reached message limit (${currentConv.messagesSent}/${config.maxMessagesToSend}), sending wind-down`)
+        console.log(
+          `[AgentCore] Wind-down check: ${decision.closureScore.toFixed(2)} closure, ${decision.momentum}` +
+          `${decision.openQuestion ? ', open question' : ''} (${decision.source})`
+        )
+      }
+      if (decision.shouldWindDown) {
+        windDownReason = `Natural endpoint: ${decision.reason}`
       }
 
+      // The friend said more while we were deciding; the next reply will take it all in
+      if (signal?.aborted) {
+        return
+      }
+    }
+
+    if (windDownReason) {
+      if (config.debug) {
+        console.log(`[AgentCore] ${windDownReason}, sending wind-down`)
+      }
+      tracker.events.emit({ type: 'wind_down', chatId: conv.chatId, timestamp: scheduler.now(), reason: windDownReason })
+
       // Get user's message history for style
-      const userMessages = tracker.getUserMessageHistory(conv.chatId, config.styleAnalysisCount)
-      await sendWindDownMessage(sdk, tracker, currentConv, userMessages, config)
-      tracker.markAgentInactive(conv.chatId)
+      const userMessages = tracker.getStyleSamples(conv.chatId, config.styleAnalysisCount)
+      const styleProfile = tracker.getStyleProfile(conv.chatId, config.styleAnalysisCount)
+      const drafted = await sendWindDownMessage(
+        sdk, tracker, currentConv, userMessages, styleProfile, config, scheduler, windDownReason, signal
+      )
+
+      // A drafted wind-down keeps the session open until the user decides; a superseded one was never sent
+      if (!drafted && !signal?.aborted) {
+        tracker.markAgentInactive(conv.chatId, `wound down (${windDownReason})`)
+      }
       return
     }
 
-    // Get user's message history for style analysis
-    const userMessages = tracker.getUserMessageHistory(
+    // Get user's message history for style analysis (topped up with global samples)
+    const userMessages = tracker.getStyleSamples(
       conv.chatId,
       config.styleAnalysisCount
     )
 
+    // Per-contact style profile (falls back to the global profile for new contacts)
+    const styleProfile = tracker.getStyleProfile(conv.chatId, config.styleAnalysisCount)
+
     // Get conversation history with friend
     const conversationHistory = tracker.getConversationHistory(conv.chatId, 20)
 
     // Send ONE message
-    await sendAgentMessage(sdk, tracker, currentConv, userMessages, conversationHistory, config)
+    await sendAgentMessage(sdk, tracker, currentConv, userMessages, styleProfile, conversationHistory, config, scheduler, signal)
 
   } catch (error) {
+    // Superseded by a newer message - not a failure, the queued reply takes over
+    if (signal?.aborted) {
+      if (config.debug) {
+        console.log(`[AgentCore] Reply to ${conv.friendName} superseded by a newer message`)
+      }
+      return
+    }
+
     console.error(`[AgentCore] Error in agent for ${conv.chatId}:`, error)
+    const message = error instanceof Error ? error.message : String(error)
+    tracker.events.emit({ type: 'error', chatId: conv.chatId, timestamp: scheduler.now(), message })
 
     // Notify user of error
     try {
-      await sdk.send(
-        config.userIdentifier,
+      await notifyUser(
+        sdk,
+        config,
         `⚠️ Agent encountered an error with ${conv.friendName}. Taking back control.`
       )
     } catch (notifyError) {
@@ -147,8 +382,49 @@ export async function activateAgent(
     }
 
     // Deactivate agent
-    tracker.markAgentInactive(conv.chatId)
+    tracker.markAgentInactive(conv.chatId, `error: ${message}`)
+  }
+}
+
+/**
+ * Screen the friend's unanswered messages before replying. On a flag, the
+ * agent is deactivated and the user gets a summary of why it bailed.
+ * @returns true if the conversation was handed back to the user
+ */
+async function escalateIfNeeded(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  config: AgentConfig
+): Promise<boolean> {
+  // Messages since our last outgoing text are the ones we'd be answering
+  const incoming = tracker.getConversationHistory(conv.chatId, 10).filter(m => !m.isFromMe)
+  const unanswered = incoming.filter(m => m.date > conv.lastOutgoingTimestamp)
+  const toScreen = unanswered.length > 0 ? unanswered : incoming.slice(-1)
+
+  for (const message of toScreen) {
+    const result = classifyIncomingMessage(message.text || '')
+    if (!result.escalate) continue
+
+    console.warn(`[AgentCore] 🚨 Escalating ${conv.friendName} (${result.category}): "${result.match}"`)
+
+    tracker.markAgentInactive(conv.chatId, `escalated (${result.category}): ${result.reason}`)
+
+    try {
+      await notifyUser(
+        sdk,
+        config,
+        `🚨 I didn't reply to ${conv.friendName} - ${result.reason}. ` +
+        `${conv.isGroup ? `${speakerName(conv, message)} said` : 'They said'}: "${message.text}"\n\nThis one needs you.`
+      )
+    } catch (notifyError) {
+      console.error('[AgentCore] Error sending escalation notification:', notifyError)
+    }
+
+    return true
   }
+
+  return false
 }
 
 /**
@@ -156,18 +432,19 @@ export async function activateAgent(
  * Does NOT wait for response - returns immediately after sending
  */
 async function sendAgentMessage(
-  sdk: IMessageSDK,
+  sdk: MessagingTransport,
   tracker: ConversationTracker,
   conv: ConversationState,
   userMessages: Message[],
+  styleProfile: StyleProfile,
   conversationHistory: Message[],
-  config: AgentConfig
+  config: AgentConfig,
+  scheduler: Scheduler,
+  signal?: AbortSignal
 ): Promise<void> {
   // Prepare conversation context for agent
   const recentHistory = conversationHistory.slice(-10)
-  const historyText = recentHistory
-    .map(m => `${m.isFromMe ? 'You' : conv.friendName}: ${m.text || '(attachment)'}`)
-    .join('\n')
+  const historyText = formatTranscript(conv, recentHistory, await describeMessages(recentHistory, config.attachments))
 
   const userMessagesForStyle = userMessages.map(m => ({
     text: m.text || '',
@@ -175,66 +452,206 @@ async function sendAgentMessage(
   }))
 
   const messagesSent = conv.messagesSent
+  const policy = resolveContactPolicy(conv, config)
+
+  // In a group, answer whoever addressed the user, knowing everyone else reads it too
+  const addressedBy = conv.isGroup ? conv.lastAddressedBy?.name ?? 'the group' : conv.friendName
+  const situation = conv.isGroup
+    ? `You are in the group chat "${conv.friendName}" with ${describeParticipants(conv.participants)} - everyone in the group sees what you send`
+    : `You are texting with ${conv.friendName}`
 
   // Build context for agent
   const context = `
 Current situation:
-- You are texting with ${conv.friendName}
+- ${situation}
 - You have sent ${messagesSent} messages so far in this session
-- Maximum messages before wind-down: ${config.maxMessagesToSend}
+- Maximum messages before wind-down: ${policy.maxMessagesToSend}
+${policy.toneNotes.map(note => `- Note about ${conv.friendName}: ${note}`).join('\n')}
 
 Recent conversation:
 ${historyText}
 
-Your writing style (from ${userMessages.length} message samples):
-First, analyze these messages to understand your style, then respond to ${conv.friendName}'s last message.
+Your writing style ${describeProfileScope(styleProfile, conv.friendName)} (from ${styleProfile.sampleCount} message samples):
+${styleProfile.styleGuide}
 
-User message samples for style analysis:
-${userMessagesForStyle.slice(-15).map(m => m.text).join('\n')}
+Example messages you've sent:
+${userMessagesForStyle.slice(-8).map(m => m.text).join('\n')}
 
 Instructions:
-${messagesSent >= config.maxMessagesToSend - 1
+${messagesSent >= policy.maxMessagesToSend - 1
   ? 'This should be your LAST message - wind down gracefully and naturally in your style.'
-  : 'Generate ONE natural response to the last message from ' + conv.friendName + '. Keep it in your exact texting style.'
+  : 'Generate ONE natural response to the last message from ' + addressedBy + ' to you. Keep it in your exact texting style.'
+}
+${styleProfile.typicalBurstSize > 1
+  ? `You usually send ${styleProfile.typicalBurstSize} short texts in a row instead of one long one - put each text in its own entry of "messages" (at most ${maxBurstSize(styleProfile)}).`
+  : 'You send one text per reply - put it in a single entry of "messages".'
 }
 
-Respond with ONLY the message text you want to send - no explanations, no quotes, just the raw message as you would type it.
+${MESSAGE_GENERATION_FORMAT}
 `
 
   if (config.debug) {
-    console.log(`[AgentCore] Generating message ${messagesSent + 1}/${config.maxMessagesToSend}...`)
+    console.log(`[AgentCore] Generating message ${messagesSent + 1}/${policy.maxMessagesToSend}...`)
   }
 
-  const response = await relationshipAgent.generate(context)
+  // Generate, split into a burst and check against the user's style
+  const reply = await generateConformingReply(context, styleProfile, config, signal)
 
-  let messageText = response.text?.trim() || ''
+  if (signal?.aborted) {
+    return
+  }
 
-  // Clean up response (remove quotes, explanations, etc.)
-  messageText = cleanupAgentResponse(messageText)
+  if (!reply) {
+    console.error('[AgentCore] Agent could not produce an on-style message, deactivating')
+    tracker.markAgentInactive(conv.chatId, 'could not write an on-style reply')
+    return
+  }
 
-  if (!messageText) {
-    console.error('[AgentCore] Agent generated empty message, deactivating')
-    tracker.markAgentInactive(conv.chatId)
+  // The model can decide this one isn't for it
+  if (reply.escalate || reply.confidence < config.minReplyConfidence) {
+    const reason = reply.escalate
+      ? 'it looks like something you should answer yourself'
+      : `I wasn't sure what to say (confidence ${reply.confidence.toFixed(2)})`
+    await handBackToUser(sdk, tracker, conv, config, reason, reply.reasoning)
     return
   }
 
-  if (config.debug) {
-    console.log(`[AgentCore] 📤 Sending: "${messageText}"`)
+  // Policy check - never send commitments, money, addresses, etc.
+  if (!(await passesSafetyPolicy(sdk, tracker, conv, reply.messages.join('\n'), config))) {
+    return
+  }
+
+  if (config.debug && !reply.shouldContinue) {
+    console.log(`[AgentCore] 👋 Model is wrapping up with ${conv.friendName}: ${reply.reasoning}`)
   }
 
-  // Send message to friend
-  await sdk.send(conv.chatId, messageText)
+  // Send to the friend, or propose to the user first in review mode
+  await dispatchReply(sdk, tracker, conv, {
+    texts: reply.messages,
+    isFinal: !reply.shouldContinue,
+    reason: reply.reasoning || 'answering their last message',
+    generation: reply.generation
+  }, config, scheduler, signal)
+}
+
+/**
+ * Stop the session without replying and tell the user why
+ */
+async function handBackToUser(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  config: AgentConfig,
+  reason: string,
+  reasoning: string
+): Promise<void> {
+  console.warn(`[AgentCore] 🤚 Handing ${conv.friendName} back: ${reason}`)
+
+  tracker.markAgentInactive(conv.chatId, `handed back: ${reason}`)
+
+  try {
+    await notifyUser(
+      sdk,
+      config,
+      `🤚 I stopped replying to ${conv.friendName} - ${reason}.${reasoning ? ` (${reasoning})` : ''}\n\nYou should take it from here.`
+    )
+  } catch (notifyError) {
+    console.error('[AgentCore] Error sending hand-back notification:', notifyError)
+  }
+}
+
+/**
+ * Send a reply directly ('auto') or propose it to the user ('review')
+ */
+async function dispatchReply(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  reply: OutgoingReply,
+  config: AgentConfig,
+  scheduler: Scheduler,
+  signal?: AbortSignal
+): Promise<void> {
+  if (config.approvalMode === 'review') {
+    await proposeDraft(sdk, tracker, conv, reply, config)
+  } else {
+    await deliverReply(sdk, tracker, conv, reply, config, scheduler, signal)
+  }
+}
+
+/**
+ * Send a reply's texts to the friend and update the session counters
+ */
+async function deliverReply(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  reply: OutgoingReply,
+  config: AgentConfig,
+  scheduler: Scheduler,
+  signal?: AbortSignal
+): Promise<void> {
+  const { texts, isFinal } = reply
+
+  // Whatever actually went out is what the audit log gets
+  const recordSent = (count: number) => tracker.events.emit({
+    type: 'message_sent',
+    chatId: conv.chatId,
+    timestamp: scheduler.now(),
+    texts: texts.slice(0, count),
+    reason: reply.reason,
+    generation: reply.generation,
+    isFinal
+  })
+
+  for (let i = 0; i < texts.length; i++) {
+    // Take as long as typing it would
+    const delayMs = planTextDelay(texts[i], i, config.replyTiming)
+    if (delayMs > 0) {
+      await scheduler.sleep(delayMs)
+    }
+
+    // The user texted this friend themselves in the meantime, so the rest is theirs to say
+    if (!tracker.getConversation(conv.chatId)?.isAgentActive) {
+      if (config.debug) {
+        console.log(`[AgentCore] ✋ You jumped in with ${conv.friendName}, dropping ${texts.length - i} unsent text(s)`)
+      }
+      if (i > 0) {
+        recordSent(i)
+      }
+      return
+    }
+
+    // The friend texted again before the first text went out; answer everything together instead.
+    // Once part of a burst is out it gets finished, since stopping halfway reads worse.
+    if (i === 0 && signal?.aborted) {
+      return
+    }
+
+    if (config.debug) {
+      console.log(`[AgentCore] 📤 Sending${texts.length > 1 ? ` (${i + 1}/${texts.length})` : ''}: "${texts[i]}"`)
+    }
+
+    // Send message to friend
+    pendingEchoes.push({ chatId: conv.chatId, text: texts[i].trim() })
+    if (pendingEchoes.length > MAX_RECENT_NOTICES) {
+      pendingEchoes.shift()
+    }
+    await sdk.send(conv.chatId, texts[i])
+  }
+
+  recordSent(texts.length)
 
   // Update tracker
   tracker.incrementMessageCount(conv.chatId)
 
-  // Check if this was the last message (hit limit)
+  // Check if this was the last message (hit limit, or the model wrapped up)
   const updatedConv = tracker.getConversation(conv.chatId)
-  if (updatedConv && updatedConv.messagesSent >= config.maxMessagesToSend) {
+  if (isFinal || (updatedConv && updatedConv.messagesSent >= resolveContactPolicy(updatedConv, config).maxMessagesToSend)) {
     if (config.debug) {
-      console.log('[AgentCore] ✅ Reached message limit, deactivating agent')
+      console.log(`[AgentCore] ✅ ${isFinal ? 'Conversation wrapped up' : 'Reached message limit'}, deactivating agent`)
     }
-    tracker.markAgentInactive(conv.chatId)
+    tracker.markAgentInactive(conv.chatId, isFinal ? 'sent the last message' : 'reached the message limit')
   } else {
     if (config.debug) {
       console.log(`[AgentCore] ⏳ Waiting for ${conv.friendName}'s response (event-driven)...`)
@@ -242,16 +659,114 @@ Respond with ONLY the message text you want to send - no explanations, no quotes
   }
 }
 
+/**
+ * Review mode: hold the reply and ask the user to send, edit or skip it
+ */
+async function proposeDraft(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  reply: OutgoingReply,
+  config: AgentConfig
+): Promise<void> {
+  // "stop Sam" or a hand-back while this was generating ends the session; there's nothing to review
+  if (!tracker.getConversation(conv.chatId)?.isAgentActive) {
+    if (config.debug) {
+      console.log(`[AgentCore] Session with ${conv.friendName} ended, dropping draft`)
+    }
+    return
+  }
+
+  const handle = tracker.setPendingDraft(conv.chatId, reply.texts, reply.isFinal, reply.generation)
+
+  await notifyUser(
+    sdk,
+    config,
+    `[${handle}] Send to ${conv.friendName}: '${reply.texts.join(' / ')}' — reply send/edit/skip`
+  )
+
+  if (config.debug) {
+    console.log(`[AgentCore] 📝 Proposed draft for ${conv.friendName}`)
+  }
+}
+
+/**
+ * Act on the user's decision about a drafted reply (review mode)
+ */
+export async function handleDraftResponse(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  replyQueue: ReplyQueue,
+  conv: ConversationState,
+  response: DraftResponse,
+  config: AgentConfig,
+  scheduler: Scheduler = systemScheduler
+): Promise<void> {
+  const draft = conv.pendingDraft
+  if (!draft) {
+    return
+  }
+
+  switch (response.action) {
+    case 'send':
+      tracker.clearPendingDraft(conv.chatId)
+      await deliverReply(sdk, tracker, conv, {
+        texts: draft.texts,
+        isFinal: draft.isFinal,
+        reason: 'you approved the draft',
+        generation: draft.generation
+      }, config, scheduler)
+      break
+
+    case 'edit':
+      // The user wrote this text themselves, so it skips the style and policy checks
+      tracker.clearPendingDraft(conv.chatId)
+      await deliverReply(sdk, tracker, conv, {
+        texts: [response.text],
+        isFinal: draft.isFinal,
+        reason: 'you rewrote the draft',
+        generation: null
+      }, config, scheduler)
+      break
+
+    case 'regenerate':
+      tracker.clearPendingDraft(conv.chatId)
+      queueActivation(replyQueue, sdk, tracker, conv, config, false, scheduler)
+      break
+
+    case 'skip':
+      tracker.clearPendingDraft(conv.chatId)
+      if (config.debug) {
+        console.log(`[AgentCore] ⏭️  User skipped draft for ${conv.friendName}`)
+      }
+      break
+
+    case 'unclear':
+      await notifyUser(
+        sdk,
+        config,
+        `Not sure what to do with the draft for ${conv.friendName} - reply "send", "edit: <your text>", "regenerate" or "skip"`
+      )
+      break
+  }
+}
+
 /**
  * Send a natural wind-down message
+ * @param reason Why the agent is wrapping up
+ * @returns true if the message was proposed as a draft (review mode) rather than sent
  */
 async function sendWindDownMessage(
-  sdk: IMessageSDK,
+  sdk: MessagingTransport,
   tracker: ConversationTracker,
   conv: ConversationState,
   userMessages: Message[],
-  config: AgentConfig
-): Promise<void> {
+  styleProfile: StyleProfile,
+  config: AgentConfig,
+  scheduler: Scheduler,
+  reason: string,
+  signal?: AbortSignal
+): Promise<boolean> {
   try {
     const userMessagesForStyle = userMessages.map(m => ({
       text: m.text || '',
@@ -259,10 +774,13 @@ async function sendWindDownMessage(
     }))
 
     const windDownPrompt = `
-Based on these sample messages showing your texting style:
+Your texting style ${describeProfileScope(styleProfile, conv.friendName)}:
+${styleProfile.styleGuide}
+
+Sample messages showing your texting style:
 ${userMessagesForStyle.slice(-10).map(m => m.text).join('\n')}
 
-Generate ONE brief, natural exit message to end the conversation with ${conv.friendName}.
+Generate ONE brief, natural exit message to ${conv.isGroup ? `step away from the group chat "${conv.friendName}"` : `end the conversation with ${conv.friendName}`}.
 Match your style exactly - same length, tone, capitalization, and punctuation patterns.
 
 Examples (adjust to YOUR style):
@@ -270,48 +788,218 @@ Examples (adjust to YOUR style):
 - If casual: "gotta run but talk soon!"
 - If proper: "I need to go, but let's chat later!"
 
-Respond with ONLY the exit message - no explanations, no quotes.
+Put the exit message in a single entry of "messages" and set "shouldContinue" to false.
+
+${MESSAGE_GENERATION_FORMAT}
 `
 
-    const response = await relationshipAgent.generate(windDownPrompt)
-    let windDownText = response.text?.trim() || 'gotta go, talk later!'
+    const trace = traceGeneration('windDown', config)
+    const result = await generateStructured(relationshipAgent, windDownPrompt, messageGenerationSchema, {
+      retries: config.schemaRetryBudget,
+      runtimeContext: taskContext('windDown'),
+      abortSignal: signal,
+      onAttempt: trace.onAttempt
+    })
+
+    if (signal?.aborted) {
+      return false
+    }
 
-    // Clean up response
-    windDownText = cleanupAgentResponse(windDownText)
+    // Nudge it toward the user's casing/punctuation
+    const windDownText = normalizeToStyle(result?.messages.join(' ') ?? '', styleProfile) || 'gotta go, talk later!'
+
+    if (!(await passesSafetyPolicy(sdk, tracker, conv, windDownText, config))) {
+      return false
+    }
 
     if (config.debug) {
       console.log(`[AgentCore] 👋 Wind-down: "${windDownText}"`)
     }
 
-    await sdk.send(conv.chatId, windDownText)
+    await dispatchReply(sdk, tracker, conv, {
+      texts: [windDownText],
+      isFinal: true,
+      reason,
+      generation: result ? trace.record : null
+    }, config, scheduler, signal)
+    return config.approvalMode === 'review'
 
   } catch (error) {
-    console.error('[AgentCore] Error sending wind-down message:', error)
+    if (!signal?.aborted) {
+      console.error('[AgentCore] Error sending wind-down message:', error)
+    }
+    return false
   }
 }
 
 /**
- * Clean up agent response (remove quotes, explanations, etc.)
+ * Check a draft against the safety rules. On a hit, the draft is not sent,
+ * the agent is deactivated and the user is told why.
+ * @returns true if the draft may be sent
  */
-function cleanupAgentResponse(text: string): string {
-  let cleaned = text.trim()
+async function passesSafetyPolicy(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  conv: ConversationState,
+  draft: string,
+  config: AgentConfig
+): Promise<boolean> {
+  const verdict = checkOutgoingDraft(draft, config.safetyRules)
+  if (verdict.allowed) {
+    return true
+  }
+
+  const reason = describeViolations(verdict)
+  console.warn(`[AgentCore] 🛑 Blocked draft to ${conv.friendName}: ${reason}`)
 
-  // Remove surrounding quotes
-  if ((cleaned.startsWith('"') && cleaned.endsWith('"')) ||
-      (cleaned.startsWith("'") && cleaned.endsWith("'"))) {
-    cleaned = cleaned.slice(1, -1)
+  tracker.markAgentInactive(conv.chatId, `safety policy: draft ${reason}`, draft)
+
+  try {
+    await notifyUser(
+      sdk,
+      config,
+      `🛑 I stopped replying to ${conv.friendName} - my draft ${reason}. You should take it from here.\n\nDraft: "${draft}"`
+    )
+  } catch (notifyError) {
+    console.error('[AgentCore] Error sending safety notification:', notifyError)
   }
 
-  // Remove "Here's my response:" type prefixes
-  const prefixes = [
-    /^here'?s? (my|the|a) (message|response|reply):?\s*/i,
-    /^(message|response|reply):?\s*/i,
-    /^i would (say|respond|text):?\s*/i
-  ]
+  return false
+}
+
+/**
+ * Generate a reply and check it against the style profile before sending.
+ * Off-style candidates are auto-normalized when possible, otherwise
+ * regenerated with feedback, up to config.styleRetryBudget retries.
+ * Replies the model wants to escalate (or isn't confident in) skip the
+ * style check - they won't be sent anyway.
+ * @returns The reply with its texts split into a burst, or null if no candidate passed
+ */
+async function generateConformingReply(
+  context: string,
+  styleProfile: StyleProfile,
+  config: AgentConfig,
+  signal?: AbortSignal
+): Promise<ConformingReply | null> {
+  let feedback = ''
+  const trace = traceGeneration('reply', config)
+
+  for (let attempt = 0; attempt <= config.styleRetryBudget; attempt++) {
+    const result = await generateStructured(relationshipAgent, context + feedback, messageGenerationSchema, {
+      retries: config.schemaRetryBudget,
+      runtimeContext: taskContext('reply'),
+      abortSignal: signal,
+      onAttempt: trace.onAttempt
+    })
+
+    if (!result) {
+      console.error('[AgentCore] Agent never returned a valid reply')
+      return null
+    }
+
+    if (result.escalate || result.confidence < config.minReplyConfidence) {
+      return { ...result, generation: trace.record }
+    }
+
+    let texts = splitIntoBurst(result.messages, styleProfile)
+    let conformance = scoreBurstConformance(texts, styleProfile)
+
+    // Cheap fixes first: casing, trailing periods, stray emoji, em-dashes
+    if (!conformance.passed && !conformance.requiresRegeneration) {
+      const normalized = texts
+        .map(text => normalizeToStyle(text, styleProfile))
+        .filter(text => text.length > 0)
+
+      if (normalized.length > 0) {
+        texts = normalized
+        conformance = scoreBurstConformance(texts, styleProfile)
+      }
+    }
 
-  for (const prefix of prefixes) {
-    cleaned = cleaned.replace(prefix, '')
+    // Kept on the generation so every sent reply's score reaches the audit log
+    trace.record.style = { score: conformance.score, violations: conformance.violations }
+
+    if (config.debug) {
+      console.log(
+        `[AgentCore] Style score ${conformance.score.toFixed(2)} ` +
+        `(attempt ${attempt + 1}/${config.styleRetryBudget + 1})` +
+        (conformance.violations.length > 0 ? `: ${conformance.violations.join('; ')}` : '')
+      )
+    }
+
+    if (conformance.passed) {
+      return { ...result, messages: texts, generation: trace.record }
+    }
+
+    feedback = `
+
+Your previous draft didn't sound like you (${conformance.violations.join('; ')}):
+${texts.join('\n')}
+Write a new reply that fixes this.`
+  }
+
+  return null
+}
+
+/**
+ * Collect a generation's calls for the audit log; the record ends up
+ * holding the last attempt, which is the one that was used
+ */
+function traceGeneration(task: LlmTask, config: AgentConfig) {
+  const record: GenerationRecord = {
+    task,
+    model: describeModelSpec(config.llm.models[task]),
+    prompt: '',
+    rawOutput: '',
+    attempts: 0
+  }
+
+  return {
+    record,
+    onAttempt: (prompt: string, output: string) => {
+      record.prompt = prompt
+      record.rawOutput = output
+      record.attempts++
+    }
+  }
+}
+
+/**
+ * Fit a reply's texts to the user's burst habits.
+ * Users who send one text per turn get the texts joined back together.
+ */
+function splitIntoBurst(messages: string[], profile: StyleProfile): string[] {
+  const lines = messages
+    .flatMap(message => message.split('\n'))
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+
+  if (lines.length <= 1 || profile.typicalBurstSize <= 1) {
+    return [lines.join(' ')]
+  }
+
+  const maxParts = maxBurstSize(profile)
+  if (lines.length <= maxParts) {
+    return lines
   }
 
-  return cleaned.trim()
+  // Fold any extra lines into the last text
+  return [...lines.slice(0, maxParts - 1), lines.slice(maxParts - 1).join(' ')]
+}
+
+/**
+ * Largest burst the user has actually sent (at least their typical size)
+ */
+function maxBurstSize(profile: StyleProfile): number {
+  const observed = Object.keys(profile.burstDistribution).map(Number)
+  return Math.max(profile.typicalBurstSize, ...observed)
+}
+
+/**
+ * Describe which chats a style profile was learned from (for the prompt)
+ */
+function describeProfileScope(profile: StyleProfile, friendName: string): string {
+  return profile.scope === GLOBAL_STYLE_SCOPE
+    ? 'across all your chats'
+    : `with ${friendName}`
 }
@@ -1,25 +1,43 @@
 /**
  * Approval Parser - Determines if user message is approval or denial
+ *
+ * Replies are tokenized and matched against keyword phrases on word
+ * boundaries (so "k" no longer matches "kinda"), with negation ("don't take
+ * over"), hedges ("not sure") and conflicting signals ("ok no") handled
+ * explicitly. Low-confidence results can be handed to an LLM fallback.
  */
 
-const APPROVAL_KEYWORDS = [
+import type { ApprovalDecision, DraftResponse, IntentResult, UserIntent } from '../types/index.js'
+
+export const DEFAULT_APPROVAL_KEYWORDS = [
   'take over',
   'yes',
   'yeah',
   'yep',
   'sure',
+  'absolutely',
+  'definitely',
   'ok',
   'okay',
   'do it',
   'go ahead',
+  'go for it',
   'please',
+  'yes please',
   'yea',
   'ye',
   'ya',
-  'k'
+  'k',
+  'why not',
+  'no problem',
+  'no worries',
+  '👍',
+  '👌',
+  '✅',
+  '🙏'
 ]
 
-const DENIAL_KEYWORDS = [
+export const DEFAULT_DENIAL_KEYWORDS = [
   'no',
   'nope',
   "don't",
@@ -27,40 +45,383 @@ const DENIAL_KEYWORDS = [
   'cancel',
   'nevermind',
   'never mind',
+  'nvm',
   'nah',
+  'never',
   'stop',
   'not now',
-  'later'
+  'not yet',
+  'later',
+  "i'll handle it",
+  "i've got it",
+  '👎',
+  '❌',
+  '🙅'
 ]
 
+/** Phrases that mean the user hasn't decided - they override any keyword */
+const HEDGE_PHRASES = ['not sure', 'unsure', 'maybe', 'idk', "i don't know", 'i dont know', 'hmm', 'let me think']
+
+/** Words that flip an approval that follows shortly after them */
+const NEGATORS = new Set(['not', 'never', "don't", 'dont', "didn't", 'didnt', "won't", 'wont'])
+
+/** Words after which the user's later signal replaces the earlier one ("no wait, yes") */
+const CORRECTION_MARKERS = new Set(['actually', 'wait', 'jk'])
+
+/** How far back (in tokens) a negator reaches */
+const NEGATION_WINDOW = 2
+
+/** Results below this are handed to the LLM fallback when one is configured */
+export const MIN_INTENT_CONFIDENCE = 0.6
+
+/**
+ * Keyword lists the parser matches against
+ */
+export interface IntentKeywords {
+  approval: string[]
+  denial: string[]
+}
+
+/**
+ * Classifies a reply the keyword parser couldn't settle (see agent/intent-classifier)
+ */
+export type IntentFallback = (messageText: string) => Promise<IntentResult>
+
+const DEFAULT_KEYWORDS: IntentKeywords = {
+  approval: DEFAULT_APPROVAL_KEYWORDS,
+  denial: DEFAULT_DENIAL_KEYWORDS
+}
+
+interface PhraseMatch {
+  kind: 'approve' | 'deny' | 'hedge'
+  start: number
+  end: number
+}
+
+/**
+ * Split text into lowercase word and emoji tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .match(/[a-z0-9']+|\p{Extended_Pictographic}/gu) ?? []
+}
+
+/**
+ * Find keyword phrases in the token stream, longest match first so
+ * "no worries" wins over "no" and "not sure" over "sure"
+ */
+function matchPhrases(tokens: string[], keywords: IntentKeywords): PhraseMatch[] {
+  const phrases = [
+    ...keywords.approval.map(k => ({ kind: 'approve' as const, tokens: tokenize(k) })),
+    ...keywords.denial.map(k => ({ kind: 'deny' as const, tokens: tokenize(k) })),
+    ...HEDGE_PHRASES.map(k => ({ kind: 'hedge' as const, tokens: tokenize(k) }))
+  ]
+    .filter(p => p.tokens.length > 0)
+    .sort((a, b) => b.tokens.length - a.tokens.length)
+
+  const matches: PhraseMatch[] = []
+  let i = 0
+  while (i < tokens.length) {
+    const phrase = phrases.find(p => p.tokens.every((t, j) => tokens[i + j] === t))
+    if (phrase) {
+      matches.push({ kind: phrase.kind, start: i, end: i + phrase.tokens.length })
+      i += phrase.tokens.length
+    } else {
+      i++
+    }
+  }
+
+  return matches
+}
+
+/**
+ * Whether a negator sits just before the given token position
+ */
+function isNegated(tokens: string[], start: number): boolean {
+  for (let i = Math.max(0, start - NEGATION_WINDOW); i < start; i++) {
+    if (NEGATORS.has(tokens[i])) {
+      return true
+    }
+  }
+  return false
+}
+
+/**
+ * Parse a reply into an intent with a confidence score
+ *
+ * Precedence: a hedge makes the reply unclear; a negated approval counts as
+ * a denial; when approval and denial both appear, the signal after a
+ * correction marker ("actually", "wait") wins, otherwise denial wins since
+ * not taking over is the safe default - confidently when the reply ends on
+ * it ("ok no", "please don't"), for the fallback to check when it doesn't.
+ */
+export function parseUserIntent(messageText: string, keywords: IntentKeywords = DEFAULT_KEYWORDS): IntentResult {
+  const tokens = tokenize(messageText)
+  const matches = matchPhrases(tokens, keywords)
+
+  const signals = matches.map(m => ({
+    ...m,
+    kind: m.kind === 'approve' && isNegated(tokens, m.start) ? 'deny' as const : m.kind
+  }))
+
+  if (signals.length === 0) {
+    return { intent: 'unclear', confidence: 0, source: 'keywords' }
+  }
+
+  if (signals.some(s => s.kind === 'hedge')) {
+    return { intent: 'unclear', confidence: 0.3, source: 'keywords' }
+  }
+
+  const kinds = new Set(signals.map(s => s.kind))
+  if (kinds.size > 1) {
+    const correction = tokens.findIndex(t => CORRECTION_MARKERS.has(t))
+    const afterCorrection = signals.filter(s => correction >= 0 && s.start > correction)
+    if (afterCorrection.length > 0) {
+      return { intent: afterCorrection[afterCorrection.length - 1].kind as UserIntent, confidence: 0.7, source: 'keywords' }
+    }
+    const endsOnDenial = signals[signals.length - 1].kind === 'deny'
+    return { intent: 'deny', confidence: endsOnDenial ? 0.7 : 0.5, source: 'keywords' }
+  }
+
+  // The more of the reply the keywords explain, the surer we are
+  // (handles like "2" don't count against it)
+  const meaningful = tokens.filter(t => !/^\d+$/.test(t)).length
+  const covered = signals.reduce((sum, s) => sum + (s.end - s.start), 0)
+  const coverage = meaningful > 0 ? Math.min(1, covered / meaningful) : 1
+  const confidence = Math.round((0.6 + 0.4 * coverage) * 100) / 100
+
+  return { intent: signals[0].kind as UserIntent, confidence, source: 'keywords' }
+}
+
+/**
+ * Parse a reply, asking the fallback classifier when keywords can't settle it
+ */
+export async function resolveUserIntent(
+  messageText: string,
+  keywords: IntentKeywords = DEFAULT_KEYWORDS,
+  fallback?: IntentFallback
+): Promise<IntentResult> {
+  const result = parseUserIntent(messageText, keywords)
+  if (!fallback || (result.intent !== 'unclear' && result.confidence >= MIN_INTENT_CONFIDENCE)) {
+    return result
+  }
+
+  try {
+    const llmResult = await fallback(messageText)
+    return llmResult.intent === 'unclear' ? result : llmResult
+  } catch (error) {
+    console.error('[ApprovalParser] Intent fallback failed:', error)
+    return result
+  }
+}
+
+/**
+ * Read a comma-separated keyword list from config, falling back to the defaults
+ */
+export function parseKeywordList(value: string | undefined, defaults: string[]): string[] {
+  const keywords = (value || '').split(',').map(k => k.trim()).filter(Boolean)
+  return keywords.length > 0 ? keywords : defaults
+}
+
 /**
  * Check if a message text indicates user approval
  */
-export function isApproval(messageText: string): boolean {
-  const normalized = messageText.toLowerCase().trim()
-  return APPROVAL_KEYWORDS.some(keyword => normalized.includes(keyword))
+export function isApproval(messageText: string, keywords?: IntentKeywords): boolean {
+  return parseUserIntent(messageText, keywords).intent === 'approve'
 }
 
 /**
  * Check if a message text indicates user denial
  */
-export function isDenial(messageText: string): boolean {
-  const normalized = messageText.toLowerCase().trim()
-  return DENIAL_KEYWORDS.some(keyword => normalized.includes(keyword))
+export function isDenial(messageText: string, keywords?: IntentKeywords): boolean {
+  return parseUserIntent(messageText, keywords).intent === 'deny'
 }
 
 /**
  * Parse user response to determine intent
  * Returns: 'approve' | 'deny' | 'unclear'
  */
-export function parseUserResponse(messageText: string): 'approve' | 'deny' | 'unclear' {
-  if (isApproval(messageText)) {
-    return 'approve'
+export function parseUserResponse(messageText: string, keywords?: IntentKeywords): UserIntent {
+  return parseUserIntent(messageText, keywords).intent
+}
+
+/**
+ * A takeover prompt the user might be answering
+ */
+export interface PendingPrompt {
+  handle: number
+  friendName: string
+}
+
+/**
+ * Parse the user's answer to one or more pending takeover prompts
+ *
+ * Understands "yes 2", "[2]", "take over Sam", "no to all", and bare
+ * yes/no when exactly one prompt is pending.
+ * @param parsed Intent already resolved by resolveUserIntent (parsed with default keywords if omitted)
+ */
+export function parseApprovalResponse(
+  messageText: string,
+  pending: PendingPrompt[],
+  parsed: IntentResult = parseUserIntent(messageText)
+): ApprovalDecision {
+  const { intent, confidence } = parsed
+  if (intent === 'unclear' || pending.length === 0) {
+    return { intent, confidence, targets: [], ambiguous: false }
+  }
+
+  const targets = findPromptTargets(messageText, pending)
+  if (targets.length > 0) {
+    return { intent, confidence, targets, ambiguous: false }
+  }
+
+  // Bare yes/no only works when there's nothing to confuse it with
+  if (pending.length === 1) {
+    return { intent, confidence, targets: [pending[0].handle], ambiguous: false }
+  }
+
+  return { intent, confidence, targets: [], ambiguous: true }
+}
+
+/**
+ * The prompts a reply names outright: "all"/"both", a handle ("yes 2", "[2]")
+ * or a friend's name ("take over Sam"). Empty for a bare yes/no.
+ */
+export function findPromptTargets(messageText: string, pending: PendingPrompt[]): number[] {
+  const normalized = messageText.toLowerCase()
+
+  if (/\b(all|both|everyone|every one)\b/.test(normalized)) {
+    return pending.map(p => p.handle)
+  }
+
+  const numbers = Array.from(normalized.matchAll(/(?:^|[\s\[#(])(\d{1,2})(?=$|[\s\]).,!])/g)).map(m => parseInt(m[1]))
+  const byHandle = pending.filter(p => numbers.includes(p.handle))
+  if (byHandle.length > 0) {
+    return byHandle.map(p => p.handle)
   }
 
-  if (isDenial(messageText)) {
-    return 'deny'
+  return pending.filter(p => mentionsName(normalized, p.friendName)).map(p => p.handle)
+}
+
+/**
+ * Whether a message mentions a friend by full or first name
+ */
+function mentionsName(normalizedText: string, friendName: string): boolean {
+  const name = friendName.toLowerCase().trim()
+  if (!name || name === 'your friend') {
+    return false
+  }
+
+  const candidates = [name, name.split(/\s+/)[0]]
+  return candidates.some(candidate => {
+    const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    return new RegExp(`\\b${escaped}\\b`).test(normalizedText)
+  })
+}
+
+/**
+ * Parse the user's reply to a drafted message (review mode)
+ *
+ * Supports: "send" (as-is), "edit: <new text>" (send the edited text),
+ * "regenerate"/"again" (draft a new reply) and "skip" (send nothing)
+ */
+export function parseDraftResponse(messageText: string): DraftResponse {
+  const trimmed = messageText.trim()
+
+  const edit = trimmed.match(/^edit\s*[:\-]?\s+([\s\S]+)$/i) || trimmed.match(/^edit:([\s\S]+)$/i)
+  if (edit && edit[1].trim()) {
+    return { action: 'edit', text: edit[1].trim() }
+  }
+
+  const normalized = trimmed.toLowerCase().replace(/[.!]+$/, '')
+
+  if (/^(send( it)?|yes|yep|yeah|ok|okay|k|go|lgtm|👍)$/.test(normalized)) {
+    return { action: 'send' }
+  }
+
+  if (/^(regen(erate)?|again|retry|try again|another|redo|new one)$/.test(normalized)) {
+    return { action: 'regenerate' }
+  }
+
+  if (/^(skip|no|nope|nah|cancel|don'?t send|dont send|👎)$/.test(normalized)) {
+    return { action: 'skip' }
+  }
+
+  return { action: 'unclear' }
+}
+
+/**
+ * Whether a reply can only be about a draft ("send", "edit: ...", "skip"),
+ * rather than a yes/no that could just as well answer a takeover prompt
+ */
+export function isDraftOnlyResponse(messageText: string, keywords: IntentKeywords = DEFAULT_KEYWORDS): boolean {
+  const response = parseDraftResponse(messageText)
+  if (response.action === 'unclear') {
+    return false
+  }
+
+  return response.action === 'edit' ||
+    /\b(send|skip|regen(erate)?|again|retry|redo|another|new one|lgtm)\b/i.test(messageText) ||
+    parseUserIntent(messageText, keywords).intent === 'unclear'
+}
+
+/**
+ * A reply to drafts in review mode, with the drafts it names
+ */
+export interface DraftReply {
+  response: DraftResponse
+
+  /** Draft handles the reply names ("send 2", "skip Sam"); empty for a bare "send" */
+  targets: number[]
+}
+
+/**
+ * Parse a reply when drafts may be waiting in several chats: "send 2",
+ * "skip Sam", "edit 2: on my way", or the bare forms parseDraftResponse reads
+ */
+export function parseDraftReply(messageText: string, pending: PendingPrompt[]): DraftReply {
+  const trimmed = messageText.trim()
+
+  // "edit 2: <text>" names a draft only when everything before the colon is a handle or name
+  const edit = trimmed.match(/^edit\s+([^:]+?)\s*:\s*([\s\S]+)$/i)
+  if (edit) {
+    const targets = findPromptTargets(edit[1], pending)
+    if (targets.length > 0 && stripTargets(edit[1], pending) === '') {
+      return { response: { action: 'edit', text: edit[2].trim() }, targets }
+    }
+  }
+
+  const response = parseDraftResponse(trimmed)
+  const targets = response.action === 'unclear' ? findPromptTargets(trimmed, pending) : []
+  if (targets.length === 0) {
+    return { response, targets }
+  }
+
+  return { response: parseDraftResponse(stripTargets(trimmed, pending)), targets }
+}
+
+/**
+ * What's left of a reply once handles, names and "all" are taken out ("send to Sam" -> "send")
+ */
+function stripTargets(messageText: string, pending: PendingPrompt[]): string {
+  let remaining = messageText
+    .toLowerCase()
+    .replace(/(?:^|[\s\[#(])\d{1,2}[\])]?(?=$|[\s.,!])/g, ' ')
+    .replace(/\b(all|both|everyone|every one)\b/g, ' ')
+
+  for (const { friendName } of pending) {
+    const name = friendName.toLowerCase().trim()
+    for (const candidate of [name, name.split(/\s+/)[0]]) {
+      const escaped = candidate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      remaining = remaining.replace(new RegExp(`\\b${escaped}\\b`, 'g'), ' ')
+    }
   }
 
-  return 'unclear'
+  return remaining
+    .replace(/,/g, ' ')
+    .replace(/\b(to|for)\s*$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
 }
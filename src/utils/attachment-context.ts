@@ -0,0 +1,199 @@
+/**
+ * Attachment Context - Turns photos, voice notes and links into text for prompts
+ *
+ * Every attachment gets at least a plain description from its metadata
+ * ("[photo, 2.1 MB]", "[voice note, 48 KB]"). When configured, photos are captioned
+ * by the caption model, audio is transcribed by a hook, and links are titled
+ * from the local page cache. Descriptions are cached per attachment, so a
+ * photo is only captioned once however many replies it stays in context.
+ */
+
+import { execFile } from 'node:child_process'
+import { promisify } from 'node:util'
+import {
+  attachmentExists,
+  getAttachmentExtension,
+  isAudioAttachment,
+  isImageAttachment,
+  isVideoAttachment,
+  type Attachment,
+  type Message
+} from '@photon-ai/imessage-kit'
+import type { AttachmentConfig } from '../types/index.js'
+import { captionImage } from '../agent/image-captioner.js'
+import { extractUrls, readLinkPreview, describeLinkPreview } from './link-preview.js'
+
+const execFileAsync = promisify(execFile)
+
+/** Longest a transcription command may run */
+const TRANSCRIBE_TIMEOUT_MS = 60000
+
+/** Longest transcript kept in a prompt */
+const MAX_TRANSCRIPT_LENGTH = 500
+
+/**
+ * Turns an audio attachment into text
+ * @returns The transcript, or null if there's nothing usable
+ */
+export type AudioTranscriber = (attachment: Attachment) => Promise<string | null>
+
+/** Transcriber set in code, which takes precedence over TRANSCRIBE_COMMAND */
+let audioTranscriber: AudioTranscriber | null = null
+
+/** Descriptions by attachment id */
+const descriptions = new Map<string, string>()
+
+/** Most descriptions kept, least recently used dropped first */
+const MAX_CACHED_DESCRIPTIONS = 500
+
+/**
+ * Plug in a transcriber (e.g. a speech-to-text API client); null goes back to TRANSCRIBE_COMMAND
+ */
+export function setAudioTranscriber(transcriber: AudioTranscriber | null): void {
+  audioTranscriber = transcriber
+  descriptions.clear()
+}
+
+/**
+ * Describe the messages that have attachments or links
+ * @returns Full text for those messages by guid (plain text messages are left out)
+ */
+export async function describeMessages(messages: Message[], config: AttachmentConfig): Promise<Map<string, string>> {
+  const described = new Map<string, string>()
+
+  for (const message of messages) {
+    if (message.attachments.length > 0 || extractUrls(message.text || '').length > 0) {
+      described.set(message.guid, await describeMessageContent(message, config))
+    }
+  }
+
+  return described
+}
+
+/**
+ * A message's text with its attachments and links described inline,
+ * e.g. 'look at this [photo: a dog asleep on a couch]'
+ */
+export async function describeMessageContent(message: Message, config: AttachmentConfig): Promise<string> {
+  // iMessage puts an object replacement character where each attachment sits in the text
+  const text = (message.text || '').replace(/\uFFFC/g, '').trim()
+  const parts = text ? [text] : []
+
+  for (const url of extractUrls(text)) {
+    const preview = config.linkPreviewCacheDir ? await readLinkPreview(url, config.linkPreviewCacheDir) : null
+    parts.push(preview ? `[link: ${describeLinkPreview(preview)}]` : `[link to ${hostname(url)}]`)
+  }
+
+  for (const attachment of message.attachments) {
+    const description = await describeAttachment(attachment, config)
+    if (description) {
+      parts.push(description)
+    }
+  }
+
+  return parts.join(' ') || '(empty message)'
+}
+
+/**
+ * Describe one attachment
+ * @returns The description, or null for link preview payloads (the link itself is in the text)
+ */
+async function describeAttachment(attachment: Attachment, config: AttachmentConfig): Promise<string | null> {
+  if (attachment.filename.endsWith('.pluginPayloadAttachment')) {
+    return null
+  }
+
+  const cached = descriptions.get(attachment.id)
+  if (cached) {
+    // Move it to the back of the eviction order
+    descriptions.delete(attachment.id)
+    descriptions.set(attachment.id, cached)
+    return cached
+  }
+
+  const kind = attachmentKind(attachment)
+  let detail: string | null = null
+
+  // A file still downloading gets the plain description for now, and another try next time
+  const exists = await attachmentExists(attachment)
+  if (exists) {
+    try {
+      if (kind === 'photo' && config.captions) {
+        detail = await captionImage(attachment)
+      } else if (kind === 'voice note') {
+        detail = await transcribe(attachment, config)
+      }
+    } catch (error) {
+      console.error(`[Attachments] Could not describe ${attachment.filename}:`, error)
+    }
+  }
+
+  const description = detail
+    ? `[${kind}: ${kind === 'voice note' ? `"${detail}"` : detail}]`
+    : `[${kind}${kind === 'file' ? ` ${attachment.filename}` : ''}, ${formatBytes(attachment.size)}]`
+
+  if (exists) {
+    descriptions.set(attachment.id, description)
+    if (descriptions.size > MAX_CACHED_DESCRIPTIONS) {
+      descriptions.delete(descriptions.keys().next().value!)
+    }
+  }
+  return description
+}
+
+function attachmentKind(attachment: Attachment): 'photo' | 'video' | 'voice note' | 'file' {
+  const mimeType = attachment.mimeType.toLowerCase()
+
+  if (isImageAttachment(attachment) || mimeType.startsWith('image/')) {
+    return 'photo'
+  }
+  if (isVideoAttachment(attachment) || mimeType.startsWith('video/')) {
+    return 'video'
+  }
+  // Voice notes recorded in Messages are .caf files, which the SDK doesn't list as audio
+  if (isAudioAttachment(attachment) || mimeType.startsWith('audio/') || getAttachmentExtension(attachment) === 'caf') {
+    return 'voice note'
+  }
+  return 'file'
+}
+
+/**
+ * Transcribe with the plugged-in transcriber, else TRANSCRIBE_COMMAND
+ */
+async function transcribe(attachment: Attachment, config: AttachmentConfig): Promise<string | null> {
+  let transcript: string | null = null
+
+  if (audioTranscriber) {
+    transcript = await audioTranscriber(attachment)
+  } else if (config.transcribeCommand) {
+    // Split before substituting, so a path with spaces stays one argument
+    const [command, ...args] = config.transcribeCommand.trim().split(/\s+/)
+    const { stdout } = await execFileAsync(
+      command,
+      args.map(arg => arg.replaceAll('{file}', attachment.path)),
+      { timeout: TRANSCRIBE_TIMEOUT_MS }
+    )
+    transcript = stdout
+  }
+
+  const cleaned = transcript?.replace(/\s+/g, ' ').trim()
+  if (!cleaned) {
+    return null
+  }
+  return cleaned.length > MAX_TRANSCRIPT_LENGTH ? `${cleaned.slice(0, MAX_TRANSCRIPT_LENGTH - 1)}…` : cleaned
+}
+
+function hostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return 'a website'
+  }
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  }
+  return `${Math.max(1, Math.round(bytes / 1024))} KB`
+}
@@ -0,0 +1,202 @@
+/**
+ * Clock - Source of the current time, and timers that run against it
+ *
+ * Time-dependent logic takes a Clock (or a Scheduler, when it also needs to
+ * wait) instead of calling Date.now()/setTimeout directly. Production uses
+ * systemScheduler; tests use VirtualScheduler to play an hour-long
+ * conversation through the 2-minute/5-minute/1-hour windows in milliseconds.
+ */
+
+export interface Clock {
+  now(): Date
+}
+
+/**
+ * A pending timer that can be cancelled
+ */
+export interface TimerHandle {
+  cancel(): void
+}
+
+/**
+ * A clock that can also run callbacks later
+ */
+export interface Scheduler extends Clock {
+  setTimeout(callback: () => void | Promise<void>, delayMs: number): TimerHandle
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): TimerHandle
+
+  /** Resolve after delayMs */
+  sleep(delayMs: number): Promise<void>
+}
+
+/**
+ * Real time, backed by the Node timers
+ */
+export const systemScheduler: Scheduler = {
+  now: () => new Date(),
+
+  setTimeout(callback, delayMs) {
+    const id = setTimeout(callback, delayMs)
+    return { cancel: () => clearTimeout(id) }
+  },
+
+  setInterval(callback, intervalMs) {
+    const id = setInterval(callback, intervalMs)
+    return { cancel: () => clearInterval(id) }
+  },
+
+  sleep: delayMs => new Promise(resolve => setTimeout(resolve, delayMs))
+}
+
+/**
+ * The real wall clock
+ */
+export const systemClock: Clock = systemScheduler
+
+/**
+ * A clock stuck at a fixed time (for tests and one-off evaluations)
+ */
+export function fixedClock(time: Date): Clock {
+  return { now: () => new Date(time.getTime()) }
+}
+
+interface VirtualTimer {
+  id: number
+  dueAt: number
+  intervalMs: number | null
+  callback: () => void | Promise<void>
+}
+
+/**
+ * Deterministic scheduler where time only moves when advance() is called.
+ * Timers fire in due-time order (ties in creation order) with now() set to
+ * their due time. Before the next timer fires, every running callback must
+ * either finish or be parked in sleep() on this scheduler - so a callback
+ * that awaits an LLM call completes at the virtual instant it started.
+ */
+export class VirtualScheduler implements Scheduler {
+  private currentMs: number
+  private timers: VirtualTimer[] = []
+  private nextId = 1
+
+  /** Callbacks that haven't finished yet, and how many of them are waiting in sleep() */
+  private running: Set<Promise<void>> = new Set()
+  private sleeping = 0
+  private wake: (() => void) | null = null
+
+  constructor(start: Date = new Date(0)) {
+    this.currentMs = start.getTime()
+  }
+
+  now(): Date {
+    return new Date(this.currentMs)
+  }
+
+  setTimeout(callback: () => void | Promise<void>, delayMs: number): TimerHandle {
+    return this.schedule(callback, delayMs, null)
+  }
+
+  setInterval(callback: () => void | Promise<void>, intervalMs: number): TimerHandle {
+    return this.schedule(callback, intervalMs, Math.max(1, intervalMs))
+  }
+
+  sleep(delayMs: number): Promise<void> {
+    return new Promise(resolve => {
+      this.sleeping++
+      this.setTimeout(() => {
+        this.sleeping--
+        resolve()
+      }, delayMs)
+      this.wake?.()
+    })
+  }
+
+  /**
+   * Move time forward, firing every timer that comes due on the way
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.currentMs + ms
+
+    // Let callers that are about to sleep() register their timers first
+    await this.settle()
+
+    for (let timer = this.nextDue(target); timer; timer = this.nextDue(target)) {
+      this.currentMs = timer.dueAt
+
+      if (timer.intervalMs !== null) {
+        timer.dueAt += timer.intervalMs
+      } else {
+        this.timers = this.timers.filter(t => t !== timer)
+      }
+
+      const run = Promise.resolve()
+        .then(timer.callback)
+        .catch(error => {
+          console.error('[VirtualScheduler] Timer callback failed:', error)
+        })
+        .finally(() => this.running.delete(run))
+      this.running.add(run)
+
+      await this.settle()
+    }
+
+    this.currentMs = target
+  }
+
+  /**
+   * Move time to an absolute instant (no-op if it's in the past)
+   */
+  async advanceTo(time: Date): Promise<void> {
+    await this.advance(Math.max(0, time.getTime() - this.currentMs))
+  }
+
+  /**
+   * Number of timers still waiting to fire
+   */
+  pendingTimers(): number {
+    return this.timers.length
+  }
+
+  /**
+   * Wait (in real time) until every running callback has finished or is sleeping
+   */
+  private async settle(): Promise<void> {
+    await drainPendingWork()
+
+    while (this.running.size > this.sleeping) {
+      await new Promise<void>(resolve => {
+        this.wake = resolve
+        for (const run of this.running) {
+          run.then(resolve)
+        }
+      })
+      this.wake = null
+      await drainPendingWork()
+    }
+  }
+
+  private schedule(callback: () => void | Promise<void>, delayMs: number, intervalMs: number | null): TimerHandle {
+    const timer: VirtualTimer = {
+      id: this.nextId++,
+      dueAt: this.currentMs + Math.max(0, delayMs),
+      intervalMs,
+      callback
+    }
+    this.timers.push(timer)
+
+    return { cancel: () => { this.timers = this.timers.filter(t => t !== timer) } }
+  }
+
+  private nextDue(limitMs: number): VirtualTimer | undefined {
+    return this.timers
+      .filter(t => t.dueAt <= limitMs)
+      .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0]
+  }
+}
+
+/**
+ * Let promise chains and already-queued callbacks run to their next real wait
+ */
+function drainPendingWork(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve))
+}
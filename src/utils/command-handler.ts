@@ -0,0 +1,209 @@
+/**
+ * Command Handler - Carries out self-chat commands and replies to the user
+ */
+
+import type { MessagingTransport } from '../transport/messaging-transport.js'
+import type { AgentCommand, AgentConfig, ConversationState } from '../types/index.js'
+import type { ConversationTracker } from '../watchers/conversation-tracker.js'
+import type { TimerManager } from './timer-manager.js'
+import type { ReplyQueue } from './reply-queue.js'
+import type { AuditLog } from '../storage/audit-log.js'
+import { notifyUser, queueActivation } from './agent-core.js'
+import { formatDuration } from './command-parser.js'
+import { resolveContactPolicy } from './contact-policy.js'
+import { formatChatTranscript } from './transcript.js'
+import { type Scheduler, systemScheduler } from './clock.js'
+
+/** Upper bound for "set max" so a typo can't leave the agent texting indefinitely */
+const MAX_MESSAGES_LIMIT = 20
+
+/** Messages shown by "transcript", newest last */
+const TRANSCRIPT_MESSAGES = 30
+
+const HELP_TEXT = [
+  'Commands:',
+  '• status - what the agent is doing',
+  '• pause / resume - stop or restart takeover prompts',
+  '• pause Sam / resume Sam - same, for one contact',
+  '• mute Sam 2h - no prompts for Sam for a while (or 3 days, 2 weeks)',
+  '• take over Sam - start texting Sam now',
+  '• stop Sam - end the agent session with Sam',
+  '• set max 5 - messages per session',
+  '• transcript Sam - recent messages with Sam, marking the ones I wrote',
+  '• help - this list'
+].join('\n')
+
+/**
+ * Run a command and send the result to the user's self-chat
+ */
+export async function handleCommand(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  timerManager: TimerManager,
+  replyQueue: ReplyQueue,
+  auditLog: AuditLog,
+  command: AgentCommand,
+  config: AgentConfig,
+  scheduler: Scheduler = systemScheduler
+): Promise<void> {
+  if (config.debug) {
+    console.log(`[Commands] Running ${command.type}`)
+  }
+
+  if (command.type === 'status') {
+    await notifyUser(sdk, config, formatStatus(tracker, timerManager, config))
+    return
+  }
+
+  if (command.type === 'help') {
+    await notifyUser(sdk, config, HELP_TEXT)
+    return
+  }
+
+  if (command.type === 'usage') {
+    await notifyUser(sdk, config, command.message)
+    return
+  }
+
+  if (command.type === 'set-max') {
+    if (command.value < 1 || command.value > MAX_MESSAGES_LIMIT) {
+      await notifyUser(sdk, config, `Max has to be between 1 and ${MAX_MESSAGES_LIMIT}`)
+      return
+    }
+    config.maxMessagesToSend = command.value
+    await notifyUser(sdk, config, `Max messages per session set to ${command.value}`)
+    return
+  }
+
+  // Bare pause/resume applies to every conversation
+  if (command.target === null) {
+    if (command.type === 'pause') {
+      timerManager.pause()
+      await notifyUser(sdk, config, 'Paused - no takeover prompts until you say "resume". Say "stop <name>" to end an active session.')
+    } else {
+      timerManager.resume()
+      await notifyUser(sdk, config, 'Resumed - watching for quiet conversations again')
+    }
+    return
+  }
+
+  const conv = await findContact(sdk, tracker, command.target, config)
+  if (!conv) {
+    return
+  }
+
+  switch (command.type) {
+    case 'pause':
+      tracker.muteConversation(conv.chatId)
+      await notifyUser(sdk, config, `Paused ${conv.friendName} - say "resume ${conv.friendName}" to undo`)
+      return
+
+    case 'resume':
+      tracker.unmuteConversation(conv.chatId)
+      await notifyUser(sdk, config, `Resumed ${conv.friendName}`)
+      return
+
+    case 'mute':
+      tracker.muteConversation(conv.chatId, new Date(scheduler.now().getTime() + command.durationMs))
+      await notifyUser(sdk, config, `Muted ${conv.friendName} for ${formatDuration(command.durationMs)}`)
+      return
+
+    case 'stop':
+      if (!conv.isAgentActive && !conv.awaitingApproval) {
+        await notifyUser(sdk, config, `I'm not texting ${conv.friendName} right now`)
+        return
+      }
+      // A reply that's still generating would otherwise go out (or be drafted) after the stop
+      replyQueue.cancel(conv.chatId)
+      tracker.resetConversation(conv.chatId, 'you said stop')
+      await notifyUser(sdk, config, `Stopped - ${conv.friendName} is all yours`)
+      return
+
+    case 'take-over':
+      if (conv.isAgentActive) {
+        await notifyUser(sdk, config, `Already texting ${conv.friendName}`)
+        return
+      }
+      await notifyUser(sdk, config, `Taking over ${conv.friendName}`)
+      queueActivation(replyQueue, sdk, tracker, conv, config, true, scheduler)
+      return
+
+    case 'transcript': {
+      const messages = tracker.getConversationHistory(conv.chatId, TRANSCRIPT_MESSAGES)
+      const events = auditLog.readEvents(conv.chatId, TRANSCRIPT_MESSAGES * 4)
+      await notifyUser(sdk, config, formatChatTranscript(conv, messages, events, config.schedule.timeZone))
+      return
+    }
+  }
+}
+
+/**
+ * Resolve a typed contact name to one tracked conversation, telling the user
+ * when it matches nothing or several
+ */
+async function findContact(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  name: string,
+  config: AgentConfig
+): Promise<ConversationState | null> {
+  let matches = tracker.findConversationsByName(name)
+
+  // Conversations only learn their display name when prompted, so refresh once
+  if (matches.length === 0) {
+    try {
+      const chats = await sdk.listChats({ limit: 100 })
+      for (const chat of chats) {
+        const conv = tracker.getConversation(chat.chatId)
+        if (conv && chat.displayName && conv.friendName !== chat.displayName) {
+          tracker.setFriendName(chat.chatId, chat.displayName)
+        }
+      }
+      matches = tracker.findConversationsByName(name)
+    } catch (error) {
+      console.error('[Commands] Error refreshing contact names:', error)
+    }
+  }
+
+  if (matches.length === 1) {
+    return matches[0]
+  }
+
+  if (matches.length === 0) {
+    await notifyUser(sdk, config, `I don't have a conversation with ${name} yet`)
+  } else {
+    await notifyUser(sdk, config, `Which ${name}? ${matches.map(c => c.friendName).join(', ')} - use the full name`)
+  }
+
+  return null
+}
+
+/**
+ * Summarize sessions, prompts and mutes for the "status" command
+ */
+function formatStatus(tracker: ConversationTracker, timerManager: TimerManager, config: AgentConfig): string {
+  const conversations = tracker.getAllConversations().filter(c => c.chatId !== config.userIdentifier)
+  const active = conversations.filter(c => c.isAgentActive)
+  const pending = tracker.getPendingApprovals()
+  const muted = conversations.filter(c => tracker.isMuted(c.chatId))
+
+  const lines = [
+    `Agent ${timerManager.getIsPaused() ? 'paused' : 'watching'} (${config.approvalMode} mode, max ${config.maxMessagesToSend} messages)`,
+    `Texting: ${active.map(c => `${c.friendName} (${c.messagesSent}/${resolveContactPolicy(c, config).maxMessagesToSend})`).join(', ') || 'nobody'}`,
+    `Waiting on you: ${pending.map(c => `[${c.promptHandle}] ${c.friendName}`).join(', ') || 'nothing'}`
+  ]
+
+  if (muted.length > 0) {
+    lines.push(`Muted: ${muted.map(c => c.paused
+      ? `${c.friendName} (paused)`
+      : `${c.friendName} (until ${c.mutedUntil?.toLocaleString([], {
+          timeZone: config.schedule.timeZone,
+          weekday: 'short',
+          hour: 'numeric',
+          minute: '2-digit'
+        })})`
+    ).join(', ')}`)
+  }
+
+  return lines.join('\n')
+}
@@ -0,0 +1,132 @@
+/**
+ * Command Parser - Recognizes commands the user sends to their own chat
+ *
+ * Bare "stop" or "take over" stay approval answers; a command needs a
+ * contact name ("stop Sam", "take over Sam").
+ */
+
+import type { AgentCommand } from '../types/index.js'
+
+/** Words that follow "stop"/"take over" in a normal reply rather than a contact name */
+const NON_NAME_TARGETS = new Set(['it', 'that', 'this', 'now', 'pls', 'please', 'all', 'both', 'everyone'])
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60000,
+  min: 60000,
+  mins: 60000,
+  minute: 60000,
+  minutes: 60000,
+  h: 3600000,
+  hr: 3600000,
+  hrs: 3600000,
+  hour: 3600000,
+  hours: 3600000,
+  d: 86400000,
+  day: 86400000,
+  days: 86400000,
+  w: 604800000,
+  wk: 604800000,
+  wks: 604800000,
+  week: 604800000,
+  weeks: 604800000
+}
+
+/** Politeness after a command ("stop Sam please") that isn't part of the contact name */
+const TRAILING_FILLER = /(?:[\s,]+(?:please|pls|plz|now|thanks|thx|asap))+$/i
+
+/** Sent back when "mute" has a length we can't read */
+const MUTE_USAGE = `Didn't catch how long - try "mute Sam 2h", "mute Sam 3 days" or "mute Sam 2 weeks"`
+
+/** Mute length when none is given ("mute Sam") */
+const DEFAULT_MUTE_MS = 3600000
+
+/**
+ * Parse a self-chat message into a command
+ * @returns The command, a usage hint if it's a command we can't read, or null if the message isn't one
+ */
+export function parseCommand(messageText: string): AgentCommand | null {
+  const text = messageText.trim().replace(/[.!]+$/, '').replace(TRAILING_FILLER, '')
+  const normalized = text.toLowerCase()
+
+  if (/^(status|\?)$/.test(normalized)) {
+    return { type: 'status' }
+  }
+
+  if (/^(help|commands)$/.test(normalized)) {
+    return { type: 'help' }
+  }
+
+  const pause = text.match(/^pause(?:\s+(.+))?$/i)
+  if (pause) {
+    return { type: 'pause', target: pause[1]?.trim() || null }
+  }
+
+  const resume = text.match(/^(?:resume|unmute|unpause)(?:\s+(.+))?$/i)
+  if (resume) {
+    return { type: 'resume', target: resume[1]?.trim() || null }
+  }
+
+  const stop = text.match(/^stop\s+(.+)$/i)
+  if (stop && isContactName(stop[1])) {
+    return { type: 'stop', target: stop[1].trim() }
+  }
+
+  const takeOver = text.match(/^take\s*over\s+(.+)$/i)
+  if (takeOver && isContactName(takeOver[1])) {
+    return { type: 'take-over', target: takeOver[1].trim() }
+  }
+
+  const mute = text.match(/^mute\s+(.+?)(?:\s+(?:for\s+)?(\d+)\s*([a-z]+))?$/i)
+  if (mute) {
+    if (!mute[2]) {
+      // "mute Sam 2" has a length but no unit, not a contact called "Sam 2"
+      if (/\s(?:for\s+)?\d+$/i.test(mute[1])) {
+        return { type: 'usage', message: MUTE_USAGE }
+      }
+      return { type: 'mute', target: mute[1].trim(), durationMs: DEFAULT_MUTE_MS }
+    }
+    const unitMs = DURATION_UNITS_MS[mute[3].toLowerCase()]
+    const amount = parseInt(mute[2])
+    if (!unitMs || amount < 1) {
+      return { type: 'usage', message: MUTE_USAGE }
+    }
+    return { type: 'mute', target: mute[1].trim(), durationMs: amount * unitMs }
+  }
+
+  const transcript = text.match(/^transcript\s+(.+)$/i)
+  if (transcript) {
+    return { type: 'transcript', target: transcript[1].trim() }
+  }
+
+  const setMax = normalized.match(/^set\s+max(?:\s+messages)?\s+(\d+)$/)
+  if (setMax) {
+    return { type: 'set-max', value: parseInt(setMax[1]) }
+  }
+
+  return null
+}
+
+/**
+ * Whether the words after "stop"/"take over" look like a contact rather than
+ * a prompt handle ("take over 2") or filler ("stop it")
+ */
+function isContactName(target: string): boolean {
+  const normalized = target.trim().toLowerCase()
+  return !/^[\[#(]?\d+[\])]?$/.test(normalized) && !NON_NAME_TARGETS.has(normalized)
+}
+
+/**
+ * Format a duration for replies ("2h", "30m", "1d", "2w")
+ */
+export function formatDuration(ms: number): string {
+  if (ms >= 604800000 && ms % 604800000 === 0) {
+    return `${ms / 604800000}w`
+  }
+  if (ms >= 86400000 && ms % 86400000 === 0) {
+    return `${ms / 86400000}d`
+  }
+  if (ms >= 3600000 && ms % 3600000 === 0) {
+    return `${ms / 3600000}h`
+  }
+  return `${Math.round(ms / 60000)}m`
+}
@@ -0,0 +1,121 @@
+/**
+ * Contact Policy - Per-contact rules from a JSON config file
+ *
+ * Rules match chats by chat id, handle (phone/email) or display name. When
+ * several rules match, later ones override earlier ones and tone notes add up.
+ *
+ * Example (see contact-policy.example.json):
+ *   { "rules": [{ "label": "family", "match": ["Mom", "+15551234567"], "neverPrompt": true }] }
+ */
+
+import { readFileSync } from 'node:fs'
+import { z } from 'zod'
+import type { AgentConfig, ContactPolicy, ContactPolicyRule } from '../types/index.js'
+
+/** How long the agent keeps control after activating, unless a rule says otherwise */
+export const DEFAULT_CONTROL_WINDOW_MS = 300000
+
+const contactPolicyRuleSchema = z.object({
+  label: z.string().optional(),
+  match: z.array(z.string().min(1)).min(1),
+  neverPrompt: z.boolean().optional(),
+  autoApprove: z.boolean().optional(),
+  maxMessagesToSend: z.number().int().positive().optional(),
+  inactivityThresholdMs: z.number().int().positive().optional(),
+  controlWindowMs: z.number().int().positive().optional(),
+  toneNotes: z.string().optional(),
+  groupReplies: z.boolean().optional()
+}).strict()
+
+const contactPolicyFileSchema = z.object({
+  rules: z.array(contactPolicyRuleSchema)
+}).strict()
+
+/**
+ * Read and validate a contact policy file
+ * @throws Error listing every problem if the file is missing or invalid
+ */
+export function loadContactPolicyFile(path: string): ContactPolicyRule[] {
+  let raw: unknown
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    throw new Error(`Could not read contact policy file ${path}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const result = contactPolicyFileSchema.safeParse(raw)
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ')
+    throw new Error(`Invalid contact policy file ${path}: ${issues}`)
+  }
+
+  return result.data.rules
+}
+
+/**
+ * Work out the effective policy for a chat from the global config and any matching rules
+ * @param friendName Display name, if known (falls back to conv.friendName)
+ */
+export function resolveContactPolicy(
+  conv: { chatId: string; friendName: string },
+  config: AgentConfig,
+  friendName: string = conv.friendName
+): ContactPolicy {
+  const policy: ContactPolicy = {
+    neverPrompt: false,
+    autoApprove: false,
+    maxMessagesToSend: config.maxMessagesToSend,
+    inactivityThresholdMs: config.inactivityThresholdMs,
+    controlWindowMs: DEFAULT_CONTROL_WINDOW_MS,
+    toneNotes: [],
+    groupReplies: false,
+    matchedRules: []
+  }
+
+  config.contactPolicies.forEach((rule, index) => {
+    if (!rule.match.some(entry => matchesChat(entry, conv.chatId, friendName))) {
+      return
+    }
+
+    policy.matchedRules.push(rule.label ?? `rule ${index + 1}`)
+    policy.neverPrompt = rule.neverPrompt ?? policy.neverPrompt
+    policy.autoApprove = rule.autoApprove ?? policy.autoApprove
+    policy.maxMessagesToSend = rule.maxMessagesToSend ?? policy.maxMessagesToSend
+    policy.inactivityThresholdMs = rule.inactivityThresholdMs ?? policy.inactivityThresholdMs
+    policy.controlWindowMs = rule.controlWindowMs ?? policy.controlWindowMs
+    policy.groupReplies = rule.groupReplies ?? policy.groupReplies
+    if (rule.toneNotes) {
+      policy.toneNotes.push(rule.toneNotes)
+    }
+  })
+
+  return policy
+}
+
+/**
+ * Shortest inactivity threshold across the global config and all rules -
+ * the timer has to check at least this often for per-contact thresholds to work
+ */
+export function minInactivityThreshold(config: AgentConfig): number {
+  return Math.min(
+    config.inactivityThresholdMs,
+    ...config.contactPolicies.map(rule => rule.inactivityThresholdMs ?? Infinity)
+  )
+}
+
+/**
+ * Whether a rule's match entry refers to this chat
+ */
+function matchesChat(entry: string, chatId: string, friendName: string): boolean {
+  const normalized = entry.trim().toLowerCase()
+  const id = chatId.toLowerCase()
+
+  // Exact chat id, or the handle part of "iMessage;-;+15551234567"
+  if (id === normalized || id.endsWith(`;${normalized}`)) {
+    return true
+  }
+
+  return friendName !== 'your friend' && friendName.trim().toLowerCase() === normalized
+}
@@ -0,0 +1,86 @@
+/**
+ * Escalation Detector - Flags incoming messages the agent should never answer
+ *
+ * Checked before every agent reply. Someone in distress, sharing bad news,
+ * asking where the user is, or asking "is this a bot?" deserves the real
+ * person, so the agent stops and tells the user why.
+ */
+
+import type { EscalationCategory, EscalationResult } from '../types/index.js'
+
+/**
+ * Rules in priority order - the first matching category wins
+ */
+const ESCALATION_RULES: Array<{ category: EscalationCategory; reason: string; patterns: RegExp[] }> = [
+  {
+    category: 'emotional-distress',
+    reason: 'they seem to be going through something hard',
+    patterns: [
+      /\b(want to die|kill myself|end it all|can'?t do this anymore|self[- ]harm|hurt myself|panic attack|mental health)\b/i,
+      /\b(i'?m|im|i am|i feel|feeling)\s+(so\s+|really\s+|kinda\s+|pretty\s+)?(sad|depressed|anxious|lonely|overwhelmed|hopeless|scared|terrible|awful|not ok(ay)?)\b/i,
+      /\b(i'?ve been|been) crying\b/i,
+      /\bneed (to talk|someone to talk to|you rn|you right now)\b/i
+    ]
+  },
+  {
+    category: 'bad-news',
+    reason: 'they shared bad news',
+    patterns: [
+      /\b(passed away|died|funeral|in the hospital|hospitali[sz]ed|in the er|diagnosed|cancer|car accident|got fired|lost my job|laid off|broke up|divorce|miscarriage)\b/i
+    ]
+  },
+  {
+    category: 'bot-check',
+    reason: 'they asked if they are talking to a bot',
+    patterns: [
+      /\b(is this|are (you|u)|r u)\s+(a |an )?(bot|ai|robot|chatgpt|automated)\b/i,
+      /\b(sounds?|sounded|sounding|texting) like (a |an )?(bot|ai|robot|chatgpt)\b/i,
+      /\b(is this really (you|u)|who is this|who'?s texting)\b/i
+    ]
+  },
+  {
+    category: 'urgent',
+    reason: 'they need something urgently',
+    patterns: [
+      /\b(urgent|emergency|asap|911)\b/i,
+      /\b(call me|pick up( the phone)?|answer (your|ur) phone|help me|i need help)\b/i
+    ]
+  },
+  {
+    category: 'availability',
+    reason: 'they asked where you are or when you are free',
+    patterns: [
+      /\b(where (are|r) (you|u)|wya|where (you|u) at)\b/i,
+      /\b(are|r) (you|u) (free|around|busy|home|here|coming|nearby|awake)\b/i,
+      /\b(what are|what r|wyd|what (you|u)) (you |u )?(doing )?(tonight|tomorrow|tmrw|later|this weekend)\b/i,
+      /\bwhen (are|r) (you|u) (free|coming|back|leaving|getting here|around)\b/i,
+      /\bcan (you|u) (come|make it|meet|hang)\b/i
+    ]
+  }
+]
+
+/**
+ * Screen a friend's message for topics the agent must not handle
+ */
+export function classifyIncomingMessage(text: string): EscalationResult {
+  for (const rule of ESCALATION_RULES) {
+    for (const pattern of rule.patterns) {
+      const match = text.match(pattern)
+      if (match) {
+        return {
+          escalate: true,
+          category: rule.category,
+          reason: rule.reason,
+          match: match[0]
+        }
+      }
+    }
+  }
+
+  return {
+    escalate: false,
+    category: null,
+    reason: 'Nothing requiring the user',
+    match: ''
+  }
+}
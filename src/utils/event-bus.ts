@@ -0,0 +1,52 @@
+/**
+ * Event Bus - Fans agent events out to whoever is listening
+ *
+ * The tracker emits activations and deactivations, agent-core emits sent
+ * messages, wind-downs and errors. The audit log is one listener; anything
+ * else (a dashboard, metrics) can subscribe the same way.
+ */
+
+import type { AgentEvent, AgentEventType } from '../types/index.js'
+
+export type AgentEventListener<T extends AgentEventType = AgentEventType> =
+  (event: Extract<AgentEvent, { type: T }>) => void
+
+export class AgentEventBus {
+  private listeners: Set<AgentEventListener> = new Set()
+
+  /**
+   * Listen for every event
+   * @returns Call to stop listening
+   */
+  onAny(listener: AgentEventListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  /**
+   * Listen for one type of event
+   * @returns Call to stop listening
+   */
+  on<T extends AgentEventType>(type: T, listener: AgentEventListener<T>): () => void {
+    return this.onAny(event => {
+      if (event.type === type) {
+        listener(event as Extract<AgentEvent, { type: T }>)
+      }
+    })
+  }
+
+  /**
+   * Deliver an event to every listener; a failing listener doesn't stop the others
+   */
+  emit(event: AgentEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`[Events] Listener failed on ${event.type}:`, error)
+      }
+    }
+  }
+}
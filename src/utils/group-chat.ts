@@ -0,0 +1,86 @@
+/**
+ * Group Chat - Speaker names and mention detection for group conversations
+ *
+ * In a 1:1 chat every incoming message is from conv.friendName. In a group
+ * each message is labeled with its sender, and the agent only speaks up when
+ * a message is aimed at the user: their name is mentioned, or someone answers
+ * them right after they spoke.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { ConversationState, GroupParticipant } from '../types/index.js'
+
+/** Second-person words that make a reply to the user's own message address them */
+const SECOND_PERSON = /\b(you|u|your|ur|yours|ya|y'all)\b/i
+
+/**
+ * Who wrote a message, as the agent should call them
+ */
+export function speakerName(conv: Pick<ConversationState, 'friendName' | 'isGroup' | 'participants'>, message: Message): string {
+  if (message.isFromMe) {
+    return 'You'
+  }
+  if (!conv.isGroup) {
+    return conv.friendName
+  }
+
+  const participant = conv.participants.find(p => p.handle === message.sender)
+  return message.senderName || participant?.name || message.sender
+}
+
+/**
+ * Render messages as "Name: text" lines for a prompt
+ * @param descriptions Text to show instead for messages with attachments or links, by guid
+ */
+export function formatTranscript(
+  conv: Pick<ConversationState, 'friendName' | 'isGroup' | 'participants'>,
+  messages: Message[],
+  descriptions: Map<string, string> = new Map()
+): string {
+  return messages
+    .map(m => `${speakerName(conv, m)}: ${descriptions.get(m.guid) ?? (m.text || '(attachment)')}`)
+    .join('\n')
+}
+
+/**
+ * Name for a group without a display name, built from its members ("Sam, Alex and Jo")
+ */
+export function describeParticipants(participants: GroupParticipant[]): string {
+  const names = participants.map(p => p.name || p.handle)
+  if (names.length <= 1) {
+    return names[0] ?? 'the group'
+  }
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+}
+
+/**
+ * Whether a group message is aimed at the user
+ * @param previous The message just before it in the chat, if any
+ * @param userNames Names and nicknames the user goes by
+ */
+export function isAddressedToUser(message: Message, previous: Message | undefined, userNames: string[]): boolean {
+  const text = message.text || ''
+
+  if (userNames.some(name => mentionsName(text, name))) {
+    return true
+  }
+
+  // Answering the user's own message, talking to "you"
+  return previous?.isFromMe === true && SECOND_PERSON.test(text)
+}
+
+/**
+ * Whether the user was addressed after they (or the agent) last spoke
+ */
+export function hasUnansweredMention(conv: ConversationState): boolean {
+  return conv.lastAddressedBy !== null && conv.lastAddressedBy.at > conv.lastOutgoingTimestamp
+}
+
+function mentionsName(text: string, name: string): boolean {
+  const escaped = name.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  if (!escaped) {
+    return false
+  }
+  // Whole word, with or without "@"
+  return new RegExp(`(^|[^\\p{L}\\p{N}])@?${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(text)
+}
@@ -0,0 +1,207 @@
+/**
+ * Handoff Summary - Tells the user what was said in their name once a session ends
+ *
+ * Follows every deactivation (limit reached, wrap-up, window expired, the
+ * user jumping in, an error...). The texts the agent sent come from the
+ * audit log's message_sent events, what the friend said from the session's
+ * slice of conversationHistory; with them go questions still open, anything
+ * the agent agreed to, and a suggested follow-up. Sessions where the agent
+ * never sent a text get no summary.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { AgentConfig, AgentEvent, ConversationState, SessionSummaryJudgment } from '../types/index.js'
+import type { MessagingTransport } from '../transport/messaging-transport.js'
+import type { AuditLog } from '../storage/audit-log.js'
+import type { ConversationTracker } from '../watchers/conversation-tracker.js'
+import { summarizeSessionWithLLM } from '../agent/session-summarizer.js'
+import { notifyUser } from './agent-core.js'
+import { describeMessages } from './attachment-context.js'
+import { speakerName } from './group-chat.js'
+import { checkOutgoingDraft } from './safety-policy.js'
+import { isQuestion } from './wind-down-detector.js'
+
+/** Messages summarized when the session's start wasn't recorded */
+const FALLBACK_SESSION_MESSAGES = 20
+
+/** Audit events read back to find the session's sent texts */
+const SESSION_EVENTS = 200
+
+type DeactivationEvent = Extract<AgentEvent, { type: 'deactivation' }>
+
+/**
+ * A text the agent sent, as the audit log recorded it
+ */
+export interface SentText {
+  text: string
+  at: Date
+}
+
+/**
+ * Summarize the session a deactivation ended and send it to the user's self-chat.
+ * Call it once the chat's reply in progress, if any, has recorded what it sent.
+ */
+export async function sendHandoffSummary(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  auditLog: AuditLog,
+  event: DeactivationEvent,
+  config: AgentConfig
+): Promise<void> {
+  const conv = tracker.getConversation(event.chatId)
+  if (!conv) {
+    return
+  }
+
+  const summary = await buildHandoffSummary(
+    conv,
+    sessionMessages(conv, event.sessionStartedAt),
+    sessionTexts(auditLog.readEvents(event.chatId, SESSION_EVENTS), event.sessionStartedAt),
+    event.reason,
+    config
+  )
+  if (!summary) {
+    if (config.debug) {
+      console.log(`[Handoff] Nothing sent to ${conv.friendName} this session, no summary`)
+    }
+    return
+  }
+
+  await notifyUser(sdk, config, summary)
+}
+
+/**
+ * Write the summary for a session
+ * @param history The chat's messages during the session, oldest first
+ * @param sent The texts the agent sent, oldest first
+ * @param reason Why the session ended
+ * @returns The summary, or null if the agent sent nothing
+ */
+export async function buildHandoffSummary(
+  conv: ConversationState,
+  history: Message[],
+  sent: SentText[],
+  reason: string,
+  config: AgentConfig
+): Promise<string | null> {
+  if (sent.length === 0) {
+    return null
+  }
+
+  // The agent's echoes (never added to the user's own history) would repeat what sent already has
+  const userGuids = new Set(conv.userMessageHistory.map(m => m.guid))
+  const session = history.filter(m => !m.isFromMe || userGuids.has(m.guid))
+
+  const descriptions = await describeMessages(session, config.attachments)
+  const content = (m: Message) => descriptions.get(m.guid) ?? (m.text || '(attachment)')
+  const theirs = session.filter(m => !m.isFromMe)
+
+  let judgment: SessionSummaryJudgment | null = null
+  try {
+    const transcript = [
+      ...session.map(m => ({ at: m.date.getTime(), line: `${speakerName(conv, m)}: ${content(m)}` })),
+      ...sent.map(s => ({ at: s.at.getTime(), line: `Agent: ${s.text}` }))
+    ]
+      .sort((a, b) => a.at - b.at)
+      .map(entry => entry.line)
+      .join('\n')
+    judgment = await summarizeSessionWithLLM(transcript, config.schemaRetryBudget)
+  } catch (error) {
+    console.error('[Handoff] Session summarizer failed, using heuristics only:', error)
+  }
+  judgment ??= summarizeWithHeuristics(conv, session, sent, config)
+
+  const lines = [
+    `📋 Done texting ${conv.friendName} - ${reason}`,
+    'I sent:',
+    ...sent.map(s => `• ${s.text}`),
+    conv.isGroup ? 'The group said:' : `${conv.friendName} said:`,
+    ...(theirs.length > 0
+      ? theirs.map(m => `• ${conv.isGroup ? `${speakerName(conv, m)}: ` : ''}${content(m)}`)
+      : ['• nothing'])
+  ]
+
+  if (judgment.openQuestions.length > 0) {
+    lines.push('Still open:', ...judgment.openQuestions.map(q => `• ${q}`))
+  }
+  if (judgment.commitments.length > 0) {
+    lines.push('I may have committed you to:', ...judgment.commitments.map(c => `• ${c}`))
+  }
+  lines.push(`Next: ${judgment.followUp || defaultFollowUp(conv, judgment)}`)
+
+  return lines.join('\n')
+}
+
+/**
+ * The slice of a chat's history since the session began
+ */
+function sessionMessages(conv: ConversationState, startedAt: Date | null): Message[] {
+  if (!startedAt) {
+    return conv.conversationHistory.slice(-FALLBACK_SESSION_MESSAGES)
+  }
+
+  // The friend message the agent first answered came in before the takeover
+  const firstAnswered = conv.conversationHistory.findIndex(m => m.date >= startedAt)
+  if (firstAnswered < 0) {
+    return []
+  }
+  let start = firstAnswered
+  while (start > 0 && !conv.conversationHistory[start - 1].isFromMe) {
+    start--
+  }
+
+  return conv.conversationHistory.slice(start)
+}
+
+/**
+ * The texts the agent sent since the session began (or since its last takeover, when the start wasn't recorded)
+ * @param events The chat's audit events, oldest first
+ */
+function sessionTexts(events: AgentEvent[], startedAt: Date | null): SentText[] {
+  const start = startedAt
+    ? events.findIndex(event => event.timestamp >= startedAt)
+    : Math.max(0, events.map(event => event.type).lastIndexOf('activation'))
+  if (start < 0) {
+    return []
+  }
+
+  return events
+    .slice(start)
+    .flatMap(event => event.type === 'message_sent' ? event.texts.map(text => ({ text, at: event.timestamp })) : [])
+}
+
+/**
+ * Fallback when the LLM gives no answer: unanswered questions after the last
+ * outgoing text, and agent texts matching the commitment rule
+ */
+function summarizeWithHeuristics(
+  conv: ConversationState,
+  session: Message[],
+  sent: SentText[],
+  config: AgentConfig
+): SessionSummaryJudgment {
+  const lastOutgoing = Math.max(
+    sent[sent.length - 1].at.getTime(),
+    ...session.filter(m => m.isFromMe).map(m => m.date.getTime())
+  )
+  const openQuestions = session
+    .filter(m => !m.isFromMe && m.date.getTime() > lastOutgoing && isQuestion(m.text || ''))
+    .map(m => `${speakerName(conv, m)}: "${m.text}"`)
+
+  const commitmentRules = config.safetyRules.filter(rule => rule.id === 'commitment')
+  const commitments = sent
+    .filter(s => !checkOutgoingDraft(s.text, commitmentRules).allowed)
+    .map(s => `"${s.text}"`)
+
+  return { openQuestions, commitments, followUp: '' }
+}
+
+function defaultFollowUp(conv: ConversationState, judgment: SessionSummaryJudgment): string {
+  if (judgment.openQuestions.length > 0) {
+    return `answer ${conv.isGroup ? 'the group' : conv.friendName} when you can`
+  }
+  if (judgment.commitments.length > 0) {
+    return 'make sure those plans work for you'
+  }
+  return 'nothing needed'
+}
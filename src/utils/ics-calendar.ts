@@ -0,0 +1,370 @@
+/**
+ * ICS Calendar - Reads busy events from a local .ics file
+ *
+ * Deliberately small: single events, all-day events and DAILY/WEEKLY
+ * recurrence (INTERVAL, UNTIL, COUNT, BYDAY, EXDATE). Anything fancier is
+ * treated as its first occurrence only. Transparent ("free") and cancelled
+ * events never count as busy.
+ */
+
+import { readFileSync, statSync } from 'node:fs'
+import type { CalendarEvent } from '../types/index.js'
+import { getZonedParts, zonedTimeToUtc } from './zoned-time.js'
+
+const DAY_MS = 86400000
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY'
+  interval: number
+  until: Date | null
+  count: number | null
+
+  /** Weekdays for WEEKLY rules, 0 = Sunday */
+  byDay: number[]
+}
+
+/**
+ * A VEVENT as parsed, before expanding recurrences
+ */
+interface IcsEvent {
+  summary: string
+  start: Date
+  end: Date
+  timeZone: string
+
+  /** Start time as written (wall clock in timeZone), reused for each occurrence */
+  wall: { year: number; month: number; day: number; hour: number; minute: number; second: number }
+
+  rule: RecurrenceRule | null
+  exdates: number[]
+}
+
+interface ParsedDate {
+  date: Date
+  allDay: boolean
+  timeZone: string
+  wall: IcsEvent['wall']
+}
+
+/** Parsed files, reloaded when the file's mtime changes */
+const cache = new Map<string, { mtimeMs: number; timeZone: string; events: IcsEvent[] }>()
+
+/**
+ * Find the busy event happening at a given time in an .ics file
+ * @returns The current occurrence, or null if free (or the file can't be read)
+ */
+export function findBusyEvent(path: string, timeZone: string, now: Date): CalendarEvent | null {
+  const events = loadEvents(path, timeZone)
+
+  for (const event of events) {
+    const occurrence = occurrenceAt(event, now)
+    if (occurrence) {
+      return occurrence
+    }
+  }
+
+  return null
+}
+
+/**
+ * Parse .ics text into busy events
+ * @param defaultTimeZone Zone for "floating" times that have no TZID or Z suffix
+ */
+function parseIcs(text: string, defaultTimeZone: string): IcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const events: IcsEvent[] = []
+  let props: Array<{ name: string; params: Record<string, string>; value: string }> | null = null
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      props = []
+      continue
+    }
+
+    if (line === 'END:VEVENT') {
+      const event = props ? buildEvent(props, defaultTimeZone) : null
+      if (event) {
+        events.push(event)
+      }
+      props = null
+      continue
+    }
+
+    if (!props) {
+      continue
+    }
+
+    const colon = line.indexOf(':')
+    if (colon < 0) {
+      continue
+    }
+
+    const [name, ...paramParts] = line.slice(0, colon).split(';')
+    const params: Record<string, string> = {}
+    for (const part of paramParts) {
+      const [key, value] = part.split('=')
+      params[key.toUpperCase()] = value ?? ''
+    }
+    props.push({ name: name.toUpperCase(), params, value: line.slice(colon + 1) })
+  }
+
+  return events
+}
+
+/**
+ * Turn a VEVENT's properties into an event, or null if it never makes the user busy
+ */
+function buildEvent(
+  props: Array<{ name: string; params: Record<string, string>; value: string }>,
+  defaultTimeZone: string
+): IcsEvent | null {
+  const get = (name: string) => props.find(p => p.name === name)
+
+  const dtstart = get('DTSTART')
+  if (!dtstart || get('STATUS')?.value.toUpperCase() === 'CANCELLED') {
+    return null
+  }
+
+  const start = parseIcsDate(dtstart.value, dtstart.params, defaultTimeZone)
+  if (!start) {
+    return null
+  }
+
+  // All-day events are usually informational; only count them when marked busy
+  const transparency = get('TRANSP')?.value.toUpperCase()
+  if (transparency === 'TRANSPARENT' || (start.allDay && transparency !== 'OPAQUE')) {
+    return null
+  }
+
+  const dtend = get('DTEND')
+  const duration = get('DURATION')
+  let end = dtend ? parseIcsDate(dtend.value, dtend.params, defaultTimeZone)?.date : undefined
+  if (!end) {
+    const durationMs = duration ? parseDuration(duration.value) : start.allDay ? DAY_MS : 0
+    end = new Date(start.date.getTime() + durationMs)
+  }
+
+  const exdates = props
+    .filter(p => p.name === 'EXDATE')
+    .flatMap(p => p.value.split(',').map(v => parseIcsDate(v, p.params, defaultTimeZone)?.date.getTime()))
+    .filter((t): t is number => t !== undefined)
+
+  const rrule = get('RRULE')
+
+  return {
+    summary: get('SUMMARY')?.value.replace(/\\([,;\\])/g, '$1').replace(/\\n/gi, ' ') || 'Busy',
+    start: start.date,
+    end,
+    timeZone: start.timeZone,
+    wall: start.wall,
+    rule: rrule ? parseRule(rrule.value, defaultTimeZone) : null,
+    exdates
+  }
+}
+
+/**
+ * Parse DATE / DATE-TIME values: 20261019, 20261019T140000Z, or 20261019T100000 with TZID
+ */
+function parseIcsDate(value: string, params: Record<string, string>, defaultTimeZone: string): ParsedDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/)
+  if (!match) {
+    return null
+  }
+
+  const [, y, mo, d, h, mi, s, utc] = match
+  const wall = {
+    year: parseInt(y),
+    month: parseInt(mo),
+    day: parseInt(d),
+    hour: h ? parseInt(h) : 0,
+    minute: mi ? parseInt(mi) : 0,
+    second: s ? parseInt(s) : 0
+  }
+
+  if (utc) {
+    const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second))
+    // Keep recurrences anchored to the user's wall clock
+    const local = getZonedParts(date, defaultTimeZone)
+    return { date, allDay: false, timeZone: defaultTimeZone, wall: local }
+  }
+
+  const timeZone = isKnownTimeZone(params.TZID) ? params.TZID : defaultTimeZone
+  return {
+    date: zonedTimeToUtc(wall.year, wall.month, wall.day, wall.hour, wall.minute, wall.second, timeZone),
+    allDay: !h,
+    timeZone,
+    wall
+  }
+}
+
+/**
+ * Parse an ISO 8601 duration like PT1H30M or P1D
+ */
+function parseDuration(value: string): number {
+  const match = value.match(/^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/)
+  if (!match) {
+    return 0
+  }
+
+  const [, w, d, h, m, s] = match.map(v => (v ? parseInt(v) : 0))
+  return (((w * 7 + d) * 24 + h) * 60 + m) * 60000 + s * 1000
+}
+
+/**
+ * Parse the RRULE subset we support
+ */
+function parseRule(value: string, defaultTimeZone: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {}
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=')
+    parts[key.toUpperCase()] = val ?? ''
+  }
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') {
+    return null
+  }
+
+  return {
+    freq: parts.FREQ,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1')),
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL, {}, defaultTimeZone)?.date ?? null : null,
+    count: parts.COUNT ? parseInt(parts.COUNT) : null,
+    byDay: (parts.BYDAY || '')
+      .split(',')
+      .map(day => ICS_WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '')))
+      .filter(day => day >= 0)
+  }
+}
+
+/**
+ * The occurrence of an event that covers `now`, if any
+ */
+function occurrenceAt(event: IcsEvent, now: Date): CalendarEvent | null {
+  const durationMs = event.end.getTime() - event.start.getTime()
+
+  if (!event.rule) {
+    return event.start <= now && now < event.end
+      ? { summary: event.summary, start: event.start, end: event.end }
+      : null
+  }
+
+  if (now < event.start) {
+    return null
+  }
+
+  // An occurrence covering now started today or, for long events, a few days back
+  const today = getZonedParts(now, event.timeZone)
+  const lookbackDays = Math.ceil(durationMs / DAY_MS) + 1
+
+  for (let back = 0; back <= lookbackDays; back++) {
+    const day = new Date(Date.UTC(today.year, today.month - 1, today.day - back))
+    const y = day.getUTCFullYear()
+    const m = day.getUTCMonth() + 1
+    const d = day.getUTCDate()
+
+    if (!isOccurrenceDay(event, y, m, d)) {
+      continue
+    }
+
+    const start = zonedTimeToUtc(y, m, d, event.wall.hour, event.wall.minute, event.wall.second, event.timeZone)
+    const end = new Date(start.getTime() + durationMs)
+
+    if (start < event.start || (event.rule.until && start > event.rule.until)) {
+      continue
+    }
+
+    if (event.exdates.includes(start.getTime())) {
+      continue
+    }
+
+    if (event.rule.count !== null && occurrencesBefore(event, y, m, d) >= event.rule.count) {
+      continue
+    }
+
+    if (start <= now && now < end) {
+      return { summary: event.summary, start, end }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a calendar date (in the event's zone) has an occurrence under its rule
+ */
+function isOccurrenceDay(event: IcsEvent, year: number, month: number, day: number): boolean {
+  const rule = event.rule!
+  const daysSinceStart = Math.round(
+    (Date.UTC(year, month - 1, day) - Date.UTC(event.wall.year, event.wall.month - 1, event.wall.day)) / DAY_MS
+  )
+  if (daysSinceStart < 0) {
+    return false
+  }
+
+  if (rule.freq === 'DAILY') {
+    return daysSinceStart % rule.interval === 0
+  }
+
+  // WEEKLY: weeks start on Monday (the RFC 5545 default)
+  const startWeekday = new Date(Date.UTC(event.wall.year, event.wall.month - 1, event.wall.day)).getUTCDay()
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay()
+  const byDay = rule.byDay.length > 0 ? rule.byDay : [startWeekday]
+  const weekIndex = Math.floor((daysSinceStart + ((startWeekday + 6) % 7)) / 7)
+
+  return byDay.includes(weekday) && weekIndex % rule.interval === 0
+}
+
+/**
+ * Number of occurrences strictly before a date (for COUNT limits)
+ */
+function occurrencesBefore(event: IcsEvent, year: number, month: number, day: number): number {
+  const target = Date.UTC(year, month - 1, day)
+  let count = 0
+
+  for (let t = Date.UTC(event.wall.year, event.wall.month - 1, event.wall.day); t < target; t += DAY_MS) {
+    const date = new Date(t)
+    if (isOccurrenceDay(event, date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())) {
+      count++
+      if (count >= event.rule!.count!) {
+        break
+      }
+    }
+  }
+
+  return count
+}
+
+/**
+ * Read and parse a calendar file, reusing the last parse while the file is unchanged
+ */
+function loadEvents(path: string, timeZone: string): IcsEvent[] {
+  try {
+    const { mtimeMs } = statSync(path)
+    const cached = cache.get(path)
+    if (cached && cached.mtimeMs === mtimeMs && cached.timeZone === timeZone) {
+      return cached.events
+    }
+
+    const events = parseIcs(readFileSync(path, 'utf8'), timeZone)
+    cache.set(path, { mtimeMs, timeZone, events })
+    return events
+  } catch (error) {
+    console.error(`[Calendar] Error reading ${path}:`, error)
+    return []
+  }
+}
+
+function isKnownTimeZone(name: string | undefined): name is string {
+  if (!name) {
+    return false
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: name })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * Link Preview - Titles for links friends send, read from a local page cache
+ *
+ * The agent never fetches links itself. Pages saved into the cache
+ * directory as "<sha256 of the url>.html" (by a browser extension, a cron
+ * job, anything) are read for their Open Graph tags, falling back to
+ * <title> and <meta name="description">.
+ */
+
+import { createHash } from 'node:crypto'
+import { readFile, stat } from 'node:fs/promises'
+import { join } from 'node:path'
+
+export interface LinkPreview {
+  url: string
+  title: string | null
+  description: string | null
+  siteName: string | null
+}
+
+/** Parsed previews by cache file, reparsed when the file's mtime changes (missing files aren't kept) */
+const previews = new Map<string, { mtimeMs: number; preview: LinkPreview | null }>()
+
+/** Most parsed pages kept, least recently read dropped first */
+const MAX_CACHED_PREVIEWS = 500
+
+/** Longest description kept, so one page can't swamp the prompt */
+const MAX_DESCRIPTION_LENGTH = 160
+
+/**
+ * Find the http(s) links in a message
+ */
+export function extractUrls(text: string): string[] {
+  const matches = text.match(/https?:\/\/[^\s<>"]+/gi) ?? []
+  // Trailing punctuation is almost always the sentence, not the link
+  return [...new Set(matches.map(url => url.replace(/[.,!?)\]]+$/, '')))]
+}
+
+/**
+ * Cache file name for a url
+ */
+export function linkCacheKey(url: string): string {
+  return `${createHash('sha256').update(url).digest('hex')}.html`
+}
+
+/**
+ * Look a link up in the cache directory
+ * @returns The preview, or null if the page isn't cached or has no title
+ */
+export async function readLinkPreview(url: string, cacheDir: string): Promise<LinkPreview | null> {
+  const path = join(cacheDir, linkCacheKey(url))
+
+  try {
+    const { mtimeMs } = await stat(path)
+    const cached = previews.get(path)
+    previews.delete(path)
+
+    let preview: LinkPreview | null
+    if (cached && cached.mtimeMs === mtimeMs) {
+      preview = cached.preview
+    } else {
+      const parsed = parseOpenGraph(await readFile(path, 'utf8'))
+      preview = parsed.title || parsed.description ? { url, ...parsed } : null
+    }
+
+    previews.set(path, { mtimeMs, preview })
+    if (previews.size > MAX_CACHED_PREVIEWS) {
+      previews.delete(previews.keys().next().value!)
+    }
+    return preview
+  } catch (error) {
+    previews.delete(path)
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[LinkPreview] Could not read cached page for ${url}:`, error)
+    }
+    return null
+  }
+}
+
+/**
+ * Pull the title, description and site name out of a page's head
+ */
+export function parseOpenGraph(html: string): Omit<LinkPreview, 'url'> {
+  const meta = new Map<string, string>()
+
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = attribute(tag, 'property') ?? attribute(tag, 'name')
+    const content = attribute(tag, 'content')
+    if (key && content && !meta.has(key.toLowerCase())) {
+      meta.set(key.toLowerCase(), decodeEntities(content))
+    }
+  }
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  const title = meta.get('og:title') ?? meta.get('twitter:title') ?? (titleTag ? decodeEntities(titleTag) : null)
+  const description = meta.get('og:description') ?? meta.get('twitter:description') ?? meta.get('description') ?? null
+
+  return {
+    title: clean(title),
+    description: truncate(clean(description)),
+    siteName: clean(meta.get('og:site_name') ?? null)
+  }
+}
+
+/**
+ * One-line summary for a prompt, e.g. 'The Best Crags in Utah - A guide to ... (Outside)'
+ */
+export function describeLinkPreview(preview: LinkPreview): string {
+  const parts = [preview.title, preview.description].filter(Boolean).join(' - ')
+  return preview.siteName ? `${parts} (${preview.siteName})` : parts
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))
+  return match ? match[1] ?? match[2] : null
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(parseInt(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+}
+
+function clean(text: string | null): string | null {
+  const collapsed = text?.replace(/\s+/g, ' ').trim()
+  return collapsed || null
+}
+
+function truncate(text: string | null): string | null {
+  if (!text || text.length <= MAX_DESCRIPTION_LENGTH) {
+    return text
+  }
+  return `${text.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…`
+}
@@ -0,0 +1,151 @@
+/**
+ * ReplyQueue - One pending reply per chat, answering a friend's whole burst at once
+ *
+ * A friend's first message starts the wait before replying; each further
+ * message pushes the reply back until they've been quiet for settleMs, so
+ * three quick texts get one answer. A message arriving while a reply is
+ * being generated aborts that generation and queues a fresh one that sees
+ * everything. Only one reply per chat runs at a time.
+ */
+
+import { type Scheduler, type TimerHandle, systemScheduler } from './clock.js'
+
+/**
+ * Generates and sends a reply; should stop early once the signal is aborted
+ */
+export type QueuedReply = (signal: AbortSignal) => Promise<void>
+
+interface ChatQueue {
+  /** When the queued reply fires */
+  deadline: number
+  timer: TimerHandle | null
+  reply: QueuedReply | null
+
+  /** The reply currently generating or sending, if any */
+  controller: AbortController | null
+  running: Promise<void> | null
+}
+
+export class ReplyQueue {
+  private chats: Map<string, ChatQueue> = new Map()
+  private scheduler: Scheduler
+
+  constructor(scheduler: Scheduler = systemScheduler) {
+    this.scheduler = scheduler
+  }
+
+  /**
+   * Queue a reply to a chat's latest message
+   * @param delayMs Wait before replying, if nothing is queued yet
+   * @param settleMs Quiet time needed after this message before replying
+   * @returns true if this restarted or replaced a reply already queued or running
+   */
+  enqueue(chatId: string, delayMs: number, settleMs: number, reply: QueuedReply): boolean {
+    const queue = this.getQueue(chatId)
+    const now = this.scheduler.now().getTime()
+    const coalesced = queue.timer !== null || queue.controller !== null
+
+    // A reply written before this message is already out of date
+    if (queue.controller) {
+      queue.controller.abort()
+      queue.controller = null
+    }
+
+    queue.deadline = queue.timer ? Math.max(queue.deadline, now + settleMs) : now + Math.max(delayMs, settleMs)
+    queue.reply = reply
+
+    queue.timer?.cancel()
+    queue.timer = this.scheduler.setTimeout(() => this.fire(chatId), queue.deadline - now)
+
+    return coalesced
+  }
+
+  /**
+   * Drop a chat's queued reply and abort one in progress
+   */
+  cancel(chatId: string): void {
+    const queue = this.chats.get(chatId)
+    if (!queue) {
+      return
+    }
+
+    queue.timer?.cancel()
+    queue.timer = null
+    queue.reply = null
+    queue.controller?.abort()
+    queue.controller = null
+  }
+
+  /**
+   * Whether a reply is waiting or in progress for a chat
+   */
+  isPending(chatId: string): boolean {
+    const queue = this.chats.get(chatId)
+    return !!queue && (queue.timer !== null || queue.controller !== null)
+  }
+
+  /**
+   * Wait for a chat's running reply, if any, to finish or wind down after an abort
+   */
+  async settled(chatId: string): Promise<void> {
+    await this.chats.get(chatId)?.running
+  }
+
+  /**
+   * Cancel everything (shutdown)
+   */
+  stop(): void {
+    for (const chatId of this.chats.keys()) {
+      this.cancel(chatId)
+    }
+  }
+
+  private async fire(chatId: string): Promise<void> {
+    const queue = this.getQueue(chatId)
+    const reply = queue.reply
+    queue.timer = null
+    queue.reply = null
+
+    if (!reply) {
+      return
+    }
+
+    // An aborted reply may still be winding down; never run two at once
+    if (queue.running) {
+      await queue.running
+
+      // Another message came in meanwhile and queued its own reply
+      if (queue.timer) {
+        return
+      }
+    }
+
+    const controller = new AbortController()
+    queue.controller = controller
+
+    const running = reply(controller.signal)
+      .catch(error => {
+        console.error(`[ReplyQueue] Reply for ${chatId} failed:`, error)
+      })
+      .finally(() => {
+        if (queue.controller === controller) {
+          queue.controller = null
+        }
+      })
+    queue.running = running
+
+    await running
+    if (queue.running === running) {
+      queue.running = null
+    }
+  }
+
+  private getQueue(chatId: string): ChatQueue {
+    let queue = this.chats.get(chatId)
+    if (!queue) {
+      queue = { deadline: 0, timer: null, reply: null, controller: null, running: null }
+      this.chats.set(chatId, queue)
+    }
+    return queue
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Reply Timing - Paces agent replies like the user's own
+ *
+ * Learns from the user's history how long they take to answer, split into
+ * thinking time (the wait before they start typing) and typing time (the
+ * reply's length at a typing speed). Before a reply the agent waits a
+ * thinking time sampled from this contact at this time of day, falling back
+ * to this time of day across all contacts, then to all samples. Each text of
+ * a reply then waits as long as it would take to type.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { ReplyLatencySample, ReplyTimingConfig } from '../types/index.js'
+import { getZonedParts } from './zoned-time.js'
+
+/** Gaps longer than this mean the user was away, not slow to answer */
+const MAX_LEARNED_LATENCY_MS = 30 * 60000
+
+/** Fewest samples a bucket needs before it's trusted over a broader one */
+const MIN_BUCKET_SAMPLES = 5
+
+/** Most samples kept per contact */
+export const MAX_LATENCY_SAMPLES = 200
+
+/** Pause between texts of a burst in fixed mode */
+const FIXED_BURST_GAP_MS = 2000
+
+/** A sampled delay is scaled by a random factor in this range, so two replies never wait exactly the same */
+const JITTER = [0.8, 1.25] as const
+
+/** Once the friend can see their message was read, a long silence looks like ghosting */
+const READ_RECEIPT_FACTOR = 0.5
+
+type DayPart = 'night' | 'morning' | 'afternoon' | 'evening'
+
+/**
+ * Find the user's replies in a chat's messages and how long each took
+ * @param messages Messages from one or more chats, in any order
+ */
+export function measureReplyLatencies(
+  messages: readonly Pick<Message, 'guid' | 'chatId' | 'isFromMe' | 'text' | 'date'>[]
+): ReplyLatencySample[] {
+  const samples: ReplyLatencySample[] = []
+  const waitingSince = new Map<string, Date>()
+
+  const sorted = [...messages].sort((a, b) => a.date.getTime() - b.date.getTime())
+  for (const message of sorted) {
+    if (!message.isFromMe) {
+      // The clock starts at the first message the user hasn't answered yet
+      if (!waitingSince.has(message.chatId)) {
+        waitingSince.set(message.chatId, message.date)
+      }
+      continue
+    }
+
+    const since = waitingSince.get(message.chatId)
+    waitingSince.delete(message.chatId)
+
+    const latencyMs = since ? message.date.getTime() - since.getTime() : -1
+    if (latencyMs >= 0 && latencyMs <= MAX_LEARNED_LATENCY_MS && message.text) {
+      samples.push({ replyGuid: message.guid, latencyMs, replyLength: message.text.length, at: message.date })
+    }
+  }
+
+  return samples
+}
+
+/**
+ * How long to wait before answering a friend's message
+ * @param contactSamples This contact's samples
+ * @param globalSamples Samples across all contacts
+ * @param alreadyRead The friend's message already shows as read
+ */
+export function planReplyDelay(
+  contactSamples: ReplyLatencySample[],
+  globalSamples: ReplyLatencySample[],
+  now: Date,
+  timeZone: string,
+  timing: ReplyTimingConfig,
+  alreadyRead: boolean = false,
+  random: () => number = Math.random
+): number {
+  if (timing.mode === 'fixed') {
+    return timing.minDelayMs
+  }
+
+  const dayPart = dayPartOf(now, timeZone)
+  const inDayPart = (samples: ReplyLatencySample[]) => samples.filter(s => dayPartOf(s.at, timeZone) === dayPart)
+
+  const pool = [inDayPart(contactSamples), contactSamples, inDayPart(globalSamples), globalSamples]
+    .find(samples => samples.length >= MIN_BUCKET_SAMPLES)
+
+  let delay: number
+  if (pool) {
+    const sample = pool[Math.floor(random() * pool.length)]
+    const thinking = Math.max(0, sample.latencyMs - typingTimeMs(sample.replyLength, timing))
+    delay = thinking * (JITTER[0] + random() * (JITTER[1] - JITTER[0]))
+  } else {
+    // Nothing learned yet: somewhere in the lower quarter of the allowed range
+    delay = timing.minDelayMs + random() * (timing.maxDelayMs - timing.minDelayMs) / 4
+  }
+
+  if (alreadyRead) {
+    delay *= READ_RECEIPT_FACTOR
+  }
+
+  return Math.round(Math.min(timing.maxDelayMs, Math.max(timing.minDelayMs, delay)))
+}
+
+/**
+ * How long to wait before sending one text of a reply
+ * @param index Position in the burst (0 = first text)
+ */
+export function planTextDelay(text: string, index: number, timing: ReplyTimingConfig, random: () => number = Math.random): number {
+  if (timing.mode === 'fixed') {
+    return index === 0 ? 0 : FIXED_BURST_GAP_MS
+  }
+
+  // Later texts in a burst also get a beat between finishing one and starting the next
+  const pause = index === 0 ? 0 : 500 + random() * 1500
+  return Math.round(typingTimeMs(text.length, timing) + pause)
+}
+
+function typingTimeMs(length: number, timing: ReplyTimingConfig): number {
+  return (length / timing.typingCharsPerSecond) * 1000
+}
+
+function dayPartOf(date: Date, timeZone: string): DayPart {
+  const { hour } = getZonedParts(date, timeZone)
+  if (hour < 6) return 'night'
+  if (hour < 12) return 'morning'
+  if (hour < 18) return 'afternoon'
+  return 'evening'
+}
@@ -0,0 +1,123 @@
+/**
+ * Safety Policy - Blocks outgoing drafts the agent must never send on the user's behalf
+ *
+ * The system prompt asks the model not to overcommit, but nothing enforced it.
+ * Every draft is checked here between generation and sdk.send.
+ */
+
+import type { SafetyRule, SafetyVerdict } from '../types/index.js'
+
+const TIME_REFERENCE = String.raw`(tomorrow|tmrw|tmr|tonight|this weekend|next week|on (mon|tues|wednes|thurs|fri|satur|sun)day|at \d{1,2}(:\d{2})?\s*(am|pm)?|\d{1,2}(:\d{2})?\s*(am|pm))`
+
+/**
+ * Built-in rules - all enabled unless listed in SAFETY_RULES_DISABLED
+ */
+export const DEFAULT_SAFETY_RULES: SafetyRule[] = [
+  {
+    id: 'commitment',
+    description: 'commits you to plans or a specific time',
+    // Casual acceptances ("im in", "i'll be there in spirit") only count once a time is attached
+    patterns: [
+      new RegExp(String.raw`\b(i'?ll|i will|i can|we can|we'?ll|let'?s|i'?m down to)\b[^.!?\n]*\b(meet|come over|come by|be there|swing by|stop by|grab|hang( out)?|call (you|u))\b[^.!?\n]*\b${TIME_REFERENCE}`, 'i'),
+      /\b(i'?ll|i will|i can|we can)\s+(pick (you|u) up|drive (you|u)|come get (you|u))\b/i,
+      new RegExp(String.raw`\b(see (you|u|ya)|meet (you|u)|i'?m free|works for me)\b[^.!?\n]*\b${TIME_REFERENCE}`, 'i'),
+      new RegExp(String.raw`\b${TIME_REFERENCE}\s+(works|is (good|fine|perfect))\b`, 'i'),
+      new RegExp(String.raw`\bi'?m (down|in) (for|to)\b[^.!?\n]*\b${TIME_REFERENCE}`, 'i'),
+      /\b(i promise|it'?s a date)\b/i
+    ]
+  },
+  {
+    id: 'money',
+    description: 'mentions money or payments',
+    patterns: [
+      /[$€£]\s?\d[\d,.]*/,
+      /\b\d+(\.\d+)?\s?(dollars|bucks|usd)\b/i,
+      /\b(venmo|zelle|cash ?app|paypal|pay (you|u) back|i'?ll pay|send (you|u) (the )?money|lend|loan|owe (you|u))\b/i
+    ]
+  },
+  {
+    id: 'address',
+    description: 'shares a street address',
+    patterns: [
+      /\b\d{1,5}\s+([a-z0-9.]+\s){0,3}(street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl)\b/i,
+      /\b(apt|apartment|suite|unit)\s*#?\s*\d+/i
+    ]
+  },
+  {
+    id: 'phone-number',
+    description: 'shares a phone number',
+    patterns: [
+      /(\+?\d{1,2}[\s.-]?)?\(?\b\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b/
+    ]
+  },
+  {
+    id: 'credentials',
+    description: 'mentions passwords, codes or account details',
+    patterns: [
+      /\b(password|passcode|pin number|verification code|security code|2fa|one[- ]time code|ssn|social security)\b/i,
+      /\bcode\b[^.!?\n]*\b\d{4,8}\b/i
+    ]
+  },
+  {
+    id: 'serious-apology',
+    description: 'apologizes for or responds to something serious',
+    patterns: [
+      /\bsorry\b[^.!?\n]*\b(loss|passed away|death|died|funeral|hospital|accident|diagnos\w*|cancer|broke up|breakup|cheat\w*|hurt you|hurt u)\b/i,
+      /\b(my condolences|forgive me|i messed up|i really messed up)\b/i
+    ]
+  }
+]
+
+/**
+ * Build the active rule set from config
+ * @param disabledIds Built-in rule ids to turn off
+ * @param customPatterns Extra regex sources that should also block a send
+ */
+export function buildSafetyRules(disabledIds: string[] = [], customPatterns: string[] = []): SafetyRule[] {
+  const disabled = new Set(disabledIds.map(id => id.trim()).filter(Boolean))
+  const rules = DEFAULT_SAFETY_RULES.filter(rule => !disabled.has(rule.id))
+
+  const patterns: RegExp[] = []
+  for (const source of customPatterns.map(p => p.trim()).filter(Boolean)) {
+    try {
+      patterns.push(new RegExp(source, 'i'))
+    } catch (error) {
+      console.error(`[SafetyPolicy] Ignoring invalid custom pattern ${source}:`, error)
+    }
+  }
+
+  if (patterns.length > 0) {
+    rules.push({ id: 'custom', description: 'matches a custom blocked pattern', patterns })
+  }
+
+  return rules
+}
+
+/**
+ * Check an outgoing draft against the safety rules
+ */
+export function checkOutgoingDraft(text: string, rules: SafetyRule[]): SafetyVerdict {
+  const violations: SafetyVerdict['violations'] = []
+
+  for (const rule of rules) {
+    for (const pattern of rule.patterns) {
+      const match = text.match(pattern)
+      if (match) {
+        violations.push({ ruleId: rule.id, description: rule.description, match: match[0] })
+        break
+      }
+    }
+  }
+
+  return {
+    allowed: violations.length === 0,
+    violations
+  }
+}
+
+/**
+ * Format a verdict's violations for the user-facing notification
+ */
+export function describeViolations(verdict: SafetyVerdict): string {
+  return verdict.violations.map(v => `${v.description} ("${v.match}")`).join(', ')
+}
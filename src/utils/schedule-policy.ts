@@ -0,0 +1,103 @@
+/**
+ * Schedule Policy - Quiet hours, focus blocks and calendar busy time
+ *
+ * All windows are wall-clock times in the configured time zone. Every check
+ * takes the current time explicitly so it can be evaluated at any instant.
+ */
+
+import type { ScheduleConfig, ScheduleState, TimeWindow } from '../types/index.js'
+import { getZonedParts } from './zoned-time.js'
+import { findBusyEvent } from './ics-calendar.js'
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6]
+
+/**
+ * Parse window specs like "01:00-08:00", "mon-fri 09:00-12:00" or "sat,sun 10:00-11:30"
+ * (semicolon-separated list; a window may cross midnight). Invalid entries are logged and skipped.
+ */
+export function parseTimeWindows(spec: string): TimeWindow[] {
+  const windows: TimeWindow[] = []
+
+  for (const entry of spec.split(';').map(e => e.trim()).filter(Boolean)) {
+    const match = entry.toLowerCase().match(/^(?:([a-z,\s-]+?)\s+)?(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/)
+    const days = match ? parseDays(match[1]) : null
+    if (!match || !days) {
+      console.error(`[Schedule] Ignoring invalid time window "${entry}"`)
+      continue
+    }
+
+    const start = parseInt(match[2]) * 60 + parseInt(match[3])
+    const end = parseInt(match[4]) * 60 + parseInt(match[5])
+    if (start >= 24 * 60 || end > 24 * 60 || start === end) {
+      console.error(`[Schedule] Ignoring invalid time window "${entry}"`)
+      continue
+    }
+
+    windows.push({ days, startMinute: start, endMinute: end })
+  }
+
+  return windows
+}
+
+/**
+ * Parse "mon-fri", "sat,sun" or nothing (every day)
+ */
+function parseDays(spec: string | undefined): number[] | null {
+  if (!spec) {
+    return ALL_DAYS
+  }
+
+  const days = new Set<number>()
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const [from, to] = part.split('-').map(d => DAY_NAMES.indexOf(d.trim().slice(0, 3)))
+    if (from < 0 || (to !== undefined && to < 0)) {
+      return null
+    }
+
+    if (to === undefined) {
+      days.add(from)
+    } else {
+      for (let d = from; ; d = (d + 1) % 7) {
+        days.add(d)
+        if (d === to) break
+      }
+    }
+  }
+
+  return Array.from(days).sort()
+}
+
+/**
+ * Whether an instant falls inside any of the windows
+ */
+export function isWithinWindows(windows: TimeWindow[], now: Date, timeZone: string): boolean {
+  if (windows.length === 0) {
+    return false
+  }
+
+  const { weekday, hour, minute } = getZonedParts(now, timeZone)
+  const minuteOfDay = hour * 60 + minute
+  const yesterday = (weekday + 6) % 7
+
+  return windows.some(window => {
+    if (window.startMinute < window.endMinute) {
+      return window.days.includes(weekday) && minuteOfDay >= window.startMinute && minuteOfDay < window.endMinute
+    }
+
+    // Crosses midnight: the late part belongs to today, the early part to yesterday's window
+    return (window.days.includes(weekday) && minuteOfDay >= window.startMinute) ||
+      (window.days.includes(yesterday) && minuteOfDay < window.endMinute)
+  })
+}
+
+/**
+ * Work out what the schedule allows at a given time
+ */
+export function evaluateSchedule(schedule: ScheduleConfig, now: Date): ScheduleState {
+  return {
+    quietHours: isWithinWindows(schedule.quietHours, now, schedule.timeZone),
+    focusBlock: isWithinWindows(schedule.focusBlocks, now, schedule.timeZone),
+    busyEvent: schedule.calendarPath ? findBusyEvent(schedule.calendarPath, schedule.timeZone, now) : null
+  }
+}
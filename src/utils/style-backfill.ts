@@ -0,0 +1,111 @@
+/**
+ * Style Backfill - Seeds style samples from the user's historical messages
+ *
+ * Without this, the tracker only knows about messages the watcher saw since
+ * startup, so the first replies after launch have almost no style samples.
+ * The same fetch also yields how long the user took to reply, for pacing.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { MessagingTransport } from '../transport/messaging-transport.js'
+import type { AgentConfig } from '../types/index.js'
+import type { ConversationTracker } from '../watchers/conversation-tracker.js'
+import { measureReplyLatencies } from './reply-timing.js'
+
+/**
+ * How many messages to fetch per sample wanted - queries include the
+ * friend's messages too, so we over-fetch to end up with enough of ours
+ */
+const FETCH_MULTIPLIER = 4
+
+/**
+ * Backfill a chat's style samples the first time it is tracked
+ * @returns Number of new samples added
+ */
+export async function backfillChatHistory(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  chatId: string,
+  config: AgentConfig
+): Promise<number> {
+  const conv = tracker.getConversation(chatId)
+  if (!conv || conv.historyBackfilled || isUserChat(chatId, config.userIdentifier)) {
+    return 0
+  }
+
+  // Mark before fetching so concurrent messages don't trigger a second backfill
+  conv.historyBackfilled = true
+
+  try {
+    const result = await sdk.getMessages({
+      chatId,
+      excludeOwnMessages: false,
+      excludeReactions: true,
+      limit: config.styleAnalysisCount * FETCH_MULTIPLIER
+    })
+
+    const samples = selectStyleSamples(result.messages, config)
+    const added = tracker.mergeUserMessageHistory(chatId, samples)
+    const latencies = tracker.mergeReplyLatencies(chatId, measureReplyLatencies(result.messages))
+
+    if (config.debug) {
+      console.log(`[Backfill] Added ${added} historical style sample(s) and ${latencies} reply time(s) for ${chatId}`)
+    }
+
+    return added
+  } catch (error) {
+    console.error(`[Backfill] Error backfilling history for ${chatId}:`, error)
+    return 0
+  }
+}
+
+/**
+ * Backfill the global (cross-chat) style sample pool, typically once at startup
+ * @returns Number of new samples added
+ */
+export async function backfillGlobalHistory(
+  sdk: MessagingTransport,
+  tracker: ConversationTracker,
+  config: AgentConfig
+): Promise<number> {
+  try {
+    const result = await sdk.getMessages({
+      excludeOwnMessages: false,
+      excludeReactions: true,
+      limit: config.styleAnalysisCount * FETCH_MULTIPLIER
+    })
+
+    const samples = selectStyleSamples(result.messages, config)
+    const added = tracker.mergeGlobalUserMessages(samples)
+    const latencies = tracker.mergeGlobalReplyLatencies(
+      measureReplyLatencies(result.messages.filter(m => !isUserChat(m.chatId, config.userIdentifier)))
+    )
+
+    if (config.debug) {
+      console.log(`[Backfill] Added ${added} global style sample(s) and ${latencies} reply time(s)`)
+    }
+
+    return added
+  } catch (error) {
+    console.error('[Backfill] Error backfilling global history:', error)
+    return 0
+  }
+}
+
+/**
+ * Keep the user's own text messages (never the self-chat), newest `styleAnalysisCount`
+ */
+function selectStyleSamples(messages: readonly Message[], config: AgentConfig): Message[] {
+  return messages
+    .filter(m => m.isFromMe && m.text && m.text.trim().length > 0)
+    .filter(m => !isUserChat(m.chatId, config.userIdentifier))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .slice(-config.styleAnalysisCount)
+}
+
+/**
+ * Whether a chat is the user's self-chat (where takeover prompts go)
+ */
+export function isUserChat(chatId: string, userIdentifier: string): boolean {
+  return !!userIdentifier && (chatId === userIdentifier || chatId.endsWith(`;${userIdentifier}`))
+}
@@ -0,0 +1,157 @@
+/**
+ * Style Conformance - Scores a candidate message against the user's style profile
+ *
+ * Used as a pre-send check: off-style LLM output is either auto-normalized
+ * (lowercased, punctuation stripped, ...) or regenerated.
+ */
+
+import type { StyleProfile } from '../types/index.js'
+
+/** Minimum score for a candidate to pass */
+export const CONFORMANCE_THRESHOLD = 0.7
+
+/** Tokens the user would never type - any of these fails the candidate outright */
+const FORBIDDEN_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /—/, label: 'em-dash' },
+  { pattern: /\bas an ai\b/i, label: '"As an AI"' },
+  { pattern: /\b(language model|ai assistant)\b/i, label: 'AI self-reference' },
+  { pattern: /\bi'?m (just )?an? (ai|bot|assistant)\b/i, label: 'AI self-reference' },
+  { pattern: /\bhope this helps\b/i, label: 'assistant phrasing' }
+]
+
+const EMOJI_REGEX = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]/u
+const EMOJI_REGEX_GLOBAL = /[\u{1F300}-\u{1F9FF}]|[\u{2600}-\u{26FF}]|[\u{2700}-\u{27BF}]️?/gu
+
+/**
+ * Result of a conformance check
+ */
+export interface ConformanceResult {
+  /** 0 (nothing like the user) to 1 (indistinguishable) */
+  score: number
+
+  /** Whether the candidate can be sent as-is */
+  passed: boolean
+
+  /** Human-readable reasons the score was reduced */
+  violations: string[]
+
+  /** Whether a violation can't be fixed by normalizing (must regenerate) */
+  requiresRegeneration: boolean
+}
+
+/**
+ * Score a single text against a style profile
+ */
+export function scoreConformance(candidate: string, profile: StyleProfile): ConformanceResult {
+  const text = candidate.trim()
+  const violations: string[] = []
+  let penalty = 0
+  let requiresRegeneration = false
+  let hasForbiddenToken = false
+
+  // Forbidden tokens are a hard failure
+  for (const { pattern, label } of FORBIDDEN_PATTERNS) {
+    if (pattern.test(text)) {
+      violations.push(`contains ${label}`)
+      hasForbiddenToken = true
+      requiresRegeneration = requiresRegeneration || label !== 'em-dash'
+      penalty += 1
+    }
+  }
+
+  // Without enough samples only the forbidden-token check is meaningful
+  if (profile.sampleCount > 0) {
+    // Length band: roughly 0.4x to 2.5x the user's average, never tighter than 15 chars
+    const minLength = Math.max(1, Math.floor(profile.averageLength * 0.4))
+    const maxLength = Math.max(15, Math.ceil(profile.averageLength * 2.5))
+    if (text.length > maxLength) {
+      violations.push(`too long (${text.length} chars, usually ~${profile.averageLength})`)
+      requiresRegeneration = true
+      penalty += 0.4
+    } else if (text.length < minLength) {
+      violations.push(`too short (${text.length} chars, usually ~${profile.averageLength})`)
+      penalty += 0.1
+    }
+
+    // Casing
+    const startsUpper = /^[A-Z]/.test(text)
+    if (profile.capsRatio < 0.3 && startsUpper) {
+      violations.push('capitalized, but the user types in lowercase')
+      penalty += 0.2
+    } else if (profile.capsRatio > 0.7 && /^[a-z]/.test(text)) {
+      violations.push('lowercase, but the user capitalizes')
+      penalty += 0.2
+    }
+
+    // Trailing punctuation
+    const endsPunctuated = /[.!?]$/.test(text)
+    if (profile.punctuationRatio < 0.3 && /\.$/.test(text) && !/\.\.\.$/.test(text)) {
+      violations.push('ends with a period, but the user rarely punctuates')
+      penalty += 0.2
+    } else if (profile.punctuationRatio > 0.7 && !endsPunctuated) {
+      violations.push('missing trailing punctuation')
+      penalty += 0.1
+    }
+
+    // Emoji presence
+    if (profile.emojiUsage === 'none' && EMOJI_REGEX.test(text)) {
+      violations.push('uses an emoji, but the user never does')
+      penalty += 0.2
+    }
+  }
+
+  const score = Math.max(0, Math.round((1 - penalty) * 100) / 100)
+
+  return {
+    score,
+    passed: score >= CONFORMANCE_THRESHOLD && !hasForbiddenToken,
+    violations,
+    requiresRegeneration
+  }
+}
+
+/**
+ * Score a multi-message burst - the burst is only as good as its worst text
+ */
+export function scoreBurstConformance(texts: string[], profile: StyleProfile): ConformanceResult {
+  const results = texts.map(text => scoreConformance(text, profile))
+  const worst = results.reduce((a, b) => (b.score < a.score ? b : a))
+
+  return {
+    score: worst.score,
+    passed: results.every(r => r.passed),
+    violations: results.flatMap(r => r.violations),
+    requiresRegeneration: results.some(r => r.requiresRegeneration)
+  }
+}
+
+/**
+ * Mechanically nudge a text toward the user's style (casing, punctuation,
+ * emoji, dashes). Can't fix length or AI self-references.
+ */
+export function normalizeToStyle(candidate: string, profile: StyleProfile): string {
+  let text = candidate.trim()
+
+  // Em-dashes read as machine-written; use whatever a texter would
+  text = text.replace(/\s*—\s*/g, profile.punctuationRatio < 0.3 ? ' ' : ', ')
+
+  if (profile.sampleCount === 0) {
+    return text.trim()
+  }
+
+  if (profile.capsRatio < 0.3) {
+    text = text.toLowerCase()
+  } else if (profile.capsRatio > 0.7) {
+    text = text.charAt(0).toUpperCase() + text.slice(1)
+  }
+
+  if (profile.punctuationRatio < 0.3 && /[^.]\.$/.test(text)) {
+    text = text.slice(0, -1)
+  }
+
+  if (profile.emojiUsage === 'none') {
+    text = text.replace(EMOJI_REGEX_GLOBAL, '').replace(/\s{2,}/g, ' ')
+  }
+
+  return text.trim()
+}
@@ -0,0 +1,88 @@
+/**
+ * StyleProfileCache - Per-contact and global style profiles
+ *
+ * Profiles are computed with the style analyzer, persisted through the
+ * conversation store, and only recomputed when new samples have arrived.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { StyleProfile } from '../types/index.js'
+import type { ConversationStore } from '../storage/conversation-store.js'
+import { analyzeStyle } from '../agent/tools/style-analyzer.js'
+import { type Clock, systemClock } from './clock.js'
+
+/** Scope key used for the profile computed across all chats */
+export const GLOBAL_STYLE_SCOPE = '*'
+
+/** Minimum samples before a contact's own profile is preferred over the global one */
+export const MIN_CONTACT_STYLE_SAMPLES = 10
+
+export class StyleProfileCache {
+  private profiles: Map<string, StyleProfile> = new Map()
+  private store: ConversationStore
+  private debug: boolean
+  private clock: Clock
+
+  constructor(store: ConversationStore, debug: boolean = false, clock: Clock = systemClock) {
+    this.store = store
+    this.debug = debug
+    this.clock = clock
+  }
+
+  /**
+   * Load persisted profiles from the store
+   */
+  load(): void {
+    for (const profile of this.store.loadStyleProfiles()) {
+      this.profiles.set(profile.scope, profile)
+    }
+  }
+
+  /**
+   * Get the profile for a scope, recomputing it only if the samples changed
+   * @param scope chatId, or GLOBAL_STYLE_SCOPE
+   * @param samples The user's messages for that scope, oldest first
+   * @param received The other side's messages in those chats, which end the user's bursts
+   */
+  getProfile(scope: string, samples: Message[], received: Message[] = []): StyleProfile {
+    const cached = this.profiles.get(scope)
+    const lastSampleGuid = samples.length > 0 ? samples[samples.length - 1].guid : null
+
+    if (cached && cached.lastSampleGuid === lastSampleGuid && cached.sampleCount === countTextSamples(samples)) {
+      return cached
+    }
+
+    const profile: StyleProfile = {
+      ...analyzeStyle(
+        [...samples, ...received].map(m => ({
+          text: m.text || '',
+          date: m.date.toISOString(),
+          chatId: m.chatId,
+          isFromMe: m.isFromMe
+        })),
+        samples.length
+      ),
+      scope,
+      lastSampleGuid,
+      updatedAt: this.clock.now()
+    }
+
+    this.profiles.set(scope, profile)
+
+    try {
+      this.store.saveStyleProfile(profile)
+    } catch (error) {
+      console.error(`[StyleProfiles] Error persisting profile for ${scope}:`, error)
+    }
+
+    if (this.debug) {
+      console.log(`[StyleProfiles] Refreshed profile for ${scope} (${profile.sampleCount} samples)`)
+    }
+
+    return profile
+  }
+}
+
+function countTextSamples(samples: Message[]): number {
+  return samples.filter(m => m.text && m.text.trim().length > 0).length
+}
@@ -4,10 +4,17 @@
 
 import type { ConversationState } from '../types/index.js'
 import type { ConversationTracker } from '../watchers/conversation-tracker.js'
+import { type Scheduler, type TimerHandle, systemScheduler } from './clock.js'
 
 export class TimerManager {
-  private timerId: NodeJS.Timeout | null = null
+  private timer: TimerHandle | null = null
   private isRunning: boolean = false
+  private isPaused: boolean = false
+  private scheduler: Scheduler
+
+  constructor(scheduler: Scheduler = systemScheduler) {
+    this.scheduler = scheduler
+  }
 
   /**
    * Start periodic inactivity checks
@@ -16,6 +23,8 @@ export class TimerManager {
    * @param maxInactivityMs Maximum inactivity time (e.g., 3600000 = 1 hour)
    * @param tracker The conversation tracker to query
    * @param callback Function to call for each inactive conversation
+   * @param userIdentifier User's own chat, never treated as inactive
+   * @param approvalTimeoutMs Expire takeover prompts unanswered for this long (optional)
    */
   startInactivityCheck(
     intervalMs: number,
@@ -23,7 +32,8 @@ export class TimerManager {
     maxInactivityMs: number,
     tracker: ConversationTracker,
     callback: (conv: ConversationState) => Promise<void>,
-    userIdentifier?: string
+    userIdentifier?: string,
+    approvalTimeoutMs?: number
   ): void {
     if (this.isRunning) {
       console.warn('[TimerManager] Inactivity check already running')
@@ -34,7 +44,19 @@ export class TimerManager {
 
     console.log(`[TimerManager] Starting inactivity checks every ${intervalMs / 1000}s`)
 
-    this.timerId = setInterval(async () => {
+    this.timer = this.scheduler.setInterval(async () => {
+      if (approvalTimeoutMs) {
+        const expired = tracker.expirePendingApprovals(approvalTimeoutMs)
+        if (expired.length > 0) {
+          console.log(`[TimerManager] Expired ${expired.length} unanswered takeover prompt(s)`)
+        }
+      }
+
+      // Globally paused - nothing new gets a takeover prompt
+      if (this.isPaused) {
+        return
+      }
+
       const inactiveConversations = tracker.getInactiveConversations(
         inactivityThresholdMs,
         maxInactivityMs,
@@ -61,9 +83,9 @@ export class TimerManager {
    * Stop the inactivity check timer
    */
   stop(): void {
-    if (this.timerId) {
-      clearInterval(this.timerId)
-      this.timerId = null
+    if (this.timer) {
+      this.timer.cancel()
+      this.timer = null
       this.isRunning = false
       console.log('[TimerManager] Stopped inactivity checks')
     }
@@ -75,4 +97,27 @@ export class TimerManager {
   getIsRunning(): boolean {
     return this.isRunning
   }
+
+  /**
+   * Stop sending takeover prompts without stopping the timer
+   */
+  pause(): void {
+    this.isPaused = true
+    console.log('[TimerManager] Paused takeover prompts')
+  }
+
+  /**
+   * Start sending takeover prompts again
+   */
+  resume(): void {
+    this.isPaused = false
+    console.log('[TimerManager] Resumed takeover prompts')
+  }
+
+  /**
+   * Check if takeover prompts are paused
+   */
+  getIsPaused(): boolean {
+    return this.isPaused
+  }
 }
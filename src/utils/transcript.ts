@@ -0,0 +1,108 @@
+/**
+ * Transcript - A chat's recent messages with the agent's part marked
+ *
+ * Backs the "transcript Sam" command. Which of the user's outgoing texts
+ * the agent wrote comes from the audit log's message_sent events, and
+ * takeovers, wind-downs and hand-backs appear between the messages with
+ * the reason recorded for each.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { AgentEvent, ConversationState } from '../types/index.js'
+import { speakerName } from './group-chat.js'
+import { getZonedParts } from './zoned-time.js'
+
+/** A sent text and the outgoing message it became are at most this far apart */
+const ECHO_WINDOW_MS = 10 * 60000
+
+/** Marks texts the agent wrote */
+const AGENT_MARK = '🤖'
+
+/**
+ * Render a chat's messages and the agent's events as one timeline
+ * @param messages The chat's messages, oldest first
+ * @param events The chat's audit events, oldest first
+ */
+export function formatChatTranscript(
+  conv: Pick<ConversationState, 'friendName' | 'isGroup' | 'participants'>,
+  messages: Message[],
+  events: AgentEvent[],
+  timeZone: string
+): string {
+  if (messages.length === 0) {
+    return `No messages with ${conv.friendName} yet`
+  }
+
+  // Each text the agent sent can be claimed by one outgoing message
+  const agentTexts = events.flatMap(event => event.type === 'message_sent'
+    ? event.texts.map(text => ({ text: text.trim(), at: event.timestamp.getTime() }))
+    : [])
+
+  // At the same instant a takeover comes before the messages it led to, anything else after them
+  const entries: Array<{ at: number; order: number; line: string }> = []
+  let written = 0
+
+  for (const message of messages) {
+    let mark = ''
+    if (message.isFromMe) {
+      const text = (message.text || '').trim()
+      const index = agentTexts.findIndex(sent =>
+        sent.text === text && Math.abs(sent.at - message.date.getTime()) <= ECHO_WINDOW_MS
+      )
+      if (index >= 0) {
+        agentTexts.splice(index, 1)
+        mark = `${AGENT_MARK} `
+        written++
+      }
+    }
+
+    entries.push({
+      at: message.date.getTime(),
+      order: 0,
+      line: `${formatTime(message.date, timeZone)} ${mark}${speakerName(conv, message)}: ${message.text || '(attachment)'}`
+    })
+  }
+
+  const since = messages[0].date.getTime()
+  for (const event of events) {
+    const note = describeEvent(event)
+    if (note && event.timestamp.getTime() >= since) {
+      entries.push({
+        at: event.timestamp.getTime(),
+        order: event.type === 'activation' ? -1 : 1,
+        line: `${formatTime(event.timestamp, timeZone)} — ${note}`
+      })
+    }
+  }
+
+  entries.sort((a, b) => a.at - b.at || a.order - b.order)
+
+  const outgoing = messages.filter(m => m.isFromMe).length
+  return [
+    `Transcript with ${conv.friendName} (${AGENT_MARK} = written by me, ${written} of your ${outgoing} text${outgoing === 1 ? '' : 's'})`,
+    ...entries.map(entry => entry.line)
+  ].join('\n')
+}
+
+/**
+ * One line for a session event (sent messages show up as the messages themselves)
+ */
+function describeEvent(event: AgentEvent): string | null {
+  switch (event.type) {
+    case 'activation':
+      return `I took over: ${event.reason}`
+    case 'deactivation':
+      return `I stopped: ${event.reason}`
+    case 'wind_down':
+      return `I wrapped up: ${event.reason}`
+    case 'error':
+      return `I hit an error: ${event.message}`
+    case 'message_sent':
+      return null
+  }
+}
+
+function formatTime(date: Date, timeZone: string): string {
+  const { hour, minute } = getZonedParts(date, timeZone)
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`
+}
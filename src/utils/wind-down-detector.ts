@@ -0,0 +1,133 @@
+/**
+ * Wind-Down Detector - Heuristic read on whether a conversation is ending
+ *
+ * Looks only at what the friend said since the agent last texted. An
+ * outright goodbye ends it; a bare "ok cool" only counts when the replies
+ * have been getting shorter; any open question keeps it going.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { ConversationMomentum, WindDownSignals } from '../types/index.js'
+
+/** Closure score at which the agent should wrap up */
+export const WIND_DOWN_THRESHOLD = 0.7
+
+/** Explicit goodbyes, matched as whole words anywhere in the message */
+const FAREWELL_PATTERNS = [
+  /\b(gotta|got to|have to|need to) (go|run|head out|bounce)\b/i,
+  /\b(gtg|g2g|ttyl|ttys|cya|bye+|byee+|goodnight|gn)\b/i,
+  /\b(talk|text|chat|catch) (you |u |ya )?(later|soon|tomorrow|tmrw)\b/i,
+  /\bsee (you|u|ya) (later|soon|tomorrow|tmrw|then)\b/i,
+  /\b(good ?night|night night|nighty night)\b/i,
+  /\bhave a good (one|night|day|weekend)\b/i,
+  /^(later|laters|night|nite)\W*$/i
+]
+
+/** Replies that acknowledge without adding anything - only these words, emoji and punctuation */
+const ACKNOWLEDGEMENT_WORDS = new Set([
+  'ok', 'okay', 'okk', 'k', 'kk', 'cool', 'nice', 'sounds', 'good', 'alright', 'aight', 'perfect',
+  'great', 'bet', 'for', 'sure', 'yep', 'yup', 'yeah', 'ya', 'ye', 'true', 'lol', 'lmao', 'haha',
+  'hahaha', 'same', 'word', 'fair', 'gotcha', 'got', 'it', 'np', 'thanks', 'thx', 'ty', 'will', 'do'
+])
+
+/** Openers that make a message a question even without a "?" */
+const QUESTION_OPENER = /^(what|when|where|who|why|how|which|wanna|(do|did|are|can|could|would|will|have|should) (you|u)|r u|(you|u) wanna)\b/i
+
+/** The parts of a message the detector reads */
+type TranscriptMessage = Pick<Message, 'isFromMe' | 'text'>
+
+/**
+ * Read the friend's latest messages for signs the conversation is ending
+ * @param history Recent conversation, oldest first
+ */
+export function detectWindDownSignals(history: TranscriptMessage[]): WindDownSignals {
+  const lastOutgoing = history.map(m => m.isFromMe).lastIndexOf(true)
+  const unanswered = history.slice(lastOutgoing + 1).filter(m => !m.isFromMe && m.text)
+  const texts = unanswered.map(m => (m.text || '').trim())
+
+  if (texts.length === 0) {
+    return { closureScore: 0, farewell: false, openQuestion: false, momentum: 'steady', reason: 'nothing new from them' }
+  }
+
+  const openQuestion = texts.some(isQuestion)
+  const farewell = texts.some(text => FAREWELL_PATTERNS.some(pattern => pattern.test(text)))
+  const acknowledgementOnly = texts.every(isAcknowledgement)
+  const momentum = measureMomentum(history)
+
+  if (openQuestion) {
+    return { closureScore: 0, farewell, openQuestion, momentum, reason: 'they asked something' }
+  }
+
+  if (farewell) {
+    return { closureScore: 0.9, farewell, openQuestion, momentum, reason: 'they said goodbye' }
+  }
+
+  if (acknowledgementOnly) {
+    return {
+      closureScore: momentum === 'fading' ? 0.7 : 0.5,
+      farewell,
+      openQuestion,
+      momentum,
+      reason: momentum === 'fading' ? 'short acknowledgement after shrinking replies' : 'short acknowledgement'
+    }
+  }
+
+  return {
+    closureScore: momentum === 'fading' ? 0.3 : 0.1,
+    farewell,
+    openQuestion,
+    momentum,
+    reason: 'conversation is still going'
+  }
+}
+
+/**
+ * Whether a text asks something (a "?" that isn't just a tag, or a question opener)
+ */
+export function isQuestion(text: string): boolean {
+  // A tag like "right?" or "lol?" on a statement isn't really asking anything
+  const withoutTag = text.replace(/\b(right|lol|haha|no|huh|ya know)\s*\?+\W*$/i, '')
+  return withoutTag.includes('?') ||
+    text.split(/[,.!;]+/).some(clause => QUESTION_OPENER.test(clause.trim()))
+}
+
+function isAcknowledgement(text: string): boolean {
+  const words = text
+    .toLowerCase()
+    .replace(/[\p{Extended_Pictographic}\u{FE0F}\u{1F3FB}-\u{1F3FF}]/gu, ' ')
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  // Pure emoji ("👍", "😂") counts too
+  return words.every(word => ACKNOWLEDGEMENT_WORDS.has(word))
+}
+
+/**
+ * Compare the friend's latest message with the few before it: a much
+ * shorter reply means the conversation is dying down
+ */
+function measureMomentum(history: TranscriptMessage[]): ConversationMomentum {
+  const lengths = history
+    .filter(m => !m.isFromMe && m.text)
+    .map(m => (m.text || '').trim().length)
+
+  if (lengths.length < 2) {
+    return 'steady'
+  }
+
+  const recent = lengths[lengths.length - 1]
+  const earlier = average(lengths.slice(-5, -1))
+
+  if (recent < earlier * 0.5) {
+    return 'fading'
+  }
+  if (recent > earlier * 1.5) {
+    return 'rising'
+  }
+  return 'steady'
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
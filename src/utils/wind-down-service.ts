@@ -0,0 +1,75 @@
+/**
+ * Wind-Down Service - Decides whether the agent should wrap up a conversation
+ *
+ * Combines the heuristic detector with the LLM closure judge. An outright
+ * goodbye is decided without the LLM; an open question from either side
+ * always keeps the conversation going; otherwise the two closure scores are
+ * blended, with the LLM weighted higher.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { AgentConfig, ConversationState, WindDownResult } from '../types/index.js'
+import { detectWindDownSignals, WIND_DOWN_THRESHOLD } from './wind-down-detector.js'
+import { judgeClosureWithLLM } from '../agent/closure-judge.js'
+import { describeMessages } from './attachment-context.js'
+
+/** Share of the blended score that comes from the LLM */
+const LLM_WEIGHT = 0.6
+
+/**
+ * Decide whether to send a wind-down instead of another reply
+ * @param history Recent conversation, oldest first
+ */
+export async function decideWindDown(
+  conv: ConversationState,
+  history: Message[],
+  config: AgentConfig
+): Promise<WindDownResult> {
+  const signals = detectWindDownSignals(history)
+
+  const heuristicResult: WindDownResult = {
+    shouldWindDown: !signals.openQuestion && signals.closureScore >= WIND_DOWN_THRESHOLD,
+    reason: signals.reason,
+    closureScore: signals.closureScore,
+    openQuestion: signals.openQuestion,
+    momentum: signals.momentum,
+    source: 'heuristic'
+  }
+
+  // Goodbyes and unanswered questions are clear enough on their own
+  if (!config.windDownLlm || signals.farewell || signals.openQuestion) {
+    return heuristicResult
+  }
+
+  let judgment
+  try {
+    const descriptions = await describeMessages(history.slice(-12), config.attachments)
+    judgment = await judgeClosureWithLLM(conv, history, descriptions, config.schemaRetryBudget)
+  } catch (error) {
+    console.error('[WindDown] Closure judge failed, using heuristics only:', error)
+    return heuristicResult
+  }
+
+  if (!judgment) {
+    return heuristicResult
+  }
+
+  const llmScore = judgment.closed ? judgment.confidence : 1 - judgment.confidence
+  const closureScore = (1 - LLM_WEIGHT) * signals.closureScore + LLM_WEIGHT * llmScore
+  const momentum = signals.momentum === 'fading' || judgment.momentum === 'fading'
+    ? 'fading'
+    : judgment.momentum
+  const openQuestion = judgment.openQuestion
+
+  // A fading conversation needs less certainty to call it
+  const threshold = momentum === 'fading' ? WIND_DOWN_THRESHOLD - 0.1 : WIND_DOWN_THRESHOLD
+
+  return {
+    shouldWindDown: !openQuestion && closureScore >= threshold,
+    reason: judgment.reason || signals.reason,
+    closureScore,
+    openQuestion,
+    momentum,
+    source: 'combined'
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Zoned Time - Wall-clock conversions for IANA time zones using Intl
+ *
+ * Quiet hours and calendar events are written in local time; these helpers
+ * map between that and real instants, including across DST changes.
+ */
+
+/**
+ * Calendar fields of an instant as seen in a time zone
+ */
+export interface ZonedParts {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second: number
+
+  /** 0 = Sunday ... 6 = Saturday */
+  weekday: number
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+const DAY_MS = 86400000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * The system's time zone, e.g. "America/New_York"
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Validate a configured time zone, falling back to the system zone
+ */
+export function resolveTimeZone(name: string | undefined): string {
+  if (!name) {
+    return systemTimeZone()
+  }
+
+  try {
+    getFormatter(name)
+    return name
+  } catch {
+    console.error(`[ZonedTime] Unknown time zone "${name}", using ${systemTimeZone()}`)
+    return systemTimeZone()
+  }
+}
+
+/**
+ * Break an instant into wall-clock fields in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {}
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value
+  }
+
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  }
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an instant
+ * (month is 1-based, as written in calendars). As in RFC 5545, a time
+ * skipped by a spring-forward uses the offset from before the gap, and a
+ * time repeated by a fall-back resolves to its first occurrence.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): Date {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second)
+
+  // Zones change offset at most once within a day, so the offsets a day either side cover both readings
+  const offsetBefore = offsetMs(new Date(wallClockAsUtc - DAY_MS), timeZone)
+  const offsetAfter = offsetMs(new Date(wallClockAsUtc + DAY_MS), timeZone)
+
+  const candidates = [wallClockAsUtc - offsetBefore, wallClockAsUtc - offsetAfter]
+    .filter(instant => {
+      const p = getZonedParts(new Date(instant), timeZone)
+      return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) === wallClockAsUtc
+    })
+
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : wallClockAsUtc - offsetBefore)
+}
+
+/**
+ * How far a time zone is ahead of UTC at an instant
+ */
+function offsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000
+}
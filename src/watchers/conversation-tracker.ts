@@ -4,14 +4,77 @@
  */
 
 import type { Message } from '@photon-ai/imessage-kit'
-import type { ConversationState } from '../types/index.js'
+import type { ConversationState, GenerationRecord, ReplyLatencySample, StyleProfile } from '../types/index.js'
+import { type ConversationStore, MemoryConversationStore } from '../storage/conversation-store.js'
+import { type Clock, systemClock } from '../utils/clock.js'
+import { AgentEventBus } from '../utils/event-bus.js'
+import {
+  StyleProfileCache,
+  GLOBAL_STYLE_SCOPE,
+  MIN_CONTACT_STYLE_SAMPLES
+} from '../utils/style-profile-cache.js'
+import { measureReplyLatencies, MAX_LATENCY_SAMPLES } from '../utils/reply-timing.js'
+import { isUserChat } from '../utils/style-backfill.js'
+
+/** Most transcript messages (both sides) kept per chat */
+export const MAX_CONVERSATION_HISTORY = 200
+
+/** Most of the user's own messages kept per chat as style samples */
+export const MAX_USER_MESSAGE_HISTORY = 200
 
 export class ConversationTracker {
   private conversations: Map<string, ConversationState> = new Map()
+  private globalUserMessages: Message[] = []
+  private globalReplyLatencies: ReplyLatencySample[] = []
   private debug: boolean
-
-  constructor(debug: boolean = false) {
+  private store: ConversationStore
+  private styleProfiles: StyleProfileCache
+  private clock: Clock
+  private userIdentifier: string
+
+  /** Takeovers and hand-backs are announced here (agent-core emits the rest) */
+  readonly events: AgentEventBus
+
+  constructor(
+    debug: boolean = false,
+    store: ConversationStore = new MemoryConversationStore(),
+    clock: Clock = systemClock,
+    events: AgentEventBus = new AgentEventBus(),
+    userIdentifier: string = ''
+  ) {
     this.debug = debug
+    this.store = store
+    this.clock = clock
+    this.events = events
+    this.userIdentifier = userIdentifier
+    this.styleProfiles = new StyleProfileCache(store, debug, clock)
+  }
+
+  /**
+   * Rehydrate tracked conversations from the store
+   * @returns Number of conversations restored
+   */
+  load(): number {
+    const restored = this.store.loadConversations()
+
+    for (const conv of restored) {
+      trimHistory(conv)
+      this.conversations.set(conv.chatId, conv)
+    }
+
+    for (const conv of restored) {
+      if (conv.pendingDraft && conv.pendingDraft.handle === 0) {
+        conv.pendingDraft.handle = this.nextHandle()
+      }
+    }
+
+    this.styleProfiles.load()
+
+    if (this.debug) {
+      console.log(`[Tracker] Restored ${restored.length} conversation(s) from storage`)
+    }
+
+    return restored.length
   }
 
   /**
@@ -23,9 +86,16 @@ export class ConversationTracker {
     // Always update timestamp (fixes inactivity loop bug)
     conv.lastOutgoingTimestamp = message.date
 
-    // Only add to user history if it's not an agent message
-    if (!isAgentMessage) {
+    // Both sides belong in the transcript the agent replies from
+    conv.conversationHistory.push(message)
+
+    // Only add to user history if it's not an agent message, and not a reply to the agent in the self-chat
+    if (!isAgentMessage && !isUserChat(chatId, this.userIdentifier)) {
       conv.userMessageHistory.push(message)
+
+      // Learn how long the user took to answer (the agent's own pace would teach it nothing)
+      const latest = measureReplyLatencies(conv.conversationHistory.slice(-50)).filter(s => s.replyGuid === message.guid)
+      conv.replyLatencies = mergeLatencies(conv.replyLatencies, latest)
     }
 
     // If user responds while agent is active, deactivate the agent
@@ -36,14 +106,22 @@ export class ConversationTracker {
       }
       conv.isAgentActive = false
       conv.messagesSent = 0
+      conv.pendingDraft = null
+      this.events.emit({
+        type: 'deactivation',
+        chatId,
+        timestamp: this.clock.now(),
+        reason: 'you texted them yourself',
+        sessionStartedAt: conv.agentActivationTime
+      })
     }
 
     // Reset approval state only if user sent the message
     if (!isAgentMessage) {
-      conv.awaitingApproval = false
+      clearApproval(conv)
     }
 
-    this.conversations.set(chatId, conv)
+    this.persist(conv)
 
     if (this.debug) {
       console.log(`[Tracker] Updated outgoing: ${chatId}${isAgentMessage ? ' (agent)' : ''}`)
@@ -52,14 +130,35 @@ export class ConversationTracker {
 
   /**
    * Update tracking when friend sends an incoming message
+   * @param addressesUser - in a group chat, the message mentions or answers the user
    */
-  updateIncomingMessage(chatId: string, message: Message): void {
+  updateIncomingMessage(chatId: string, message: Message, addressesUser: boolean = false): void {
     const conv = this.getOrCreateConversation(chatId)
 
     conv.lastIncomingTimestamp = message.date
     conv.conversationHistory.push(message)
 
-    this.conversations.set(chatId, conv)
+    if (message.isGroupChat) {
+      conv.isGroup = true
+
+      const participant = conv.participants.find(p => p.handle === message.sender)
+      if (!participant) {
+        conv.participants.push({ handle: message.sender, name: message.senderName })
+      } else if (message.senderName) {
+        participant.name = message.senderName
+      }
+
+      if (addressesUser) {
+        conv.lastAddressedBy = {
+          handle: message.sender,
+          name: message.senderName || participant?.name || message.sender,
+          text: message.text || '',
+          at: message.date
+        }
+      }
+    }
+
+    this.persist(conv)
 
     if (this.debug) {
       console.log(`[Tracker] Updated incoming: ${chatId}`)
@@ -70,7 +169,7 @@ export class ConversationTracker {
    * Get conversations that have been inactive for longer than threshold
    */
   getInactiveConversations(thresholdMs: number, maxInactivityMs: number, userIdentifier?: string): ConversationState[] {
-    const now = Date.now()
+    const now = this.clock.now().getTime()
     const inactive: ConversationState[] = []
 
     for (const conv of this.conversations.values()) {
@@ -86,6 +185,11 @@ export class ConversationTracker {
         continue
       }
 
+      // Skip conversations the user paused or muted
+      if (this.isMuted(conv.chatId)) {
+        continue
+      }
+
       // Only trigger if inactivity is within range
       if (inactivityMs >= thresholdMs && inactivityMs <= maxInactivityMs) {
         // Only trigger if there was a recent incoming message (friend is expecting reply)
@@ -107,17 +211,72 @@ export class ConversationTracker {
 
   /**
    * Mark a conversation as waiting for user approval
+   * @returns The prompt handle assigned (lowest number not used by another pending prompt or draft)
    */
-  markAwaitingApproval(chatId: string): void {
+  markAwaitingApproval(chatId: string): number | null {
     const conv = this.conversations.get(chatId)
-    if (conv) {
-      conv.awaitingApproval = true
-      this.conversations.set(chatId, conv)
+    if (!conv) {
+      return null
+    }
+
+    const handle = this.nextHandle()
+    conv.awaitingApproval = true
+    conv.promptHandle = handle
+    conv.awaitingApprovalSince = this.clock.now()
+    this.persist(conv)
+
+    if (this.debug) {
+      console.log(`[Tracker] Marked awaiting approval: ${chatId} [${handle}]`)
+    }
+
+    return handle
+  }
+
+  /**
+   * Get conversations with an unanswered takeover prompt, ordered by handle
+   */
+  getPendingApprovals(): ConversationState[] {
+    return Array.from(this.conversations.values())
+      .filter(c => c.awaitingApproval)
+      .sort((a, b) => (a.promptHandle ?? 0) - (b.promptHandle ?? 0))
+  }
+
+  /**
+   * Get conversations with a draft waiting for review, ordered by handle
+   */
+  getPendingDrafts(): ConversationState[] {
+    return Array.from(this.conversations.values())
+      .filter(c => c.pendingDraft)
+      .sort((a, b) => (a.pendingDraft?.handle ?? 0) - (b.pendingDraft?.handle ?? 0))
+  }
+
+  /**
+   * Find the conversation awaiting approval under a prompt handle
+   */
+  getConversationByHandle(handle: number): ConversationState | undefined {
+    return this.getPendingApprovals().find(c => c.promptHandle === handle)
+  }
+
+  /**
+   * Drop takeover prompts that have gone unanswered for too long
+   * @returns The conversations whose prompts expired
+   */
+  expirePendingApprovals(timeoutMs: number): ConversationState[] {
+    const now = this.clock.now().getTime()
+    const expired = this.getPendingApprovals().filter(c =>
+      c.awaitingApprovalSince && now - c.awaitingApprovalSince.getTime() >= timeoutMs
+    )
+
+    for (const conv of expired) {
+      clearApproval(conv)
+      this.persist(conv)
 
       if (this.debug) {
-        console.log(`[Tracker] Marked awaiting approval: ${chatId}`)
+        console.log(`[Tracker] Takeover prompt expired: ${conv.chatId}`)
       }
     }
+
+    return expired
   }
 
   /**
@@ -127,13 +286,23 @@ export class ConversationTracker {
   markAgentActive(chatId: string, isInitialActivation: boolean = true): void {
     const conv = this.conversations.get(chatId)
     if (conv) {
+      const reason = conv.awaitingApproval
+        ? `you approved takeover prompt [${conv.promptHandle}]`
+        : 'taken over without a prompt (auto-approve or "take over")'
+
       conv.isAgentActive = true
-      conv.awaitingApproval = false
+      clearApproval(conv)
 
       // Only reset messagesSent and set activation time on initial activation
       if (isInitialActivation) {
         conv.messagesSent = 0
-        conv.agentActivationTime = new Date()
+        conv.agentActivationTime = this.clock.now()
+      }
+
+      this.persist(conv)
+
+      if (isInitialActivation) {
+        this.events.emit({ type: 'activation', chatId, timestamp: this.clock.now(), reason })
       }
 
       if (this.debug) {
@@ -151,20 +320,30 @@ export class ConversationTracker {
       return false
     }
 
-    const elapsed = Date.now() - conv.agentActivationTime.getTime()
+    const elapsed = this.clock.now().getTime() - conv.agentActivationTime.getTime()
     return elapsed < windowMs
   }
 
   /**
    * Mark the agent as inactive in a conversation
+   * @param reason Why it stopped, for the audit log
+   * @param draft The draft it held back, if that's why
    */
-  markAgentInactive(chatId: string): void {
+  markAgentInactive(chatId: string, reason: string, draft?: string): void {
     const conv = this.conversations.get(chatId)
     if (conv) {
+      const wasActive = conv.isAgentActive
+      const sessionStartedAt = conv.agentActivationTime
       conv.isAgentActive = false
       conv.messagesSent = 0
-      conv.lastAgentDeactivationTime = new Date() // Track when agent was deactivated
+      conv.lastAgentDeactivationTime = this.clock.now() // Track when agent was deactivated
       conv.agentActivationTime = null // Clear the activation time
+      conv.pendingDraft = null
+      this.persist(conv)
+
+      if (wasActive) {
+        this.events.emit({ type: 'deactivation', chatId, timestamp: this.clock.now(), reason, draft, sessionStartedAt })
+      }
 
       if (this.debug) {
         console.log(`[Tracker] Agent deactivated: ${chatId}`)
@@ -172,6 +351,41 @@ export class ConversationTracker {
     }
   }
 
+  /**
+   * Store a drafted reply awaiting the user's decision (review mode)
+   * @param isFinal Sending it ends the agent's session
+   * @param generation The generation it came from
+   * @returns The draft's handle
+   */
+  setPendingDraft(chatId: string, texts: string[], isFinal: boolean = false, generation: GenerationRecord | null = null): number | null {
+    const conv = this.conversations.get(chatId)
+    if (!conv) {
+      return null
+    }
+
+    // A replacement draft keeps the number the user already knows it by
+    const handle = conv.pendingDraft?.handle ?? this.nextHandle()
+    conv.pendingDraft = { handle, texts, isFinal, createdAt: this.clock.now(), generation }
+    this.persist(conv)
+
+    if (this.debug) {
+      console.log(`[Tracker] Draft pending review: ${chatId} [${handle}]`)
+    }
+
+    return handle
+  }
+
+  /**
+   * Discard a drafted reply
+   */
+  clearPendingDraft(chatId: string): void {
+    const conv = this.conversations.get(chatId)
+    if (conv && conv.pendingDraft) {
+      conv.pendingDraft = null
+      this.persist(conv)
+    }
+  }
+
   /**
    * Increment the message count for an agent session
    */
@@ -179,21 +393,29 @@ export class ConversationTracker {
     const conv = this.conversations.get(chatId)
     if (conv) {
       conv.messagesSent++
-      this.conversations.set(chatId, conv)
+      this.persist(conv)
     }
   }
 
   /**
    * Reset a conversation (clear approval state, deactivate agent)
+   * @param reason Why, recorded if this ends an agent session
    */
-  resetConversation(chatId: string): void {
+  resetConversation(chatId: string, reason: string = 'conversation reset'): void {
     const conv = this.conversations.get(chatId)
     if (conv) {
+      const wasActive = conv.isAgentActive
+      const sessionStartedAt = conv.agentActivationTime
       conv.isAgentActive = false
-      conv.awaitingApproval = false
+      clearApproval(conv)
       conv.messagesSent = 0
       conv.agentActivationTime = null
-      this.conversations.set(chatId, conv)
+      conv.pendingDraft = null
+      this.persist(conv)
+
+      if (wasActive) {
+        this.events.emit({ type: 'deactivation', chatId, timestamp: this.clock.now(), reason, sessionStartedAt })
+      }
 
       if (this.debug) {
         console.log(`[Tracker] Reset conversation: ${chatId}`)
@@ -211,6 +433,228 @@ export class ConversationTracker {
     return conv.userMessageHistory.slice(-limit)
   }
 
+  /**
+   * Get style samples for a chat, topped up with global samples when
+   * the chat itself has fewer than `limit` of the user's messages
+   */
+  getStyleSamples(chatId: string, limit: number): Message[] {
+    const contactSamples = this.getUserMessageHistory(chatId, limit)
+    if (contactSamples.length >= limit) {
+      return contactSamples
+    }
+
+    const seen = new Set(contactSamples.map(m => m.guid))
+    const globalSamples = this.getGlobalUserMessageHistory(limit)
+      .filter(m => !seen.has(m.guid))
+      .slice(-(limit - contactSamples.length))
+
+    return [...globalSamples, ...contactSamples]
+  }
+
+  /**
+   * Get the style profile for a chat - the contact's own profile once it has
+   * enough samples (our style differs by person), otherwise the global one
+   */
+  getStyleProfile(chatId: string, limit: number): StyleProfile {
+    const contactSamples = this.getUserMessageHistory(chatId, limit)
+    const contactProfile = this.styleProfiles.getProfile(chatId, contactSamples, this.getReceivedMessages([chatId]))
+
+    if (contactProfile.sampleCount >= MIN_CONTACT_STYLE_SAMPLES) {
+      return contactProfile
+    }
+
+    return this.getGlobalStyleProfile(limit)
+  }
+
+  /**
+   * Get the style profile computed across all chats
+   */
+  getGlobalStyleProfile(limit: number): StyleProfile {
+    const samples = this.getGlobalUserMessageHistory(limit)
+    const chatIds = new Set(samples.map(m => m.chatId))
+    return this.styleProfiles.getProfile(GLOBAL_STYLE_SCOPE, samples, this.getReceivedMessages(chatIds))
+  }
+
+  /**
+   * The other side's messages in the given chats, for splitting the user's texts into bursts
+   */
+  private getReceivedMessages(chatIds: Iterable<string>): Message[] {
+    return Array.from(chatIds).flatMap(chatId =>
+      (this.conversations.get(chatId)?.conversationHistory ?? []).filter(m => !m.isFromMe)
+    )
+  }
+
+  /**
+   * Get the user's most recent messages across all chats
+   */
+  getGlobalUserMessageHistory(limit: number): Message[] {
+    // The self-chat holds answers to the agent ("yes", "stop Sam"), not how the user texts friends
+    const all = [
+      ...this.globalUserMessages,
+      ...Array.from(this.conversations.values())
+        .filter(c => !isUserChat(c.chatId, this.userIdentifier))
+        .flatMap(c => c.userMessageHistory)
+    ]
+
+    return dedupeByGuid(all).slice(-limit)
+  }
+
+  /**
+   * Merge historical user messages into a chat's history (deduped, oldest first)
+   * @returns Number of messages that were new
+   */
+  mergeUserMessageHistory(chatId: string, messages: Message[]): number {
+    const conv = this.getOrCreateConversation(chatId)
+    const before = conv.userMessageHistory.length
+
+    conv.userMessageHistory = dedupeByGuid([...messages, ...conv.userMessageHistory])
+    conv.historyBackfilled = true
+    this.persist(conv)
+
+    return conv.userMessageHistory.length - before
+  }
+
+  /**
+   * Merge historical user messages into the global (cross-chat) sample pool
+   * @returns Number of messages that were new
+   */
+  mergeGlobalUserMessages(messages: Message[]): number {
+    const before = this.globalUserMessages.length
+    this.globalUserMessages = dedupeByGuid([...messages, ...this.globalUserMessages])
+    return this.globalUserMessages.length - before
+  }
+
+  /**
+   * Merge reply latencies measured from a chat's history
+   * @returns Number of samples that were new
+   */
+  mergeReplyLatencies(chatId: string, samples: ReplyLatencySample[]): number {
+    const conv = this.getOrCreateConversation(chatId)
+    const before = conv.replyLatencies.length
+
+    conv.replyLatencies = mergeLatencies(conv.replyLatencies, samples)
+    this.persist(conv)
+
+    return conv.replyLatencies.length - before
+  }
+
+  /**
+   * Merge reply latencies into the global (cross-chat) pool
+   * @returns Number of samples that were new
+   */
+  mergeGlobalReplyLatencies(samples: ReplyLatencySample[]): number {
+    const before = this.globalReplyLatencies.length
+    this.globalReplyLatencies = mergeLatencies(this.globalReplyLatencies, samples)
+    return this.globalReplyLatencies.length - before
+  }
+
+  /**
+   * How long the user has taken to answer this friend
+   */
+  getReplyLatencies(chatId: string): ReplyLatencySample[] {
+    return this.conversations.get(chatId)?.replyLatencies ?? []
+  }
+
+  /**
+   * How long the user takes to answer anyone (backfilled plus every tracked chat)
+   */
+  getGlobalReplyLatencies(): ReplyLatencySample[] {
+    return Array.from(this.conversations.values())
+      .filter(conv => !isUserChat(conv.chatId, this.userIdentifier))
+      .reduce((all, conv) => mergeLatencies(all, conv.replyLatencies), this.globalReplyLatencies)
+  }
+
+  /**
+   * Stop prompting for a conversation until resumed (ends any agent session)
+   * @param until When the mute lifts by itself (omit to pause indefinitely)
+   */
+  muteConversation(chatId: string, until?: Date): void {
+    const conv = this.conversations.get(chatId)
+    if (conv) {
+      const wasActive = conv.isAgentActive
+      const sessionStartedAt = conv.agentActivationTime
+      if (until) {
+        conv.mutedUntil = until
+      } else {
+        conv.paused = true
+      }
+      conv.isAgentActive = false
+      conv.messagesSent = 0
+      conv.agentActivationTime = null
+      conv.pendingDraft = null
+      clearApproval(conv)
+      this.persist(conv)
+
+      if (wasActive) {
+        this.events.emit({
+          type: 'deactivation',
+          chatId,
+          timestamp: this.clock.now(),
+          reason: until ? 'you muted them' : 'you paused them',
+          sessionStartedAt
+        })
+      }
+
+      if (this.debug) {
+        console.log(`[Tracker] Muted ${chatId}${until ? ` until ${until.toISOString()}` : ' (paused)'}`)
+      }
+    }
+  }
+
+  /**
+   * Lift a pause or mute
+   */
+  unmuteConversation(chatId: string): void {
+    const conv = this.conversations.get(chatId)
+    if (conv) {
+      conv.paused = false
+      conv.mutedUntil = null
+      this.persist(conv)
+
+      if (this.debug) {
+        console.log(`[Tracker] Unmuted ${chatId}`)
+      }
+    }
+  }
+
+  /**
+   * Whether the user has paused or muted a conversation
+   */
+  isMuted(chatId: string): boolean {
+    const conv = this.conversations.get(chatId)
+    if (!conv) {
+      return false
+    }
+
+    return conv.paused || (conv.mutedUntil !== null && conv.mutedUntil.getTime() > this.clock.now().getTime())
+  }
+
+  /**
+   * Record that the busy auto-reply went out
+   */
+  markBusyReplySent(chatId: string, sentAt: Date): void {
+    const conv = this.conversations.get(chatId)
+    if (conv) {
+      conv.busyReplySentAt = sentAt
+      this.persist(conv)
+    }
+  }
+
+  /**
+   * Find tracked conversations by contact name (full name, else first name)
+   */
+  findConversationsByName(name: string): ConversationState[] {
+    const query = name.toLowerCase().trim()
+    const named = this.getAllConversations().filter(c => c.friendName !== 'your friend')
+
+    const exact = named.filter(c => c.friendName.toLowerCase() === query)
+    if (exact.length > 0) {
+      return exact
+    }
+
+    return named.filter(c => c.friendName.toLowerCase().split(/\s+/)[0] === query)
+  }
+
   /**
    * Get conversation history with friend
    */
@@ -242,7 +686,7 @@ export class ConversationTracker {
     const conv = this.conversations.get(chatId)
     if (conv) {
       conv.friendName = friendName
-      this.conversations.set(chatId, conv)
+      this.persist(conv)
     }
   }
 
@@ -256,17 +700,28 @@ export class ConversationTracker {
       conv = {
         chatId,
         friendName: 'your friend',
-        lastOutgoingTimestamp: new Date(),
+        lastOutgoingTimestamp: this.clock.now(),
         lastIncomingTimestamp: null,
         isAgentActive: false,
         awaitingApproval: false,
+        promptHandle: null,
+        awaitingApprovalSince: null,
         messagesSent: 0,
         lastAgentDeactivationTime: null,
         agentActivationTime: null,
         userMessageHistory: [],
-        conversationHistory: []
+        historyBackfilled: false,
+        conversationHistory: [],
+        pendingDraft: null,
+        paused: false,
+        mutedUntil: null,
+        busyReplySentAt: null,
+        isGroup: false,
+        participants: [],
+        lastAddressedBy: null,
+        replyLatencies: []
       }
-      this.conversations.set(chatId, conv)
+      this.persist(conv)
 
       if (this.debug) {
         console.log(`[Tracker] Created new conversation: ${chatId}`)
@@ -275,5 +730,82 @@ export class ConversationTracker {
 
     return conv
   }
+
+  /**
+   * Lowest handle not used by a pending prompt or draft
+   */
+  private nextHandle(): number {
+    const used = new Set([
+      ...this.getPendingApprovals().map(c => c.promptHandle),
+      ...this.getPendingDrafts().map(c => c.pendingDraft?.handle)
+    ])
+
+    let handle = 1
+    while (used.has(handle)) {
+      handle++
+    }
+    return handle
+  }
+
+  /**
+   * Write a conversation through to the store
+   */
+  private persist(conv: ConversationState): void {
+    // Every change rewrites the whole row, so it has to stay a bounded size
+    trimHistory(conv)
+    this.conversations.set(conv.chatId, conv)
+
+    try {
+      this.store.saveConversation(conv)
+    } catch (error) {
+      console.error(`[Tracker] Error persisting conversation ${conv.chatId}:`, error)
+    }
+  }
+}
+
+/**
+ * Clear a conversation's pending takeover prompt
+ */
+function clearApproval(conv: ConversationState): void {
+  conv.awaitingApproval = false
+  conv.promptHandle = null
+  conv.awaitingApprovalSince = null
 }
 
+/**
+ * Keep only the newest messages of a conversation's histories
+ */
+function trimHistory(conv: ConversationState): void {
+  if (conv.conversationHistory.length > MAX_CONVERSATION_HISTORY) {
+    conv.conversationHistory = conv.conversationHistory.slice(-MAX_CONVERSATION_HISTORY)
+  }
+  if (conv.userMessageHistory.length > MAX_USER_MESSAGE_HISTORY) {
+    conv.userMessageHistory = conv.userMessageHistory.slice(-MAX_USER_MESSAGE_HISTORY)
+  }
+}
+
+/**
+ * Drop duplicate messages (by guid) and sort oldest first
+ */
+function dedupeByGuid(messages: Message[]): Message[] {
+  const byGuid = new Map<string, Message>()
+  for (const message of messages) {
+    byGuid.set(message.guid, message)
+  }
+
+  return Array.from(byGuid.values()).sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/**
+ * Combine latency samples without duplicates, keeping the newest MAX_LATENCY_SAMPLES
+ */
+function mergeLatencies(existing: ReplyLatencySample[], added: ReplyLatencySample[]): ReplyLatencySample[] {
+  const byGuid = new Map<string, ReplyLatencySample>()
+  for (const sample of [...existing, ...added]) {
+    byGuid.set(sample.replyGuid, sample)
+  }
+
+  return Array.from(byGuid.values())
+    .sort((a, b) => a.at.getTime() - b.at.getTime())
+    .slice(-MAX_LATENCY_SAMPLES)
+}
@@ -0,0 +1,370 @@
+/**
+ * Message Handler - Reacts to watched messages and inactive conversations
+ *
+ * This is the loop main() runs, with its dependencies passed in as an
+ * AgentContext so the simulator can drive it with a fake transport and
+ * virtual time.
+ */
+
+import type { Message } from '@photon-ai/imessage-kit'
+import type { AgentConfig, AgentEvent, ConversationState } from '../types/index.js'
+import type { MessagingTransport } from '../transport/messaging-transport.js'
+import type { ConversationTracker } from './conversation-tracker.js'
+import type { TimerManager } from '../utils/timer-manager.js'
+import type { ReplyQueue } from '../utils/reply-queue.js'
+import type { AuditLog } from '../storage/audit-log.js'
+import type { Scheduler } from '../utils/clock.js'
+import {
+  parseApprovalResponse,
+  parseDraftReply,
+  resolveUserIntent,
+  isDraftOnlyResponse,
+  findPromptTargets
+} from '../utils/approval-parser.js'
+import { classifyIntentWithLLM } from '../agent/intent-classifier.js'
+import { parseCommand } from '../utils/command-parser.js'
+import { handleCommand } from '../utils/command-handler.js'
+import {
+  sendTakeoverPrompt,
+  activateAgent,
+  queueActivation,
+  handleDraftResponse,
+  isAgentNotice,
+  claimAgentEcho,
+  notifyUser
+} from '../utils/agent-core.js'
+import { resolveContactPolicy, minInactivityThreshold } from '../utils/contact-policy.js'
+import { backfillChatHistory } from '../utils/style-backfill.js'
+import { isAddressedToUser } from '../utils/group-chat.js'
+import { planReplyDelay } from '../utils/reply-timing.js'
+import { sendHandoffSummary } from '../utils/handoff-summary.js'
+
+/**
+ * Everything the handlers need
+ */
+export interface AgentContext {
+  sdk: MessagingTransport
+  tracker: ConversationTracker
+  timerManager: TimerManager
+  replyQueue: ReplyQueue
+  auditLog: AuditLog
+  config: AgentConfig
+  scheduler: Scheduler
+}
+
+/**
+ * Start watching for messages and checking for inactive conversations
+ */
+export async function startAgent(context: AgentContext): Promise<void> {
+  const { sdk, tracker, timerManager, config, scheduler } = context
+
+  await sdk.startWatching({
+    onMessage: message => handleMessage(context, message),
+
+    onError: (error) => {
+      console.error('[Handler] Watcher error:', error)
+    }
+  })
+
+  // However a session ends, the user hears what was said in their name (run on the scheduler, outside the emit)
+  tracker.events.on('deactivation', event => {
+    scheduler.setTimeout(() => handleSessionEnd(context, event), 0)
+  })
+
+  timerManager.startInactivityCheck(
+    config.timerCheckIntervalMs,
+    minInactivityThreshold(config),
+    config.maxInactivityMs,
+    tracker,
+    conv => handleInactiveConversation(context, conv),
+    config.userIdentifier,
+    config.approvalTimeoutMs
+  )
+}
+
+/**
+ * Handle one watched message (the user's, the agent's echo, or a friend's)
+ */
+export async function handleMessage(context: AgentContext, message: Message): Promise<void> {
+  const { sdk, tracker, timerManager, replyQueue, auditLog, config, scheduler } = context
+
+  try {
+    if (message.isFromMe) {
+      // The agent's replies and notices come back through the watcher too; anything else the user typed
+      if (claimAgentEcho(message.chatId, message.text || '') || isAgentNotice(message.text || '')) {
+        // Update timestamp but mark as agent message (fixes inactivity loop)
+        tracker.updateOutgoingMessage(message.chatId, message, true)
+
+        if (config.debug) {
+          console.log(`[Handler] Agent-sent message to ${message.chatId}`)
+        }
+        return
+      }
+
+      // User sent a message - whatever the agent was about to say to this chat is moot
+      replyQueue.cancel(message.chatId)
+      tracker.updateOutgoingMessage(message.chatId, message, false)
+      await backfillChatHistory(sdk, tracker, message.chatId, config)
+
+      // Messages to self are commands or answers to our prompts/drafts
+      // User responds to themselves (USER_IDENTIFIER), so check ALL conversations
+      if (message.chatId === config.userIdentifier) {
+        // Ignore echoes of our own prompts/drafts (the prompt contains "take over" which would trigger approval)
+        const messageText = message.text || ''
+        // More robust check: ignore if it contains the full prompt pattern OR is too similar
+        if (isAgentNotice(messageText) ||
+            messageText.includes('are you trying to ghost') ||
+            messageText.includes('do you want me to take over?')) {
+          if (config.debug) {
+            console.log('[Handler] Ignoring agent notice echo')
+          }
+          return
+        }
+
+        // Commands ("status", "pause Sam", ...) work whether or not anything is pending
+        const command = parseCommand(messageText)
+        if (command) {
+          await handleCommand(sdk, tracker, timerManager, replyQueue, auditLog, command, config, scheduler)
+          return
+        }
+
+        const pendingApprovals = tracker.getPendingApprovals()
+        const draftConvs = tracker.getPendingDrafts()
+        const keywords = { approval: config.approvalKeywords, denial: config.denialKeywords }
+        const prompts = pendingApprovals.map(c => ({ handle: c.promptHandle ?? 0, friendName: c.friendName }))
+        const drafts = draftConvs.map(c => ({ handle: c.pendingDraft?.handle ?? 0, friendName: c.friendName }))
+
+        // "send", "edit: ..." and "skip" are always about a draft; a bare yes/no has to say which it answers
+        if (draftConvs.length > 0) {
+          const { response: draftResponse, targets } = parseDraftReply(messageText, drafts)
+          const forDraft = targets.length > 0 || pendingApprovals.length === 0 || isDraftOnlyResponse(messageText, keywords)
+
+          if (forDraft) {
+            // With several drafts waiting, a reply that doesn't name one could send words meant for someone else
+            if (targets.length === 0 && draftConvs.length > 1 && draftResponse.action !== 'unclear') {
+              await notifyUser(sdk, config, `Which draft? ${describeDrafts(draftConvs)} - reply e.g. "send ${drafts[0].handle}" or "skip ${draftConvs[0].friendName}"`)
+              return
+            }
+            if (draftResponse.action === 'edit' && targets.length > 1) {
+              await notifyUser(sdk, config, `Edit which draft? ${describeDrafts(draftConvs)} - reply e.g. "edit ${drafts[0].handle}: <your text>"`)
+              return
+            }
+
+            const chosen = targets.length > 0
+              ? draftConvs.filter(c => c.pendingDraft && targets.includes(c.pendingDraft.handle))
+              : draftConvs.slice(0, 1)
+            for (const draftConv of chosen) {
+              await handleDraftResponse(sdk, tracker, replyQueue, draftConv, draftResponse, config, scheduler)
+            }
+            return
+          }
+
+          if (draftResponse.action !== 'unclear' && findPromptTargets(messageText, prompts).length === 0) {
+            const prompt = pendingApprovals[0]
+            await notifyUser(
+              sdk,
+              config,
+              `Which one? Reply ${describeDraftReplies(draftConvs)}, ` +
+              `or "yes ${prompt.promptHandle}" / "no ${prompt.promptHandle}" for [${prompt.promptHandle}] ${prompt.friendName}`
+            )
+            return
+          }
+        }
+
+        if (pendingApprovals.length === 0) {
+          return
+        }
+
+        const intent = await resolveUserIntent(
+          messageText,
+          keywords,
+          config.intentLlmFallback ? classifyIntentWithLLM : undefined
+        )
+
+        if (config.debug) {
+          console.log(`[Handler] Parsed reply as ${intent.intent} (${intent.confidence}, ${intent.source})`)
+        }
+
+        const decision = parseApprovalResponse(messageText, prompts, intent)
+
+        if (decision.ambiguous) {
+          // Several prompts open and the reply doesn't say which one
+          const options = pendingApprovals.map(c => `[${c.promptHandle}] ${c.friendName}`).join(', ')
+          await notifyUser(sdk, config, `Which one? ${options} - reply e.g. "yes ${pendingApprovals[0].promptHandle}" or "no to all"`)
+          return
+        }
+
+        if (decision.intent === 'unclear') {
+          const handle = pendingApprovals[0].promptHandle
+          await notifyUser(
+            sdk,
+            config,
+            `Not sure what you meant - reply "yes ${handle}" or "no ${handle}"` +
+            (draftConvs.length > 0 ? `, or ${describeDraftReplies(draftConvs)}` : '')
+          )
+          return
+        }
+
+        for (const handle of decision.targets) {
+          const awaitingConv = tracker.getConversationByHandle(handle)
+          if (!awaitingConv) continue
+
+          if (decision.intent === 'approve') {
+            // Check if agent is already active (prevent duplicate activation)
+            if (awaitingConv.isAgentActive) {
+              if (config.debug) {
+                console.log(`[Handler] Agent already active for ${awaitingConv.friendName}, ignoring approval`)
+              }
+              continue
+            }
+
+            if (config.debug) {
+              console.log(`\n[Handler] ✅ User approved takeover for ${awaitingConv.friendName}`)
+            }
+
+            // Activate agent (initial activation)
+            queueActivation(replyQueue, sdk, tracker, awaitingConv, config, true, scheduler)
+
+          } else if (decision.intent === 'deny') {
+            if (config.debug) {
+              console.log(`\n[Handler] ❌ User denied takeover for ${awaitingConv.friendName}`)
+            }
+
+            // Reset conversation
+            tracker.resetConversation(awaitingConv.chatId)
+          }
+        }
+      }
+
+    } else {
+      // Friend sent a message (in a group, note whether it was meant for the user)
+      const previous = tracker.getConversationHistory(message.chatId, 1)[0]
+      const addressed = message.isGroupChat && isAddressedToUser(message, previous, config.userNames)
+      tracker.updateIncomingMessage(message.chatId, message, addressed)
+      await backfillChatHistory(sdk, tracker, message.chatId, config)
+
+      if (config.debug) {
+        console.log(`\n[Handler] 📨 Message from ${message.senderName || message.sender}${addressed ? ' (addressed to you)' : ''}`)
+      }
+
+      // Check if agent is currently active in this conversation
+      const conv = tracker.getConversation(message.chatId)
+
+      // In a group, the rest of the chat talking among themselves isn't the agent's cue
+      if (conv && conv.isAgentActive && conv.isGroup && !addressed) {
+        if (config.debug) {
+          console.log(`[Handler] Not addressed in ${conv.friendName}, staying quiet`)
+        }
+        return
+      }
+
+      if (conv && conv.isAgentActive) {
+        // Check if still within the AI control window (5 minutes unless the contact's policy says otherwise)
+        const { controlWindowMs } = resolveContactPolicy(conv, config)
+        if (tracker.isWithinAgentWindow(message.chatId, controlWindowMs)) {
+          // Wait about as long as the user would before answering, and for the friend to finish their burst
+          const delayMs = planReplyDelay(
+            tracker.getReplyLatencies(message.chatId),
+            tracker.getGlobalReplyLatencies(),
+            scheduler.now(),
+            config.schedule.timeZone,
+            config.replyTiming,
+            message.isRead
+          )
+
+          const coalesced = replyQueue.enqueue(message.chatId, delayMs, config.replyTiming.burstSettleMs, async signal => {
+            // Double-check that agent is still active and within window
+            const currentConv = tracker.getConversation(message.chatId)
+            if (currentConv && currentConv.isAgentActive &&
+                tracker.isWithinAgentWindow(message.chatId, controlWindowMs)) {
+              if (config.debug) {
+                console.log(`[Handler] 🤖 Sending next agent message to ${currentConv.friendName}`)
+              }
+              // Continue conversation (not initial activation)
+              await activateAgent(sdk, tracker, currentConv, config, false, scheduler, signal)
+            } else if (currentConv && currentConv.isAgentActive) {
+              // Window expired, deactivate agent
+              if (config.debug) {
+                console.log('[Handler] ⏰ AI control window expired, deactivating agent')
+              }
+              tracker.markAgentInactive(message.chatId, 'control window expired')
+            }
+          })
+
+          if (config.debug) {
+            console.log(coalesced
+              ? '[Handler] ⏳ Friend is still texting, holding the reply until they stop...'
+              : `[Handler] ⏳ Agent is active, waiting ${Math.round(delayMs / 1000)}s before responding...`)
+          }
+        } else {
+          // Window expired, deactivate agent
+          if (config.debug) {
+            console.log('[Handler] ⏰ AI control window expired, deactivating agent')
+          }
+          tracker.markAgentInactive(message.chatId, 'control window expired')
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[Handler] Error handling message:', error)
+  }
+}
+
+/**
+ * Offer to take over a conversation that went quiet
+ */
+export async function handleInactiveConversation(context: AgentContext, conv: ConversationState): Promise<void> {
+  const { sdk, tracker, replyQueue, config, scheduler } = context
+
+  try {
+    if (config.debug) {
+      console.log(`\n[Handler] ⏰ Detected inactivity in conversation with ${conv.friendName}`)
+    }
+
+    await sendTakeoverPrompt(sdk, tracker, replyQueue, conv, config, scheduler)
+  } catch (error) {
+    console.error('[Handler] Error sending takeover prompt:', error)
+  }
+}
+
+/**
+ * Brief the user on a session that just ended
+ */
+export async function handleSessionEnd(
+  context: AgentContext,
+  event: Extract<AgentEvent, { type: 'deactivation' }>
+): Promise<void> {
+  const { sdk, tracker, replyQueue, auditLog, config } = context
+
+  if (!config.handoffSummary) {
+    return
+  }
+
+  try {
+    // A burst cut short by the user records what it got out once it notices
+    await replyQueue.settled(event.chatId)
+    await sendHandoffSummary(sdk, tracker, auditLog, event, config)
+  } catch (error) {
+    console.error('[Handler] Error sending handoff summary:', error)
+  }
+}
+
+/**
+ * List waiting drafts for a "which one?" reply: [1] Sam: 'haha fair', [3] Alex: 'omw'
+ */
+function describeDrafts(draftConvs: ConversationState[]): string {
+  return draftConvs
+    .map(c => `[${c.pendingDraft?.handle}] ${c.friendName}: '${c.pendingDraft?.texts.join(' / ')}'`)
+    .join(', ')
+}
+
+/**
+ * How to answer the waiting drafts - the bare words when there's one, with handles when there are several
+ */
+function describeDraftReplies(draftConvs: ConversationState[]): string {
+  if (draftConvs.length === 1) {
+    return `"send", "edit: <your text>" or "skip" for the draft to ${draftConvs[0].friendName}`
+  }
+  const handle = draftConvs[0].pendingDraft?.handle
+  return `"send ${handle}", "edit ${handle}: <your text>" or "skip ${handle}" for a draft (${describeDrafts(draftConvs)})`
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationTracker } from '../src/watchers/conversation-tracker.js'
+import { MemoryConversationStore } from '../src/storage/conversation-store.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+import { activateAgent } from '../src/utils/agent-core.js'
+import { configureModels } from '../src/agent/model-registry.js'
+import { loadConfig } from '../src/config.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+function setup(env: Record<string, string> = {}) {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const config = loadConfig({
+    USER_IDENTIFIER: USER,
+    CONVERSATION_DB_PATH: '',
+    AUDIT_LOG_PATH: '',
+    TIMEZONE: 'UTC',
+    LLM_PROVIDER: 'mock',
+    REPLY_TIMING: 'fixed',
+    REPLY_MODEL: 'mock:haha fair',
+    ...env
+  })
+  configureModels(config.llm)
+
+  const sdk = new FakeTransport(scheduler, USER)
+  sdk.addChat(FRIEND, 'Sam')
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, new AgentEventBus(), USER)
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'you coming tonight', true, scheduler.now()))
+  tracker.updateIncomingMessage(FRIEND, sdk.receive(FRIEND, 'prob, running late'))
+  tracker.setFriendName(FRIEND, 'Sam')
+
+  return { scheduler, config, sdk, tracker, conv: tracker.getConversation(FRIEND)! }
+}
+
+test('review mode proposes a draft with its handle', async () => {
+  const { scheduler, config, sdk, tracker, conv } = setup({ APPROVAL_MODE: 'review' })
+
+  await activateAgent(sdk, tracker, conv, config, true, scheduler)
+
+  assert.equal(tracker.getConversation(FRIEND)?.pendingDraft?.handle, 1)
+  assert.deepEqual(sdk.sent.map(m => m.text), ["[1] Send to Sam: 'haha fair' — reply send/edit/skip"])
+})
+
+test('a session stopped while the reply was generating gets no draft', async () => {
+  const { scheduler, config, sdk, tracker, conv } = setup({ APPROVAL_MODE: 'review' })
+
+  const activation = activateAgent(sdk, tracker, conv, config, true, scheduler)
+  tracker.resetConversation(FRIEND, 'you said stop')
+  await activation
+
+  assert.equal(tracker.getConversation(FRIEND)?.pendingDraft, null)
+  assert.deepEqual(sdk.sent, [])
+})
@@ -0,0 +1,196 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  parseUserIntent,
+  parseApprovalResponse,
+  parseDraftResponse,
+  findPromptTargets,
+  isDraftOnlyResponse,
+  parseDraftReply,
+  MIN_INTENT_CONFIDENCE
+} from '../src/utils/approval-parser.js'
+import type { UserIntent } from '../src/types/index.js'
+
+/** [reply, intent, confident enough to skip the LLM fallback] */
+const INTENT_CASES: Array<[string, UserIntent, boolean]> = [
+  // Plain keywords
+  ['yes', 'approve', true],
+  ['yep', 'approve', true],
+  ['ok', 'approve', true],
+  ['k', 'approve', true],
+  ['sure', 'approve', true],
+  ['go for it', 'approve', true],
+  ['absolutely', 'approve', true],
+  ['definitely', 'approve', true],
+  ['no', 'deny', true],
+  ['nah', 'deny', true],
+  ['never', 'deny', true],
+  ['never mind', 'deny', true],
+  ['not now', 'deny', true],
+  ["i'll handle it", 'deny', true],
+
+  // Word boundaries: no substring matches
+  ['kinda', 'unclear', false],
+  ['yesterday was fun', 'unclear', false],
+  ['nobody asked', 'unclear', false],
+
+  // Emoji
+  ['👍', 'approve', true],
+  ['👌', 'approve', true],
+  ['👎', 'deny', true],
+  ['❌', 'deny', true],
+
+  // Negation
+  ["don't take over", 'deny', true],
+  ['dont do it', 'deny', true],
+  ['please don’t', 'deny', true],
+  ["please don't", 'deny', true],
+
+  // Hedges override keywords
+  ['not sure', 'unclear', false],
+  ['maybe', 'unclear', false],
+  ['hmm ok', 'unclear', false],
+  ['idk yes?', 'unclear', false],
+
+  // Conflicts: denial is the safe default, corrections win
+  ['ok no', 'deny', true],
+  ['yes no', 'deny', true],
+  ['no ok', 'deny', false],
+  ['no wait, yes', 'approve', true],
+  ['yes actually no', 'deny', true],
+
+  // Handles don't count against coverage
+  ['yes 2', 'approve', true]
+]
+
+test('parseUserIntent', async t => {
+  for (const [reply, intent, confident] of INTENT_CASES) {
+    await t.test(JSON.stringify(reply), () => {
+      const result = parseUserIntent(reply)
+      assert.equal(result.intent, intent)
+      assert.equal(result.confidence >= MIN_INTENT_CONFIDENCE, confident, `confidence ${result.confidence}`)
+    })
+  }
+})
+
+test('parseUserIntent uses the configured keywords', () => {
+  const keywords = { approval: ['send it'], denial: ['leave it'] }
+  assert.equal(parseUserIntent('send it', keywords).intent, 'approve')
+  assert.equal(parseUserIntent('leave it', keywords).intent, 'deny')
+  assert.equal(parseUserIntent('yes', keywords).intent, 'unclear')
+})
+
+test('parseApprovalResponse', async t => {
+  const pending = [{ handle: 1, friendName: 'Sam Lee' }, { handle: 2, friendName: 'Alex' }]
+  const cases: Array<[string, UserIntent, number[], boolean]> = [
+    ['yes 2', 'approve', [2], false],
+    ['yes [1]', 'approve', [1], false],
+    ['take over sam', 'approve', [1], false],
+    ['no to all', 'deny', [1, 2], false],
+    ['yes', 'approve', [], true]
+  ]
+
+  for (const [reply, intent, targets, ambiguous] of cases) {
+    await t.test(JSON.stringify(reply), () => {
+      const decision = parseApprovalResponse(reply, pending)
+      assert.equal(decision.intent, intent)
+      assert.deepEqual(decision.targets, targets)
+      assert.equal(decision.ambiguous, ambiguous)
+    })
+  }
+
+  await t.test('bare yes with one prompt pending', () => {
+    assert.deepEqual(parseApprovalResponse('yes', pending.slice(0, 1)).targets, [1])
+  })
+})
+
+test('parseDraftResponse', async t => {
+  const cases: Array<[string, ReturnType<typeof parseDraftResponse>]> = [
+    ['send', { action: 'send' }],
+    ['Send it!', { action: 'send' }],
+    ['edit: haha ok see you then', { action: 'edit', text: 'haha ok see you then' }],
+    ['edit sounds good', { action: 'edit', text: 'sounds good' }],
+    ['regenerate', { action: 'regenerate' }],
+    ['try again', { action: 'regenerate' }],
+    ['skip', { action: 'skip' }],
+    ["don't send", { action: 'skip' }],
+    ['what', { action: 'unclear' }]
+  ]
+
+  for (const [reply, expected] of cases) {
+    await t.test(JSON.stringify(reply), () => {
+      assert.deepEqual(parseDraftResponse(reply), expected)
+    })
+  }
+})
+
+test('findPromptTargets', async t => {
+  const pending = [{ handle: 1, friendName: 'Sam Lee' }, { handle: 2, friendName: 'Alex' }]
+  const cases: Array<[string, number[]]> = [
+    ['yes', []],
+    ['no', []],
+    ['yes 2', [2]],
+    ['[1]', [1]],
+    ['nah alex', [2]],
+    ['both', [1, 2]]
+  ]
+
+  for (const [reply, targets] of cases) {
+    await t.test(JSON.stringify(reply), () => {
+      assert.deepEqual(findPromptTargets(reply, pending), targets)
+    })
+  }
+})
+
+test('isDraftOnlyResponse', async t => {
+  // Draft words that can't be read as a yes/no to a takeover prompt
+  const cases: Array<[string, boolean]> = [
+    ['send', true],
+    ['send it', true],
+    ['edit: on my way', true],
+    ['edit yes totally', true],
+    ['skip', true],
+    ["don't send", true],
+    ['regenerate', true],
+    ['lgtm', true],
+    ['yes', false],
+    ['ok', false],
+    ['no', false],
+    ['👍', false],
+    ['yes 2', false],
+    ['what', false]
+  ]
+
+  for (const [reply, draftOnly] of cases) {
+    await t.test(JSON.stringify(reply), () => {
+      assert.equal(isDraftOnlyResponse(reply), draftOnly)
+    })
+  }
+})
+
+test('parseDraftReply', async t => {
+  const drafts = [{ handle: 1, friendName: 'Sam Lee' }, { handle: 3, friendName: 'Alex' }]
+  const cases: Array<[string, ReturnType<typeof parseDraftReply>]> = [
+    ['send', { response: { action: 'send' }, targets: [] }],
+    ['send 3', { response: { action: 'send' }, targets: [3] }],
+    ['send [1]', { response: { action: 'send' }, targets: [1] }],
+    ['send to Sam', { response: { action: 'send' }, targets: [1] }],
+    ['send it to sam lee', { response: { action: 'send' }, targets: [1] }],
+    ['skip alex', { response: { action: 'skip' }, targets: [3] }],
+    ['skip both', { response: { action: 'skip' }, targets: [1, 3] }],
+    ['again 3', { response: { action: 'regenerate' }, targets: [3] }],
+    ['edit 3: omw', { response: { action: 'edit', text: 'omw' }, targets: [3] }],
+    ['edit Sam: see you at 8: bring snacks', { response: { action: 'edit', text: 'see you at 8: bring snacks' }, targets: [1] }],
+    // The words before a colon that aren't a draft are part of the edit
+    ['edit: tell Sam hi', { response: { action: 'edit', text: 'tell Sam hi' }, targets: [] }],
+    ['edit ok sam: hi', { response: { action: 'edit', text: 'ok sam: hi' }, targets: [] }],
+    ['yes 2', { response: { action: 'unclear' }, targets: [] }],
+    ['what about sam', { response: { action: 'unclear' }, targets: [1] }]
+  ]
+
+  for (const [reply, expected] of cases) {
+    await t.test(JSON.stringify(reply), () => {
+      assert.deepEqual(parseDraftReply(reply, drafts), expected)
+    })
+  }
+})
@@ -0,0 +1,65 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { Attachment, Message } from '@photon-ai/imessage-kit'
+import { describeMessageContent, setAudioTranscriber } from '../src/utils/attachment-context.js'
+import type { AttachmentConfig } from '../src/types/index.js'
+
+const CONFIG: AttachmentConfig = { captions: false, transcribeCommand: '', linkPreviewCacheDir: '' }
+
+const dir = mkdtempSync(join(tmpdir(), 'attachments-'))
+after(() => {
+  setAudioTranscriber(null)
+  rmSync(dir, { recursive: true, force: true })
+})
+
+const voiceNotePath = join(dir, 'Audio Message.caf')
+writeFileSync(voiceNotePath, 'not really audio')
+
+function voiceNote(id: string): Message {
+  const attachment: Attachment = {
+    id,
+    filename: 'Audio Message.caf',
+    mimeType: 'audio/x-caf',
+    path: voiceNotePath,
+    size: 48000,
+    isImage: false,
+    createdAt: new Date('2026-10-19T18:00:00Z')
+  }
+  return { guid: `msg-${id}`, text: '\uFFFC', attachments: [attachment] } as unknown as Message
+}
+
+test('a voice note is transcribed once however often it is described', async () => {
+  const transcribed: string[] = []
+  setAudioTranscriber(async attachment => {
+    transcribed.push(attachment.id)
+    return 'running late'
+  })
+
+  assert.equal(await describeMessageContent(voiceNote('a'), CONFIG), '[voice note: "running late"]')
+  assert.equal(await describeMessageContent(voiceNote('a'), CONFIG), '[voice note: "running late"]')
+  assert.deepEqual(transcribed, ['a'])
+})
+
+test('the description cache drops the least recently used attachment first', async () => {
+  const transcribed: string[] = []
+  setAudioTranscriber(async attachment => {
+    transcribed.push(attachment.id)
+    return 'on my way'
+  })
+
+  // Far more attachments than the cache holds, with "kept" described again after each one
+  await describeMessageContent(voiceNote('kept'), CONFIG)
+  for (let i = 0; i < 2000; i++) {
+    await describeMessageContent(voiceNote(`note-${i}`), CONFIG)
+    await describeMessageContent(voiceNote('kept'), CONFIG)
+  }
+  transcribed.length = 0
+
+  await describeMessageContent(voiceNote('kept'), CONFIG)
+  await describeMessageContent(voiceNote('note-1999'), CONFIG)
+  await describeMessageContent(voiceNote('note-0'), CONFIG)
+  assert.deepEqual(transcribed, ['note-0'])
+})
@@ -0,0 +1,125 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { JsonlAuditLog, deserializeEvent, serializeEvent } from '../src/storage/audit-log.js'
+import type { AgentEvent } from '../src/types/index.js'
+
+const FRIEND = '+15550001111'
+const OTHER = '+15550002222'
+const START = new Date('2026-10-19T18:00:00Z').getTime()
+
+const dir = mkdtempSync(join(tmpdir(), 'audit-log-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let logCount = 0
+
+function openLog(): { log: JsonlAuditLog; path: string } {
+  const path = join(dir, `audit-${++logCount}.jsonl`)
+  return { log: new JsonlAuditLog(path), path }
+}
+
+function sent(chatId: string, index: number, prompt = 'prompt'): AgentEvent {
+  return {
+    type: 'message_sent',
+    chatId,
+    timestamp: new Date(START + index * 1000),
+    texts: [`reply ${index} 👍`],
+    reason: 'reply',
+    generation: { task: 'reply', model: 'mock', prompt, rawOutput: `reply ${index}`, attempts: 1, style: { score: 0.9, violations: [] } },
+    isFinal: false
+  }
+}
+
+test('JsonlAuditLog round-trips events with their dates', () => {
+  const { log } = openLog()
+  const deactivation: AgentEvent = {
+    type: 'deactivation',
+    chatId: FRIEND,
+    timestamp: new Date(START + 5000),
+    reason: 'user took over',
+    sessionStartedAt: new Date(START),
+    draft: 'on my way'
+  }
+  log.append({ type: 'activation', chatId: FRIEND, timestamp: new Date(START), reason: 'user away' })
+  log.append(sent(FRIEND, 1))
+  log.append(deactivation)
+
+  const events = log.readEvents(FRIEND, 10)
+  assert.deepEqual(events.map(event => event.type), ['activation', 'message_sent', 'deactivation'])
+  assert.deepEqual(events[1], sent(FRIEND, 1))
+  assert.deepEqual(events[2], deactivation)
+})
+
+test('JsonlAuditLog returns the newest events for the chat, oldest first', () => {
+  const { log } = openLog()
+  for (let i = 0; i < 10; i++) {
+    log.append(sent(i % 2 === 0 ? FRIEND : OTHER, i))
+  }
+
+  const events = log.readEvents(FRIEND, 3)
+  assert.deepEqual(events.map(event => event.timestamp.getTime()), [4, 6, 8].map(i => START + i * 1000))
+  assert.deepEqual(log.readEvents(FRIEND, 0), [])
+  assert.deepEqual(openLog().log.readEvents(FRIEND, 5), [])
+})
+
+test('JsonlAuditLog reads lines that span its read chunks', () => {
+  const { log } = openLog()
+  // Prompts of ~30KB make lines straddle the 64KB chunks at varying offsets
+  for (let i = 0; i < 40; i++) {
+    log.append(sent(i % 3 === 0 ? FRIEND : OTHER, i, `prompt ${i} `.repeat(3000 + i * 7)))
+  }
+
+  const events = log.readEvents(FRIEND, 100)
+  assert.equal(events.length, 14)
+  events.forEach((event, n) => {
+    assert.equal(event.type, 'message_sent')
+    assert.deepEqual(event, sent(FRIEND, n * 3, `prompt ${n * 3} `.repeat(3000 + n * 3 * 7)))
+  })
+})
+
+test('JsonlAuditLog skips lines that are not valid events', () => {
+  const { log, path } = openLog()
+  log.append(sent(FRIEND, 1))
+  appendFileSync(path, `{"type":"message_sent","chatId":"${FRIEND}"\n`)
+  appendFileSync(path, `{"type":"launch","chatId":"${FRIEND}","timestamp":"2026-10-19T18:00:00Z"}\n\n`)
+  log.append(sent(FRIEND, 2))
+
+  const originalError = console.error
+  console.error = () => {}
+  try {
+    assert.deepEqual(log.readEvents(FRIEND, 10), [sent(FRIEND, 1), sent(FRIEND, 2)])
+  } finally {
+    console.error = originalError
+  }
+})
+
+test('deserializeEvent validates the event and defaults fields added later', () => {
+  const older = deserializeEvent(JSON.stringify({
+    type: 'message_sent',
+    chatId: FRIEND,
+    timestamp: '2026-10-19T18:00:00Z',
+    texts: ['ok'],
+    reason: 'reply'
+  }))
+  assert.deepEqual(older, {
+    type: 'message_sent',
+    chatId: FRIEND,
+    timestamp: new Date('2026-10-19T18:00:00Z'),
+    texts: ['ok'],
+    reason: 'reply',
+    generation: null,
+    isFinal: false
+  })
+
+  assert.deepEqual(deserializeEvent(serializeEvent(sent(FRIEND, 1))), sent(FRIEND, 1))
+  assert.throws(
+    () => deserializeEvent(JSON.stringify({ ...sent(FRIEND, 1), texts: 'ok' })),
+    /Invalid stored event: texts:/
+  )
+  assert.throws(
+    () => deserializeEvent(JSON.stringify({ type: 'error', chatId: FRIEND, timestamp: 'soon', message: 'x' })),
+    /Invalid stored event: timestamp:/
+  )
+})
@@ -0,0 +1,71 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationTracker } from '../src/watchers/conversation-tracker.js'
+import { MemoryConversationStore } from '../src/storage/conversation-store.js'
+import { MemoryAuditLog } from '../src/storage/audit-log.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+import { TimerManager } from '../src/utils/timer-manager.js'
+import { ReplyQueue } from '../src/utils/reply-queue.js'
+import { handleCommand } from '../src/utils/command-handler.js'
+import { parseCommand } from '../src/utils/command-parser.js'
+import { loadConfig } from '../src/config.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+function setup(env: Record<string, string> = {}) {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const config = loadConfig({ USER_IDENTIFIER: USER, CONVERSATION_DB_PATH: '', AUDIT_LOG_PATH: '', TIMEZONE: 'UTC', ...env })
+  const sdk = new FakeTransport(scheduler, USER)
+  sdk.addChat(FRIEND, 'Sam')
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, new AgentEventBus(), USER)
+  tracker.updateIncomingMessage(FRIEND, sdk.receive(FRIEND, 'you around?'))
+  tracker.setFriendName(FRIEND, 'Sam')
+  const timerManager = new TimerManager(scheduler)
+  const replyQueue = new ReplyQueue(scheduler)
+
+  const run = (text: string) =>
+    handleCommand(sdk, tracker, timerManager, replyQueue, new MemoryAuditLog(), parseCommand(text)!, config, scheduler)
+
+  return { scheduler, sdk, tracker, replyQueue, run }
+}
+
+test('stop cancels a reply that is queued or generating', async () => {
+  const { scheduler, sdk, tracker, replyQueue, run } = setup()
+  tracker.markAgentActive(FRIEND, true)
+
+  let aborted = false
+  replyQueue.enqueue(FRIEND, 0, 0, async signal => {
+    await scheduler.sleep(10000)
+    aborted = signal.aborted
+  })
+  await scheduler.advance(1000)
+  assert.ok(replyQueue.isPending(FRIEND))
+
+  await run('stop Sam')
+  await scheduler.advance(10000)
+
+  assert.equal(replyQueue.isPending(FRIEND), false)
+  assert.equal(aborted, true)
+  assert.equal(tracker.getConversation(FRIEND)?.isAgentActive, false)
+  assert.equal(sdk.sent.at(-1)?.text, 'Stopped - Sam is all yours')
+})
+
+test('status shows when a mute ends in the configured time zone', async () => {
+  const { sdk, run } = setup({ TIMEZONE: 'Asia/Tokyo' })
+
+  await run('mute Sam 2h')
+  await run('status')
+
+  // 20:00 UTC is 05:00 the next morning in Tokyo
+  const expected = new Date('2026-10-19T20:00:00Z').toLocaleString([], {
+    timeZone: 'Asia/Tokyo',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit'
+  })
+  assert.match(expected, /5:00/)
+  assert.ok(sdk.sent.at(-1)?.text.includes(`Muted: Sam (until ${expected})`), sdk.sent.at(-1)?.text)
+})
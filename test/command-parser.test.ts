@@ -0,0 +1,67 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { formatDuration, parseCommand } from '../src/utils/command-parser.js'
+import type { AgentCommand } from '../src/types/index.js'
+
+const HOUR = 3600000
+const DAY = 24 * HOUR
+const WEEK = 7 * DAY
+
+/** Self-chat messages and the command each should parse to */
+const COMMAND_CASES: Array<[string, AgentCommand | null]> = [
+  ['status', { type: 'status' }],
+  ['?', { type: 'status' }],
+  ['help', { type: 'help' }],
+  ['pause', { type: 'pause', target: null }],
+  ['pause Sam', { type: 'pause', target: 'Sam' }],
+  ['resume please', { type: 'resume', target: null }],
+  ['unmute Sam', { type: 'resume', target: 'Sam' }],
+  ['stop Sam', { type: 'stop', target: 'Sam' }],
+  ['stop sam please', { type: 'stop', target: 'sam' }],
+  ['stop Sam, thanks!', { type: 'stop', target: 'Sam' }],
+  ['stop Sam Lee now pls', { type: 'stop', target: 'Sam Lee' }],
+  ['take over Sam', { type: 'take-over', target: 'Sam' }],
+  ['takeover Sam now', { type: 'take-over', target: 'Sam' }],
+  ['transcript Sam please', { type: 'transcript', target: 'Sam' }],
+  ['mute Sam', { type: 'mute', target: 'Sam', durationMs: HOUR }],
+  ['mute Sam 2h', { type: 'mute', target: 'Sam', durationMs: 2 * HOUR }],
+  ['mute Sam for 30 mins', { type: 'mute', target: 'Sam', durationMs: 30 * 60000 }],
+  ['mute Sam 3 days', { type: 'mute', target: 'Sam', durationMs: 3 * DAY }],
+  ['mute Sam 2 weeks', { type: 'mute', target: 'Sam', durationMs: 2 * WEEK }],
+  ['mute Sam Lee 1w please', { type: 'mute', target: 'Sam Lee', durationMs: WEEK }],
+  ['set max 5', { type: 'set-max', value: 5 }],
+  ['set max messages 3', { type: 'set-max', value: 3 }],
+  // Bare "stop"/"take over" and handles are answers to a prompt, not commands
+  ['stop', null],
+  ['stop it', null],
+  ['stop please', null],
+  ['stop now', null],
+  ['take over 2', null],
+  ['take over [2]', null],
+  ['yes', null],
+  ['please', null]
+]
+
+test('parseCommand', async t => {
+  for (const [message, expected] of COMMAND_CASES) {
+    await t.test(JSON.stringify(message), () => {
+      assert.deepEqual(parseCommand(message), expected)
+    })
+  }
+})
+
+test('a mute length we can\'t read gets a usage hint instead of being ignored', () => {
+  for (const message of ['mute Sam 2', 'mute Sam for 30', 'mute Sam 2 fortnights', 'mute Sam 0h', 'mute Sam for 3 sleeps']) {
+    const command = parseCommand(message)
+    assert.ok(command?.type === 'usage', message)
+    assert.match(command.message, /mute Sam 2 weeks/)
+  }
+})
+
+test('formatDuration uses the largest whole unit', () => {
+  assert.equal(formatDuration(30 * 60000), '30m')
+  assert.equal(formatDuration(2 * HOUR), '2h')
+  assert.equal(formatDuration(3 * DAY), '3d')
+  assert.equal(formatDuration(2 * WEEK), '2w')
+  assert.equal(formatDuration(10 * DAY), '10d')
+})
@@ -0,0 +1,86 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationTracker } from '../src/watchers/conversation-tracker.js'
+import {
+  MemoryConversationStore,
+  serializeConversation,
+  deserializeConversation,
+  deserializeStyleProfile
+} from '../src/storage/conversation-store.js'
+import { analyzeStyle } from '../src/agent/tools/style-analyzer.js'
+import type { StyleProfile } from '../src/types/index.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+function trackedConversation() {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const sdk = new FakeTransport(scheduler, USER)
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, new AgentEventBus(), USER)
+
+  tracker.updateIncomingMessage(FRIEND, sdk.receive(FRIEND, 'you still coming tonight?'))
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'ya omw', true, scheduler.now()))
+  tracker.muteConversation(FRIEND, new Date('2026-10-19T19:00:00Z'))
+
+  return tracker.getConversation(FRIEND)!
+}
+
+test('a conversation survives a round trip through JSON', () => {
+  const conv = trackedConversation()
+
+  const restored = deserializeConversation(serializeConversation(conv))
+
+  assert.deepEqual(restored, conv)
+  assert.ok(restored.conversationHistory[0].date instanceof Date)
+  assert.ok(restored.mutedUntil instanceof Date)
+})
+
+test('rows written before newer fields existed get their defaults', () => {
+  const { pendingDraft, paused, isGroup, participants, lastAddressedBy, replyLatencies, historyBackfilled, promptHandle, ...old } =
+    JSON.parse(serializeConversation(trackedConversation()))
+
+  const restored = deserializeConversation(JSON.stringify(old))
+
+  assert.equal(restored.pendingDraft, null)
+  assert.equal(restored.paused, false)
+  assert.equal(restored.isGroup, false)
+  assert.deepEqual(restored.participants, [])
+  assert.equal(restored.lastAddressedBy, null)
+  assert.deepEqual(restored.replyLatencies, [])
+  assert.equal(restored.historyBackfilled, false)
+  assert.equal(restored.promptHandle, null)
+})
+
+test('a row that is not a conversation is rejected with the bad fields named', () => {
+  const stored = JSON.parse(serializeConversation(trackedConversation()))
+  stored.lastOutgoingTimestamp = 'not a date'
+  delete stored.chatId
+
+  assert.throws(() => deserializeConversation(JSON.stringify(stored)), /chatId.*lastOutgoingTimestamp|lastOutgoingTimestamp.*chatId/)
+  assert.throws(() => deserializeConversation('[]'), /Invalid stored conversation/)
+})
+
+test('a style profile survives a round trip through JSON', () => {
+  const profile: StyleProfile = {
+    ...analyzeStyle([{ text: 'ya omw', date: '2026-10-19T18:00:00Z' }, { text: 'lol', date: '2026-10-19T18:00:20Z' }]),
+    scope: FRIEND,
+    lastSampleGuid: 'fake-2',
+    updatedAt: new Date('2026-10-19T18:01:00Z')
+  }
+
+  assert.deepEqual(deserializeStyleProfile(JSON.stringify(profile)), profile)
+})
+
+test('a style profile saved before burst analysis existed is rejected', () => {
+  const { burstDistribution, typicalBurstSize, ...old } = {
+    ...analyzeStyle([{ text: 'ya omw', date: '2026-10-19T18:00:00Z' }]),
+    scope: FRIEND,
+    lastSampleGuid: null,
+    updatedAt: new Date('2026-10-19T18:01:00Z')
+  }
+
+  assert.throws(() => deserializeStyleProfile(JSON.stringify(old)), /Invalid stored style profile: typicalBurstSize.*burstDistribution/)
+})
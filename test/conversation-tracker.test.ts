@@ -0,0 +1,68 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationTracker, MAX_CONVERSATION_HISTORY, MAX_USER_MESSAGE_HISTORY } from '../src/watchers/conversation-tracker.js'
+import { MemoryConversationStore } from '../src/storage/conversation-store.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+function setup() {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const sdk = new FakeTransport(scheduler, USER)
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, new AgentEventBus(), USER)
+  return { scheduler, sdk, tracker }
+}
+
+test('self-chat replies to the agent are not style samples', async () => {
+  const { scheduler, sdk, tracker } = setup()
+
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'lmao no way', true, scheduler.now()))
+  await scheduler.advance(60000)
+  tracker.updateOutgoingMessage(USER, sdk.seedHistory(USER, 'yes', true, scheduler.now()))
+  tracker.updateOutgoingMessage(USER, sdk.seedHistory(USER, 'stop Sam', true, scheduler.now()))
+
+  assert.deepEqual(tracker.getGlobalUserMessageHistory(10).map(m => m.text), ['lmao no way'])
+  assert.deepEqual(tracker.getUserMessageHistory(USER, 10), [])
+  assert.deepEqual(tracker.getStyleSamples(FRIEND, 10).map(m => m.text), ['lmao no way'])
+})
+
+test('self-chat history restored from storage is skipped too', () => {
+  const { scheduler, sdk, tracker } = setup()
+
+  tracker.mergeUserMessageHistory(USER, [sdk.seedHistory(USER, 'skip', true, scheduler.now())])
+  tracker.mergeUserMessageHistory(FRIEND, [sdk.seedHistory(FRIEND, 'omw', true, scheduler.now())])
+
+  assert.deepEqual(tracker.getGlobalUserMessageHistory(10).map(m => m.text), ['omw'])
+})
+
+test('histories keep only the newest messages, in memory and in the store', async () => {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const sdk = new FakeTransport(scheduler, USER)
+  const store = new MemoryConversationStore()
+  const tracker = new ConversationTracker(false, store, scheduler, new AgentEventBus(), USER)
+
+  for (let i = 0; i < MAX_USER_MESSAGE_HISTORY + 5; i++) {
+    tracker.updateIncomingMessage(FRIEND, sdk.seedHistory(FRIEND, `friend ${i}`, false, scheduler.now()))
+    tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, `me ${i}`, true, scheduler.now()))
+    await scheduler.advance(1000)
+  }
+
+  const saved = store.loadConversations().find(c => c.chatId === FRIEND)!
+  assert.equal(saved.conversationHistory.length, MAX_CONVERSATION_HISTORY)
+  assert.equal(saved.userMessageHistory.length, MAX_USER_MESSAGE_HISTORY)
+  assert.equal(saved.userMessageHistory.at(-1)?.text, `me ${MAX_USER_MESSAGE_HISTORY + 4}`)
+  assert.equal(tracker.getConversationHistory(FRIEND, Infinity).length, MAX_CONVERSATION_HISTORY)
+  assert.equal(tracker.getUserMessageHistory(FRIEND, Infinity).length, MAX_USER_MESSAGE_HISTORY)
+})
+
+test('style profiles are stamped with the tracker\'s clock', async () => {
+  const { scheduler, sdk, tracker } = setup()
+
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'lmao no way', true, scheduler.now()))
+  await scheduler.advance(60000)
+
+  assert.deepEqual(tracker.getGlobalStyleProfile(10).updatedAt, new Date('2026-10-19T18:01:00Z'))
+})
@@ -0,0 +1,88 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { classifyIncomingMessage } from '../src/utils/escalation-detector.js'
+import type { EscalationCategory } from '../src/types/index.js'
+
+/** Messages each category must flag, and everyday texts that must not escalate at all */
+const FIXTURES: Record<EscalationCategory, { flags: string[]; ignores: string[] }> = {
+  'emotional-distress': {
+    flags: [
+      'honestly i want to die',
+      'im so overwhelmed rn',
+      "i'm feeling really lonely",
+      "i've been crying all day",
+      'i need someone to talk to',
+      'having a panic attack'
+    ],
+    ignores: ['this show is so sad lol', 'i feel great', 'dying laughing', 'that workout killed me']
+  },
+  'bad-news': {
+    flags: [
+      'my grandma passed away',
+      'dad is in the hospital',
+      'i got laid off today',
+      'we broke up',
+      'she got diagnosed last week'
+    ],
+    ignores: ['the hospital food was mid lol', 'we broke the record', 'the party was dead']
+  },
+  'bot-check': {
+    flags: ['is this a bot?', 'r u an ai', 'u sound like a robot', 'who is this', 'is this really you'],
+    ignores: ['my roommate bought a robot vacuum', 'ai art is wild', 'who is coming to the party']
+  },
+  urgent: {
+    flags: ['call me asap', 'its an emergency', 'pick up the phone', 'answer ur phone', 'i need help'],
+    ignores: ['no rush', "i'll call you later", 'thanks for the help']
+  },
+  availability: {
+    flags: [
+      'wya',
+      'where r u',
+      'are you free tonight',
+      'wyd tonight',
+      'when are you getting here',
+      'can u come over'
+    ],
+    ignores: ['where are my keys', 'are you kidding lol', 'free food at work', 'what a day']
+  }
+}
+
+for (const [category, { flags, ignores }] of Object.entries(FIXTURES)) {
+  test(`${category} escalations`, async t => {
+    for (const text of flags) {
+      await t.test(`flags ${JSON.stringify(text)}`, () => {
+        const result = classifyIncomingMessage(text)
+        assert.equal(result.escalate, true)
+        assert.equal(result.category, category)
+      })
+    }
+
+    for (const text of ignores) {
+      await t.test(`ignores ${JSON.stringify(text)}`, () => {
+        const result = classifyIncomingMessage(text)
+        assert.equal(result.escalate, false, `flagged as ${result.category} on ${JSON.stringify(result.match)}`)
+      })
+    }
+  })
+}
+
+test('the first matching category wins', () => {
+  assert.equal(classifyIncomingMessage('call me, mom is in the hospital').category, 'bad-news')
+  assert.equal(classifyIncomingMessage('im scared, where are you').category, 'emotional-distress')
+  assert.equal(classifyIncomingMessage('is this a bot? answer ur phone').category, 'bot-check')
+})
+
+test('the result names what matched', () => {
+  assert.deepEqual(classifyIncomingMessage('ok but WYA'), {
+    escalate: true,
+    category: 'availability',
+    reason: 'they asked where you are or when you are free',
+    match: 'WYA'
+  })
+  assert.deepEqual(classifyIncomingMessage('haha fair'), {
+    escalate: false,
+    category: null,
+    reason: 'Nothing requiring the user',
+    match: ''
+  })
+})
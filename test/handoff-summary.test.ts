@@ -0,0 +1,120 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ConversationTracker } from '../src/watchers/conversation-tracker.js'
+import { handleSessionEnd, type AgentContext } from '../src/watchers/message-handler.js'
+import { MemoryConversationStore } from '../src/storage/conversation-store.js'
+import { MemoryAuditLog } from '../src/storage/audit-log.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+import { ReplyQueue } from '../src/utils/reply-queue.js'
+import { TimerManager } from '../src/utils/timer-manager.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+import { configureModels } from '../src/agent/model-registry.js'
+import { loadConfig } from '../src/config.js'
+import type { AgentEvent } from '../src/types/index.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+function setup() {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const config = loadConfig({
+    USER_IDENTIFIER: USER,
+    CONVERSATION_DB_PATH: '',
+    AUDIT_LOG_PATH: '',
+    TIMEZONE: 'UTC',
+    LLM_PROVIDER: 'mock',
+    REPLY_TIMING: 'fixed'
+  })
+  configureModels(config.llm)
+
+  // The watcher never sees the agent's texts come back during these tests
+  const sdk = new FakeTransport(scheduler, USER, 60 * 60000)
+  sdk.addChat(FRIEND, 'Sam')
+  const events = new AgentEventBus()
+  const auditLog = new MemoryAuditLog()
+  events.onAny(event => auditLog.append(event))
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, events, USER)
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'hey', true, scheduler.now()))
+  tracker.setFriendName(FRIEND, 'Sam')
+
+  const context: AgentContext = {
+    sdk,
+    tracker,
+    timerManager: new TimerManager(scheduler),
+    replyQueue: new ReplyQueue(scheduler),
+    auditLog,
+    config,
+    scheduler
+  }
+
+  // The session ends once handleSessionEnd is given the deactivation
+  const ended: Array<Extract<AgentEvent, { type: 'deactivation' }>> = []
+  events.on('deactivation', event => ended.push(event))
+
+  const friendSays = (text: string) =>
+    tracker.updateIncomingMessage(FRIEND, sdk.seedHistory(FRIEND, text, false, scheduler.now()))
+  const agentSends = (texts: string[]) => events.emit({
+    type: 'message_sent',
+    chatId: FRIEND,
+    timestamp: scheduler.now(),
+    texts,
+    reason: 'reply',
+    generation: null,
+    isFinal: false
+  })
+
+  return { scheduler, sdk, tracker, context, ended, friendSays, agentSends }
+}
+
+test('the handoff summary lists texts whose echoes have not come back yet', async () => {
+  const { scheduler, sdk, tracker, context, ended, friendSays, agentSends } = setup()
+
+  friendSays('you coming tonight?')
+  tracker.markAgentActive(FRIEND)
+  await scheduler.advance(30000)
+  agentSends(['ya def', 'what time'])
+  await scheduler.advance(30000)
+  friendSays('8ish')
+  tracker.markAgentInactive(FRIEND, 'reached the message limit')
+
+  await handleSessionEnd(context, ended[0])
+
+  assert.equal(sdk.sent.length, 1)
+  assert.match(
+    sdk.sent[0].text,
+    /^📋 Done texting Sam - reached the message limit\nI sent:\n• ya def\n• what time\nSam said:\n• you coming tonight\?\n• 8ish\n/
+  )
+})
+
+test('the handoff summary waits for a reply still sending when the session ends', async () => {
+  const { scheduler, sdk, tracker, context, ended, friendSays, agentSends } = setup()
+
+  friendSays('u up')
+  tracker.markAgentActive(FRIEND)
+  context.replyQueue.enqueue(FRIEND, 0, 0, async () => {
+    await scheduler.sleep(5000)
+    agentSends(['yeah whats up'])
+  })
+  await scheduler.advance(1000)
+  tracker.markAgentInactive(FRIEND, 'you texted them yourself')
+
+  const summary = handleSessionEnd(context, ended[0])
+  await scheduler.advance(5000)
+  await summary
+
+  assert.equal(sdk.sent.length, 1)
+  assert.match(sdk.sent[0].text, /I sent:\n• yeah whats up\n/)
+})
+
+test('a session where nothing was sent gets no summary', async () => {
+  const { sdk, tracker, context, ended, friendSays } = setup()
+
+  friendSays('u up')
+  tracker.markAgentActive(FRIEND)
+  tracker.markAgentInactive(FRIEND, 'you texted them yourself')
+
+  await handleSessionEnd(context, ended[0])
+
+  assert.deepEqual(sdk.sent, [])
+})
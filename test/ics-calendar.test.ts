@@ -0,0 +1,138 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { findBusyEvent } from '../src/utils/ics-calendar.js'
+import { fixedClock } from '../src/utils/clock.js'
+
+const NEW_YORK = 'America/New_York'
+
+const dir = mkdtempSync(join(tmpdir(), 'ics-calendar-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let fileCount = 0
+
+/**
+ * Write VEVENT bodies into a calendar file and return a lookup at a given instant
+ */
+function calendar(...events: string[][]): (iso: string) => string | null {
+  const path = join(dir, `calendar-${fileCount++}.ics`)
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0']
+  for (const event of events) {
+    lines.push('BEGIN:VEVENT', ...event, 'END:VEVENT')
+  }
+  lines.push('END:VCALENDAR')
+  writeFileSync(path, lines.join('\r\n'))
+
+  return iso => findBusyEvent(path, NEW_YORK, fixedClock(new Date(iso)).now())?.summary ?? null
+}
+
+test('single events', () => {
+  const busyAt = calendar([
+    'SUMMARY:Dentist',
+    'DTSTART;TZID=America/New_York:20261020T140000',
+    'DTEND;TZID=America/New_York:20261020T150000'
+  ])
+
+  assert.equal(busyAt('2026-10-20T13:59:00-04:00'), null)
+  assert.equal(busyAt('2026-10-20T14:00:00-04:00'), 'Dentist')
+  assert.equal(busyAt('2026-10-20T14:59:00-04:00'), 'Dentist')
+  assert.equal(busyAt('2026-10-20T15:00:00-04:00'), null)
+})
+
+test('free, cancelled and UTC events', () => {
+  const busyAt = calendar(
+    ['SUMMARY:Maybe', 'TRANSP:TRANSPARENT', 'DTSTART:20261020T160000Z', 'DURATION:PT1H'],
+    ['SUMMARY:Called off', 'STATUS:CANCELLED', 'DTSTART:20261020T180000Z', 'DURATION:PT1H'],
+    ['SUMMARY:Flight', 'DTSTART:20261020T200000Z', 'DURATION:PT2H30M']
+  )
+
+  assert.equal(busyAt('2026-10-20T16:30:00Z'), null)
+  assert.equal(busyAt('2026-10-20T18:30:00Z'), null)
+  assert.equal(busyAt('2026-10-20T22:29:00Z'), 'Flight')
+  assert.equal(busyAt('2026-10-20T22:30:00Z'), null)
+})
+
+test('all-day events', async t => {
+  await t.test('count only when marked busy', () => {
+    const busyAt = calendar(
+      ['SUMMARY:Birthday', 'DTSTART;VALUE=DATE:20261021', 'DTEND;VALUE=DATE:20261022'],
+      ['SUMMARY:Offsite', 'TRANSP:OPAQUE', 'DTSTART;VALUE=DATE:20261022']
+    )
+
+    assert.equal(busyAt('2026-10-21T12:00:00-04:00'), null)
+    assert.equal(busyAt('2026-10-21T23:59:00-04:00'), null)
+    assert.equal(busyAt('2026-10-22T00:00:00-04:00'), 'Offsite')
+    assert.equal(busyAt('2026-10-22T23:59:00-04:00'), 'Offsite')
+    assert.equal(busyAt('2026-10-23T00:00:00-04:00'), null)
+  })
+
+  await t.test('span the local day, not the UTC one', () => {
+    const busyAt = calendar(['SUMMARY:Moving', 'TRANSP:OPAQUE', 'DTSTART;VALUE=DATE:20261024', 'DTEND;VALUE=DATE:20261026'])
+
+    assert.equal(busyAt('2026-10-23T23:00:00-04:00'), null)
+    assert.equal(busyAt('2026-10-25T22:00:00-04:00'), 'Moving')
+    assert.equal(busyAt('2026-10-26T00:00:00-04:00'), null)
+  })
+})
+
+test('weekly RRULE with an EXDATE', () => {
+  // Mondays and Wednesdays 09:00-09:30, not on Wednesday Oct 21
+  const busyAt = calendar([
+    'SUMMARY:Standup',
+    'DTSTART;TZID=America/New_York:20261005T090000',
+    'DTEND;TZID=America/New_York:20261005T093000',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20261130T000000Z',
+    'EXDATE;TZID=America/New_York:20261021T090000'
+  ])
+
+  assert.equal(busyAt('2026-10-19T09:15:00-04:00'), 'Standup')
+  assert.equal(busyAt('2026-10-20T09:15:00-04:00'), null)
+  assert.equal(busyAt('2026-10-21T09:15:00-04:00'), null)
+  assert.equal(busyAt('2026-10-26T09:15:00-04:00'), 'Standup')
+  assert.equal(busyAt('2026-10-26T09:30:00-04:00'), null)
+  assert.equal(busyAt('2026-10-04T09:15:00-04:00'), null)
+  assert.equal(busyAt('2026-11-30T09:15:00-05:00'), null)
+})
+
+test('weekly RRULE with INTERVAL and COUNT', () => {
+  // Every other Tuesday, three times: Oct 6, Oct 20, Nov 3
+  const busyAt = calendar([
+    'SUMMARY:1:1',
+    'DTSTART;TZID=America/New_York:20261006T150000',
+    'DURATION:PT1H',
+    'RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=3'
+  ])
+
+  assert.equal(busyAt('2026-10-20T15:30:00-04:00'), '1:1')
+  assert.equal(busyAt('2026-10-13T15:30:00-04:00'), null)
+  assert.equal(busyAt('2026-11-03T15:30:00-05:00'), '1:1')
+  assert.equal(busyAt('2026-11-17T15:30:00-05:00'), null)
+})
+
+test('recurrences keep their wall-clock time across DST', async t => {
+  const busyAt = calendar([
+    'SUMMARY:Gym',
+    'DTSTART;TZID=America/New_York:20260302T070000',
+    'DURATION:PT1H',
+    'RRULE:FREQ=DAILY'
+  ])
+
+  await t.test('spring-forward', () => {
+    // 07:00 EST is 12:00Z before the change, 07:00 EDT is 11:00Z after
+    assert.equal(busyAt('2026-03-07T12:30:00Z'), 'Gym')
+    assert.equal(busyAt('2026-03-09T11:30:00Z'), 'Gym')
+    assert.equal(busyAt('2026-03-09T12:30:00Z'), null)
+  })
+
+  await t.test('fall-back', () => {
+    assert.equal(busyAt('2026-10-31T11:30:00Z'), 'Gym')
+    assert.equal(busyAt('2026-11-02T11:30:00Z'), null)
+    assert.equal(busyAt('2026-11-02T12:30:00Z'), 'Gym')
+  })
+})
+
+test('an unreadable file means free', () => {
+  assert.equal(findBusyEvent(join(dir, 'missing.ics'), NEW_YORK, fixedClock(new Date()).now()), null)
+})
@@ -0,0 +1,58 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { linkCacheKey, parseOpenGraph, readLinkPreview } from '../src/utils/link-preview.js'
+
+const dir = mkdtempSync(join(tmpdir(), 'link-preview-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+/**
+ * Save a page into the cache directory as if a browser extension had, stamped with a given mtime
+ */
+function cachePage(url: string, html: string, mtime: Date): void {
+  const path = join(dir, linkCacheKey(url))
+  writeFileSync(path, html)
+  utimesSync(path, mtime, mtime)
+}
+
+test('parseOpenGraph prefers Open Graph tags and falls back to the title tag', () => {
+  assert.deepEqual(
+    parseOpenGraph('<meta property="og:title" content="Crags &amp; Boulders"><meta property="og:site_name" content="Outside"><title>ignored</title>'),
+    { title: 'Crags & Boulders', description: null, siteName: 'Outside' }
+  )
+  assert.deepEqual(
+    parseOpenGraph('<title> Just a\n title </title><meta name="description" content="plain">'),
+    { title: 'Just a title', description: 'plain', siteName: null }
+  )
+})
+
+test('a page saved after a miss is found on the next lookup', async () => {
+  const url = 'https://example.com/later'
+
+  assert.equal(await readLinkPreview(url, dir), null)
+
+  cachePage(url, '<title>Saved later</title>', new Date('2026-10-19T18:00:00Z'))
+  assert.equal((await readLinkPreview(url, dir))?.title, 'Saved later')
+})
+
+test('a page rewritten in the cache is parsed again', async () => {
+  const url = 'https://example.com/updated'
+
+  cachePage(url, '<title>First</title>', new Date('2026-10-19T18:00:00Z'))
+  assert.equal((await readLinkPreview(url, dir))?.title, 'First')
+
+  cachePage(url, '<title>Second</title>', new Date('2026-10-19T18:05:00Z'))
+  assert.equal((await readLinkPreview(url, dir))?.title, 'Second')
+})
+
+test('a page that was removed is no longer previewed', async () => {
+  const url = 'https://example.com/removed'
+
+  cachePage(url, '<title>Gone soon</title>', new Date('2026-10-19T18:00:00Z'))
+  assert.equal((await readLinkPreview(url, dir))?.title, 'Gone soon')
+
+  rmSync(join(dir, linkCacheKey(url)))
+  assert.equal(await readLinkPreview(url, dir), null)
+})
@@ -0,0 +1,144 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ReplyQueue } from '../src/utils/reply-queue.js'
+import { VirtualScheduler } from '../src/utils/clock.js'
+
+const FRIEND = '+15550001111'
+const OTHER = '+15550002222'
+
+function setup() {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const start = scheduler.now().getTime()
+  const log: string[] = []
+
+  /** A reply that takes generateMs to write, logging when it starts and how it ends */
+  const reply = (name: string, generateMs = 0) => async (signal: AbortSignal) => {
+    log.push(`${name} started at ${scheduler.now().getTime() - start}`)
+    if (generateMs > 0) {
+      await scheduler.sleep(generateMs)
+    }
+    log.push(`${name} ${signal.aborted ? 'aborted' : 'sent'} at ${scheduler.now().getTime() - start}`)
+  }
+
+  return { scheduler, queue: new ReplyQueue(scheduler), log, reply }
+}
+
+test('a burst of messages gets one reply once the friend has been quiet for settleMs', async () => {
+  const { scheduler, queue, log, reply } = setup()
+
+  assert.equal(queue.enqueue(FRIEND, 10000, 3000, reply('first')), false)
+  await scheduler.advance(2000)
+  assert.equal(queue.enqueue(FRIEND, 10000, 3000, reply('second')), true)
+  await scheduler.advance(7000)
+  // Arriving 1s before the reply was due, this one pushes it back to 3s of quiet
+  assert.equal(queue.enqueue(FRIEND, 10000, 3000, reply('third')), true)
+  assert.equal(queue.isPending(FRIEND), true)
+
+  await scheduler.advance(2999)
+  assert.deepEqual(log, [])
+
+  await scheduler.advance(1)
+  assert.deepEqual(log, ['third started at 12000', 'third sent at 12000'])
+  assert.equal(queue.isPending(FRIEND), false)
+})
+
+test('the first message waits for the longer of the delay and the settle time', async () => {
+  const { scheduler, queue, log, reply } = setup()
+
+  queue.enqueue(FRIEND, 1000, 3000, reply('short delay'))
+  queue.enqueue(OTHER, 5000, 3000, reply('long delay'))
+  await scheduler.advance(10000)
+
+  assert.deepEqual(log, [
+    'short delay started at 3000',
+    'short delay sent at 3000',
+    'long delay started at 5000',
+    'long delay sent at 5000'
+  ])
+})
+
+test('a message arriving mid-generation aborts that reply and queues one after it', async () => {
+  const { scheduler, queue, log, reply } = setup()
+
+  queue.enqueue(FRIEND, 1000, 1000, reply('stale', 5000))
+  await scheduler.advance(2000)
+  assert.equal(queue.isPending(FRIEND), true)
+  assert.equal(queue.enqueue(FRIEND, 0, 6000, reply('fresh')), true)
+  await scheduler.advance(10000)
+
+  assert.deepEqual(log, [
+    'stale started at 1000',
+    'stale aborted at 6000',
+    'fresh started at 8000',
+    'fresh sent at 8000'
+  ])
+})
+
+test('cancel drops a queued reply and aborts a running one', async t => {
+  await t.test('queued', async () => {
+    const { scheduler, queue, log, reply } = setup()
+
+    queue.enqueue(FRIEND, 1000, 1000, reply('queued'))
+    queue.cancel(FRIEND)
+    assert.equal(queue.isPending(FRIEND), false)
+
+    await scheduler.advance(5000)
+    assert.deepEqual(log, [])
+  })
+
+  await t.test('running', async () => {
+    const { scheduler, queue, log, reply } = setup()
+
+    queue.enqueue(FRIEND, 1000, 1000, reply('running', 5000))
+    await scheduler.advance(2000)
+    queue.cancel(FRIEND)
+    assert.equal(queue.isPending(FRIEND), false)
+
+    const settled = queue.settled(FRIEND)
+    await scheduler.advance(5000)
+    await settled
+    assert.deepEqual(log, ['running started at 1000', 'running aborted at 6000'])
+  })
+
+  await t.test('only its own chat', async () => {
+    const { scheduler, queue, log, reply } = setup()
+
+    queue.enqueue(FRIEND, 1000, 1000, reply('cancelled'))
+    queue.enqueue(OTHER, 1000, 1000, reply('kept'))
+    queue.cancel(FRIEND)
+
+    await scheduler.advance(5000)
+    assert.deepEqual(log, ['kept started at 1000', 'kept sent at 1000'])
+  })
+})
+
+test('stop cancels every chat', async () => {
+  const { scheduler, queue, log, reply } = setup()
+
+  queue.enqueue(FRIEND, 1000, 1000, reply('first'))
+  queue.enqueue(OTHER, 1000, 1000, reply('second'))
+  queue.stop()
+
+  await scheduler.advance(5000)
+  assert.deepEqual(log, [])
+  assert.equal(queue.isPending(FRIEND) || queue.isPending(OTHER), false)
+})
+
+test('a failing reply is logged and the next one still runs', async () => {
+  const { scheduler, queue, log, reply } = setup()
+
+  const originalError = console.error
+  console.error = () => {}
+  try {
+    queue.enqueue(FRIEND, 1000, 1000, async () => {
+      throw new Error('model unavailable')
+    })
+    await scheduler.advance(1000)
+  } finally {
+    console.error = originalError
+  }
+
+  queue.enqueue(FRIEND, 1000, 1000, reply('retry'))
+  await scheduler.advance(1000)
+  assert.deepEqual(log, ['retry started at 2000', 'retry sent at 2000'])
+})
@@ -0,0 +1,90 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { DEFAULT_SAFETY_RULES, buildSafetyRules, checkOutgoingDraft } from '../src/utils/safety-policy.js'
+
+/** Drafts each built-in rule must block, and everyday texts it must let through */
+const FIXTURES: Record<string, { blocks: string[]; allows: string[] }> = {
+  commitment: {
+    blocks: [
+      "i'll pick you up",
+      'i can drive u',
+      "i'll be there at 7",
+      "let's meet tomorrow",
+      'we can grab dinner on friday',
+      'see you tonight!',
+      "i'm free at 6pm",
+      'tomorrow works',
+      "i'm down to hang this weekend",
+      'im in for drinks tonight',
+      'i promise',
+      "it's a date"
+    ],
+    allows: [
+      'im in',
+      "lol i'm down",
+      "i'll grab food later",
+      "haha i'll be there in spirit",
+      'see ya',
+      'we should hang sometime',
+      'sounds fun',
+      "i'm down bad for that show",
+      'omg i can relate'
+    ]
+  },
+  money: {
+    blocks: ['ill send you $20', 'its like 40 bucks', "i'll venmo you", 'i owe you for lunch', 'i can pay you back'],
+    allows: ['that was priceless', 'pay attention lol', 'worth it', 'the 20th works better']
+  },
+  address: {
+    blocks: ['im at 123 Main St', '42 oak avenue', 'apt 4b', "it's suite #300"],
+    allows: ['i ran 5 miles', 'the 3 of us', 'on my way', 'see you at the park']
+  },
+  'phone-number': {
+    blocks: ['555-123-4567', 'call (555) 123 4567', 'my cell is +1 555.123.4567'],
+    allows: ['call me later', 'i got 3 out of 10', 'its 2024 lol']
+  },
+  credentials: {
+    blocks: ['my password is hunter2', 'the code is 482913', "what's your 2fa", 'send me the verification code'],
+    allows: ['i wrote some code today', 'dress code is casual', 'pin me in the group']
+  },
+  'serious-apology': {
+    blocks: ["i'm so sorry for your loss", 'sorry to hear about the accident', 'i really messed up', 'my condolences'],
+    allows: ["sorry i'm late lol", 'sorry missed your text', 'my bad haha']
+  }
+}
+
+test('every built-in rule has fixtures', () => {
+  assert.deepEqual(DEFAULT_SAFETY_RULES.map(rule => rule.id).sort(), Object.keys(FIXTURES).sort())
+})
+
+for (const rule of DEFAULT_SAFETY_RULES) {
+  test(`${rule.id} rule`, async t => {
+    const { blocks, allows } = FIXTURES[rule.id]
+
+    for (const draft of blocks) {
+      await t.test(`blocks ${JSON.stringify(draft)}`, () => {
+        assert.equal(checkOutgoingDraft(draft, [rule]).allowed, false)
+      })
+    }
+
+    for (const draft of allows) {
+      await t.test(`allows ${JSON.stringify(draft)}`, () => {
+        const verdict = checkOutgoingDraft(draft, [rule])
+        assert.equal(verdict.allowed, true, `matched ${verdict.violations[0]?.match}`)
+      })
+    }
+  })
+}
+
+test('buildSafetyRules', async t => {
+  await t.test('drops disabled rules', () => {
+    const rules = buildSafetyRules(['money', ' address '])
+    assert.deepEqual(rules.map(r => r.id), ['commitment', 'phone-number', 'credentials', 'serious-apology'])
+  })
+
+  await t.test('adds custom patterns and skips invalid ones', () => {
+    const rules = buildSafetyRules([], ['secret project', '(unclosed'])
+    const verdict = checkOutgoingDraft('about the Secret Project...', rules)
+    assert.deepEqual(verdict.violations.map(v => v.ruleId), ['custom'])
+  })
+})
@@ -0,0 +1,76 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { evaluateSchedule, isWithinWindows, parseTimeWindows } from '../src/utils/schedule-policy.js'
+import { fixedClock } from '../src/utils/clock.js'
+
+const NEW_YORK = 'America/New_York'
+
+/** An instant given as New York wall-clock time (offset included) */
+function at(iso: string): Date {
+  return fixedClock(new Date(iso)).now()
+}
+
+test('parseTimeWindows', async t => {
+  await t.test('every day by default', () => {
+    assert.deepEqual(parseTimeWindows('01:00-08:00'), [{ days: [0, 1, 2, 3, 4, 5, 6], startMinute: 60, endMinute: 480 }])
+  })
+
+  await t.test('day ranges and lists', () => {
+    assert.deepEqual(parseTimeWindows('mon-fri 09:00-12:00; sat,sun 10:00-11:30').map(w => w.days), [[1, 2, 3, 4, 5], [0, 6]])
+  })
+
+  await t.test('ranges that wrap the week', () => {
+    assert.deepEqual(parseTimeWindows('fri-mon 22:00-02:00')[0].days, [0, 1, 5, 6])
+  })
+
+  await t.test('skips invalid entries', () => {
+    assert.deepEqual(parseTimeWindows('25:00-26:00; noon-1; 09:00-09:00; 08:00-09:00').length, 1)
+  })
+})
+
+test('quiet hours that cross midnight', async t => {
+  const quietHours = parseTimeWindows('23:00-07:00')
+  const cases: Array<[string, boolean]> = [
+    ['2026-10-19T22:59:00-04:00', false],
+    ['2026-10-19T23:00:00-04:00', true],
+    ['2026-10-20T00:30:00-04:00', true],
+    ['2026-10-20T06:59:00-04:00', true],
+    ['2026-10-20T07:00:00-04:00', false],
+    ['2026-10-20T12:00:00-04:00', false]
+  ]
+
+  for (const [time, quiet] of cases) {
+    await t.test(time, () => {
+      assert.equal(isWithinWindows(quietHours, at(time), NEW_YORK), quiet)
+    })
+  }
+
+  await t.test('the early part belongs to the day the window started', () => {
+    // Friday night only: Saturday 03:00 is quiet, Friday 03:00 isn't
+    const fridayNight = parseTimeWindows('fri 23:00-07:00')
+    assert.equal(isWithinWindows(fridayNight, at('2026-10-24T03:00:00-04:00'), NEW_YORK), true)
+    assert.equal(isWithinWindows(fridayNight, at('2026-10-23T03:00:00-04:00'), NEW_YORK), false)
+  })
+
+  await t.test('wall clock holds across a DST change', () => {
+    // 01:00-08:00 on the fall-back night, before and after clocks go back
+    const night = parseTimeWindows('01:00-08:00')
+    assert.equal(isWithinWindows(night, at('2026-11-01T01:30:00-04:00'), NEW_YORK), true)
+    assert.equal(isWithinWindows(night, at('2026-11-01T07:59:00-05:00'), NEW_YORK), true)
+    assert.equal(isWithinWindows(night, at('2026-11-01T08:00:00-05:00'), NEW_YORK), false)
+  })
+})
+
+test('evaluateSchedule', () => {
+  const schedule = {
+    timeZone: NEW_YORK,
+    quietHours: parseTimeWindows('01:00-08:00'),
+    focusBlocks: parseTimeWindows('mon-fri 09:00-12:00'),
+    calendarPath: '',
+    busyAutoReply: ''
+  }
+
+  assert.deepEqual(evaluateSchedule(schedule, at('2026-10-19T10:00:00-04:00')), { quietHours: false, focusBlock: true, busyEvent: null })
+  assert.deepEqual(evaluateSchedule(schedule, at('2026-10-18T10:00:00-04:00')), { quietHours: false, focusBlock: false, busyEvent: null })
+  assert.deepEqual(evaluateSchedule(schedule, at('2026-10-19T02:00:00-04:00')), { quietHours: true, focusBlock: false, busyEvent: null })
+})
@@ -0,0 +1,134 @@
+import { test, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import Database from 'better-sqlite3'
+import { SqliteConversationStore, SCHEMA_VERSION } from '../src/storage/sqlite-conversation-store.js'
+import { ConversationTracker } from '../src/watchers/conversation-tracker.js'
+import { MemoryConversationStore } from '../src/storage/conversation-store.js'
+import { AgentEventBus } from '../src/utils/event-bus.js'
+import { VirtualScheduler, fixedClock } from '../src/utils/clock.js'
+import { FakeTransport } from '../src/transport/fake-transport.js'
+import { analyzeStyle } from '../src/agent/tools/style-analyzer.js'
+import type { ConversationState, StyleProfile } from '../src/types/index.js'
+
+const USER = '+15550000000'
+const FRIEND = '+15550001111'
+
+const dir = mkdtempSync(join(tmpdir(), 'sqlite-store-'))
+after(() => rmSync(dir, { recursive: true, force: true }))
+
+let dbCount = 0
+
+function conversation(): ConversationState {
+  const scheduler = new VirtualScheduler(new Date('2026-10-19T18:00:00Z'))
+  const sdk = new FakeTransport(scheduler, USER)
+  const tracker = new ConversationTracker(false, new MemoryConversationStore(), scheduler, new AgentEventBus(), USER)
+
+  tracker.updateIncomingMessage(FRIEND, sdk.receive(FRIEND, 'you still coming tonight?'))
+  tracker.updateOutgoingMessage(FRIEND, sdk.seedHistory(FRIEND, 'ya omw', true, scheduler.now()))
+  tracker.markAwaitingApproval(FRIEND)
+
+  return tracker.getConversation(FRIEND)!
+}
+
+function styleProfile(): StyleProfile {
+  return {
+    ...analyzeStyle([{ text: 'ya omw', date: '2026-10-19T18:00:00Z' }]),
+    scope: FRIEND,
+    lastSampleGuid: 'fake-1',
+    updatedAt: new Date('2026-10-19T18:00:00Z')
+  }
+}
+
+test('conversations and style profiles round-trip through an in-memory database', () => {
+  const store = new SqliteConversationStore(':memory:')
+  const conv = conversation()
+  const profile = styleProfile()
+
+  store.saveConversation(conv)
+  store.saveStyleProfile(profile)
+
+  assert.deepEqual(store.loadConversations(), [conv])
+  assert.deepEqual(store.loadStyleProfiles(), [profile])
+
+  store.deleteConversation(FRIEND)
+  assert.deepEqual(store.loadConversations(), [])
+  store.close()
+})
+
+test('state survives closing and reopening the database file', () => {
+  const path = join(dir, `store-${dbCount++}.db`)
+  const conv = conversation()
+
+  const first = new SqliteConversationStore(path)
+  first.saveConversation(conv)
+  first.saveConversation({ ...conv, awaitingApproval: false, promptHandle: null, awaitingApprovalSince: null })
+  first.close()
+
+  const reopened = new SqliteConversationStore(path)
+  const [restored] = reopened.loadConversations()
+  assert.equal(restored.chatId, FRIEND)
+  assert.equal(restored.awaitingApproval, false)
+  assert.deepEqual(restored.conversationHistory, conv.conversationHistory)
+  reopened.close()
+})
+
+test('an older database is migrated up to the current schema', () => {
+  const path = join(dir, `store-${dbCount++}.db`)
+  const conv = conversation()
+
+  // A v1 database: conversations only, written before style profiles were stored
+  const old = new Database(path)
+  old.exec('CREATE TABLE conversations (chat_id TEXT PRIMARY KEY, state TEXT NOT NULL, updated_at INTEGER NOT NULL)')
+  old.prepare('INSERT INTO conversations VALUES (?, ?, ?)').run(FRIEND, JSON.stringify(conv), 0)
+  old.pragma('user_version = 1')
+  old.close()
+
+  const store = new SqliteConversationStore(path)
+  assert.deepEqual(store.loadConversations(), [conv])
+  store.saveStyleProfile(styleProfile())
+  assert.equal(store.loadStyleProfiles().length, 1)
+  store.close()
+
+  const check = new Database(path)
+  assert.equal(check.pragma('user_version', { simple: true }), SCHEMA_VERSION)
+  check.close()
+})
+
+test('a database from a newer version is refused', () => {
+  const path = join(dir, `store-${dbCount++}.db`)
+  const newer = new Database(path)
+  newer.pragma(`user_version = ${SCHEMA_VERSION + 1}`)
+  newer.close()
+
+  assert.throws(() => new SqliteConversationStore(path), /newer than supported/)
+})
+
+test('unreadable rows are skipped rather than failing the load', () => {
+  const path = join(dir, `store-${dbCount++}.db`)
+  const store = new SqliteConversationStore(path)
+  store.saveConversation(conversation())
+  store.close()
+
+  const db = new Database(path)
+  db.prepare('INSERT INTO conversations VALUES (?, ?, ?)').run('+15550009999', '{"chatId": 42}', 0)
+  db.close()
+
+  const reopened = new SqliteConversationStore(path)
+  assert.deepEqual(reopened.loadConversations().map(c => c.chatId), [FRIEND])
+  reopened.close()
+})
+
+test('rows are stamped with the injected clock', () => {
+  const path = join(dir, `store-${dbCount++}.db`)
+  const store = new SqliteConversationStore(path, false, fixedClock(new Date('2026-10-19T18:05:00Z')))
+  store.saveConversation(conversation())
+  store.close()
+
+  const db = new Database(path)
+  const row = db.prepare('SELECT updated_at FROM conversations').get() as { updated_at: number }
+  assert.equal(row.updated_at, Date.parse('2026-10-19T18:05:00Z'))
+  db.close()
+})
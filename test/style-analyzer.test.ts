@@ -0,0 +1,58 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { analyzeStyle, type StyleSample } from '../src/agent/tools/style-analyzer.js'
+
+const START = Date.parse('2026-10-19T18:00:00Z')
+
+function sample(chatId: string, seconds: number, isFromMe = true): StyleSample {
+  return { text: isFromMe ? 'ya' : 'pizza tonight', date: new Date(START + seconds * 1000).toISOString(), chatId, isFromMe }
+}
+
+test('texts sent close together in one chat form a burst', () => {
+  const metrics = analyzeStyle([sample('sam', 0), sample('sam', 20), sample('sam', 40)])
+
+  assert.equal(metrics.typicalBurstSize, 3)
+  assert.deepEqual(metrics.burstDistribution, { 3: 1 })
+})
+
+test('a gap of 90 seconds or more starts a new burst', () => {
+  const metrics = analyzeStyle([sample('sam', 0), sample('sam', 90), sample('sam', 100)])
+
+  assert.deepEqual(metrics.burstDistribution, { 1: 0.5, 2: 0.5 })
+})
+
+test('texts to different chats are separate bursts', () => {
+  const metrics = analyzeStyle([sample('sam', 0), sample('alex', 10), sample('sam', 20), sample('alex', 30)])
+
+  assert.equal(metrics.typicalBurstSize, 2)
+  assert.deepEqual(metrics.burstDistribution, { 2: 1 })
+})
+
+test('a reply from the other side ends the burst', async t => {
+  await t.test('in the same chat', () => {
+    const metrics = analyzeStyle([sample('sam', 0), sample('sam', 10, false), sample('sam', 20)])
+
+    assert.equal(metrics.typicalBurstSize, 1)
+    assert.deepEqual(metrics.burstDistribution, { 1: 1 })
+  })
+
+  await t.test('but not from another chat', () => {
+    const metrics = analyzeStyle([sample('sam', 0), sample('alex', 10, false), sample('sam', 20)])
+
+    assert.deepEqual(metrics.burstDistribution, { 2: 1 })
+  })
+
+  await t.test('and is not itself a style sample', () => {
+    const metrics = analyzeStyle([sample('sam', 0), sample('sam', 10, false), sample('sam', 20)])
+
+    assert.equal(metrics.sampleCount, 2)
+    assert.ok(!metrics.commonPhrases.includes('pizza'))
+  })
+})
+
+test('count limits the user\'s samples, not the replies between them', () => {
+  const metrics = analyzeStyle([sample('sam', 0), sample('sam', 10), sample('sam', 15, false), sample('sam', 20)], 2)
+
+  assert.equal(metrics.sampleCount, 2)
+  assert.deepEqual(metrics.burstDistribution, { 1: 1 })
+})
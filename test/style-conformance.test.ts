@@ -0,0 +1,128 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import { parse } from 'yaml'
+import {
+  CONFORMANCE_THRESHOLD,
+  normalizeToStyle,
+  scoreBurstConformance,
+  scoreConformance
+} from '../src/utils/style-conformance.js'
+import { parseScenario } from '../src/simulator/scenario.js'
+import { runScenario } from '../src/simulator/scenario-runner.js'
+import type { StyleProfile } from '../src/types/index.js'
+
+/** Someone who texts short, lowercase, unpunctuated and without emoji */
+const CASUAL: StyleProfile = {
+  tone: 'very brief and casual',
+  averageLength: 20,
+  commonPhrases: [],
+  emojiUsage: 'none',
+  typingPatterns: 'Mostly lowercase, casual typing',
+  styleGuide: '',
+  scope: '*',
+  sampleCount: 40,
+  capsRatio: 0.1,
+  punctuationRatio: 0.1,
+  emojiRatio: 0,
+  abbreviations: [],
+  bigrams: [],
+  trigrams: [],
+  laughterForms: [],
+  typicalBurstSize: 1,
+  burstDistribution: { 1: 1 },
+  lastSampleGuid: null,
+  updatedAt: new Date('2026-10-19T18:00:00Z')
+}
+
+/** Someone who capitalizes and punctuates everything */
+const FORMAL: StyleProfile = { ...CASUAL, capsRatio: 0.9, punctuationRatio: 0.9, emojiUsage: 'rare' }
+
+/** No samples yet: only forbidden tokens count */
+const UNKNOWN: StyleProfile = { ...CASUAL, sampleCount: 0 }
+
+/** Candidate text, profile, expected score, and the violations it should report */
+const SCORE_CASES: Array<[string, StyleProfile, number, string[]]> = [
+  ['ya sounds good', CASUAL, 1, []],
+  // Length band: 0.4x to 2.5x the average (8 to 50 chars here)
+  ['ok', CASUAL, 0.9, ['too short (2 chars, usually ~20)']],
+  ['ya that sounds good i can probably make it after work tho', CASUAL, 0.6, ['too long (57 chars, usually ~20)']],
+  // Casing
+  ['Sounds good to me', CASUAL, 0.8, ['capitalized, but the user types in lowercase']],
+  ['sounds good to me.', FORMAL, 0.8, ['lowercase, but the user capitalizes']],
+  // Trailing punctuation
+  ['sounds good to me.', CASUAL, 0.8, ['ends with a period, but the user rarely punctuates']],
+  ['sounds good to me...', CASUAL, 1, []],
+  ['Sounds good to me', FORMAL, 0.9, ['missing trailing punctuation']],
+  // Emoji
+  ['sounds good 🎉', CASUAL, 0.8, ['uses an emoji, but the user never does']],
+  ['Sounds good 🎉!', FORMAL, 1, []],
+  // Forbidden tokens fail outright
+  ['ya — sounds good', CASUAL, 0, ['contains em-dash']],
+  ['as an ai i cant go', CASUAL, 0, ['contains "As an AI"']],
+  ['im just an ai lol', CASUAL, 0, ['contains AI self-reference']],
+  ['hope this helps', CASUAL, 0, ['contains assistant phrasing']],
+  // Without samples, style checks are skipped
+  ['Sounds good to me. 🎉', UNKNOWN, 1, []],
+  ['Sure — see you then', UNKNOWN, 0, ['contains em-dash']]
+]
+
+test('scoreConformance', async t => {
+  for (const [candidate, profile, score, violations] of SCORE_CASES) {
+    await t.test(JSON.stringify(candidate), () => {
+      const result = scoreConformance(candidate, profile)
+      assert.equal(result.score, score)
+      assert.deepEqual(result.violations, violations)
+      assert.equal(result.passed, score >= CONFORMANCE_THRESHOLD && !violations.some(v => v.startsWith('contains')))
+    })
+  }
+})
+
+test('only fixable violations skip regeneration', () => {
+  assert.equal(scoreConformance('Sounds good to me.', CASUAL).requiresRegeneration, false)
+  assert.equal(scoreConformance('ya — sounds good', CASUAL).requiresRegeneration, false)
+  assert.equal(scoreConformance('as an ai i cant go', CASUAL).requiresRegeneration, true)
+  assert.equal(scoreConformance('ya that sounds good i can probably make it after work tho', CASUAL).requiresRegeneration, true)
+})
+
+test('a burst is only as good as its worst text', () => {
+  const result = scoreBurstConformance(['ya sounds good', 'Sounds good to me.'], CASUAL)
+
+  assert.equal(result.score, 0.6)
+  assert.equal(result.passed, false)
+  assert.deepEqual(result.violations, [
+    'capitalized, but the user types in lowercase',
+    'ends with a period, but the user rarely punctuates'
+  ])
+})
+
+/** Candidate, profile, and the normalized text */
+const NORMALIZE_CASES: Array<[string, StyleProfile, string]> = [
+  ['Sounds good to me.', CASUAL, 'sounds good to me'],
+  ['See you there...', CASUAL, 'see you there...'],
+  ['ya — sounds good', CASUAL, 'ya sounds good'],
+  ['sounds good 🎉 see you', CASUAL, 'sounds good see you'],
+  ['sounds good — see you', FORMAL, 'Sounds good, see you'],
+  ['Sounds Good. 🎉', UNKNOWN, 'Sounds Good. 🎉']
+]
+
+test('normalizeToStyle', async t => {
+  for (const [candidate, profile, expected] of NORMALIZE_CASES) {
+    await t.test(JSON.stringify(candidate), () => {
+      assert.equal(normalizeToStyle(candidate, profile), expected)
+    })
+  }
+})
+
+test('every sent reply records its style score for the audit log', async () => {
+  const scenario = parseScenario(parse(readFileSync('scenarios/approve-takeover.yaml', 'utf8')), 'approve-takeover.yaml')
+  const result = await runScenario(scenario)
+
+  const sent = result.events.filter(event => event.type === 'message_sent')
+  assert.equal(sent.length, 2)
+  for (const event of sent) {
+    assert.ok(event.type === 'message_sent' && event.generation?.style)
+    assert.equal(typeof event.generation.style.score, 'number')
+    assert.ok(Array.isArray(event.generation.style.violations))
+  }
+})
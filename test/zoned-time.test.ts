@@ -0,0 +1,46 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { getZonedParts, zonedTimeToUtc } from '../src/utils/zoned-time.js'
+import { fixedClock } from '../src/utils/clock.js'
+
+const NEW_YORK = 'America/New_York'
+const BERLIN = 'Europe/Berlin'
+
+test('zonedTimeToUtc across a spring-forward', async t => {
+  // New York skips 02:00-03:00 on 2026-03-08
+  await t.test('before and after the gap', () => {
+    assert.equal(zonedTimeToUtc(2026, 3, 8, 1, 59, 0, NEW_YORK).toISOString(), '2026-03-08T06:59:00.000Z')
+    assert.equal(zonedTimeToUtc(2026, 3, 8, 3, 0, 0, NEW_YORK).toISOString(), '2026-03-08T07:00:00.000Z')
+  })
+
+  await t.test('a skipped time moves forward by the gap', () => {
+    assert.equal(zonedTimeToUtc(2026, 3, 8, 2, 30, 0, NEW_YORK).toISOString(), '2026-03-08T07:30:00.000Z')
+    assert.equal(zonedTimeToUtc(2026, 3, 29, 2, 30, 0, BERLIN).toISOString(), '2026-03-29T01:30:00.000Z')
+  })
+})
+
+test('zonedTimeToUtc across a fall-back', async t => {
+  // New York repeats 01:00-02:00 on 2026-11-01
+  await t.test('a repeated time resolves to its first occurrence', () => {
+    assert.equal(zonedTimeToUtc(2026, 11, 1, 1, 30, 0, NEW_YORK).toISOString(), '2026-11-01T05:30:00.000Z')
+    assert.equal(zonedTimeToUtc(2026, 10, 25, 2, 30, 0, BERLIN).toISOString(), '2026-10-25T00:30:00.000Z')
+  })
+
+  await t.test('after the repeat', () => {
+    assert.equal(zonedTimeToUtc(2026, 11, 1, 2, 0, 0, NEW_YORK).toISOString(), '2026-11-01T07:00:00.000Z')
+  })
+})
+
+test('getZonedParts reads both sides of a fall-back as the same wall clock', () => {
+  const first = getZonedParts(fixedClock(new Date('2026-11-01T05:30:00Z')).now(), NEW_YORK)
+  const second = getZonedParts(fixedClock(new Date('2026-11-01T06:30:00Z')).now(), NEW_YORK)
+  assert.deepEqual(first, second)
+  assert.deepEqual(first, { year: 2026, month: 11, day: 1, hour: 1, minute: 30, second: 0, weekday: 0 })
+})
+
+test('zonedTimeToUtc round-trips ordinary times', () => {
+  for (const iso of ['2026-01-15T17:45:00Z', '2026-07-04T00:00:00Z', '2026-12-31T23:59:59Z']) {
+    const p = getZonedParts(new Date(iso), NEW_YORK)
+    assert.equal(zonedTimeToUtc(p.year, p.month, p.day, p.hour, p.minute, p.second, NEW_YORK).toISOString(), new Date(iso).toISOString())
+  }
+})